@@ -0,0 +1,15 @@
+CREATE TABLE "moderation_decision" (
+	"id" text PRIMARY KEY NOT NULL,
+	"feed_id" text NOT NULL,
+	"item_id" text NOT NULL,
+	"decision" text NOT NULL,
+	"reason" text,
+	"edited" boolean DEFAULT false NOT NULL,
+	"item_title" text NOT NULL,
+	"submitted_by" text NOT NULL,
+	"moderator_id" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "moderation_decision" ADD CONSTRAINT "moderation_decision_moderator_id_user_id_fk" FOREIGN KEY ("moderator_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "moderation_decision_feed_idx" ON "moderation_decision" USING btree ("feed_id","created_at");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "feed_subscription" (
+	"user_id" text NOT NULL,
+	"feed_id" text NOT NULL,
+	"read_before" timestamp,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "feed_subscription_user_id_feed_id_pk" PRIMARY KEY("user_id","feed_id")
+);
+--> statement-breakpoint
+CREATE TABLE "item_state" (
+	"user_id" text NOT NULL,
+	"feed_id" text NOT NULL,
+	"item_id" text NOT NULL,
+	"read" boolean,
+	"starred" boolean DEFAULT false NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	CONSTRAINT "item_state_user_id_feed_id_item_id_pk" PRIMARY KEY("user_id","feed_id","item_id")
+);
+--> statement-breakpoint
+ALTER TABLE "feed_subscription" ADD CONSTRAINT "feed_subscription_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "item_state" ADD CONSTRAINT "item_state_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "item_state_starred_idx" ON "item_state" USING btree ("user_id","starred");
\ No newline at end of file
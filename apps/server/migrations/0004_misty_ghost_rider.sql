@@ -0,0 +1,23 @@
+CREATE TABLE "websub_delivery" (
+	"subscription_id" text PRIMARY KEY NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp NOT NULL,
+	"last_error" text
+);
+--> statement-breakpoint
+CREATE TABLE "websub_subscription" (
+	"id" text PRIMARY KEY NOT NULL,
+	"feed_id" text NOT NULL,
+	"topic" text NOT NULL,
+	"callback" text NOT NULL,
+	"secret" text,
+	"lease_seconds" integer NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "websub_delivery" ADD CONSTRAINT "websub_delivery_subscription_id_websub_subscription_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."websub_subscription"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "websub_delivery_next_attempt_idx" ON "websub_delivery" USING btree ("next_attempt_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "websub_subscription_topic_callback_idx" ON "websub_subscription" USING btree ("topic","callback");--> statement-breakpoint
+CREATE INDEX "websub_subscription_feed_idx" ON "websub_subscription" USING btree ("feed_id");--> statement-breakpoint
+CREATE INDEX "websub_subscription_expires_idx" ON "websub_subscription" USING btree ("expires_at");
\ No newline at end of file
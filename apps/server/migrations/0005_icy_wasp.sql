@@ -0,0 +1,10 @@
+CREATE TABLE "archived_item" (
+	"feed_id" text NOT NULL,
+	"item_id" text NOT NULL,
+	"item" jsonb NOT NULL,
+	"item_date" timestamp NOT NULL,
+	"archived_at" timestamp NOT NULL,
+	CONSTRAINT "archived_item_feed_id_item_id_pk" PRIMARY KEY("feed_id","item_id")
+);
+--> statement-breakpoint
+CREATE INDEX "archived_item_feed_date_idx" ON "archived_item" USING btree ("feed_id","item_date");
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { index, jsonb, pgTable, primaryKey, text, timestamp } from "drizzle-orm/pg-core";
+import type { FeedItem } from "../../schemas/feed";
+
+// Items trimmed out of a feed's live window by its retention policy, kept whole
+export const archivedItem = pgTable("archived_item", {
+  feedId: text("feed_id").notNull(),
+  itemId: text("item_id").notNull(),
+  item: jsonb("item").$type<FeedItem>().notNull(),
+  itemDate: timestamp("item_date").notNull(),
+  archivedAt: timestamp("archived_at").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.feedId, table.itemId] }),
+  index("archived_item_feed_date_idx").on(table.feedId, table.itemDate),
+]);
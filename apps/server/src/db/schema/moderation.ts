@@ -0,0 +1,20 @@
+import { boolean, index, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+
+// Append-only record of every approve/reject decision taken on a submitted item
+export const moderationDecision = pgTable("moderation_decision", {
+  id: text("id").primaryKey(),
+  feedId: text("feed_id").notNull(),
+  itemId: text("item_id").notNull(),
+  decision: text("decision", { enum: ["approved", "rejected"] }).notNull(),
+  reason: text("reason"),
+  edited: boolean("edited").notNull().default(false),
+  itemTitle: text("item_title").notNull(),
+  submittedBy: text("submitted_by").notNull(),
+  moderatorId: text("moderator_id")
+    .notNull()
+    .references(() => user.id),
+  createdAt: timestamp('created_at').notNull(),
+}, (table) => [
+  index("moderation_decision_feed_idx").on(table.feedId, table.createdAt),
+]);
@@ -0,0 +1,29 @@
+import { boolean, index, pgTable, primaryKey, text, timestamp } from "drizzle-orm/pg-core";
+import { user } from "./auth";
+
+export const feedSubscription = pgTable("feed_subscription", {
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  feedId: text("feed_id").notNull(),
+  // Items dated at or before this count as read unless an item_state row says otherwise
+  readBefore: timestamp("read_before"),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.feedId] }),
+]);
+
+// Per-user flags on individual items. A null `read` defers to the subscription's readBefore.
+export const itemState = pgTable("item_state", {
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  feedId: text("feed_id").notNull(),
+  itemId: text("item_id").notNull(),
+  read: boolean("read"),
+  starred: boolean("starred").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.feedId, table.itemId] }),
+  index("item_state_starred_idx").on(table.userId, table.starred),
+]);
@@ -0,0 +1,30 @@
+import { index, integer, pgTable, text, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+
+// Verified WebSub subscribers of the feed documents this server hosts
+export const websubSubscription = pgTable("websub_subscription", {
+  id: text("id").primaryKey(),
+  feedId: text("feed_id").notNull(),
+  topic: text("topic").notNull(),
+  callback: text("callback").notNull(),
+  secret: text("secret"),
+  leaseSeconds: integer("lease_seconds").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [
+  uniqueIndex("websub_subscription_topic_callback_idx").on(table.topic, table.callback),
+  index("websub_subscription_feed_idx").on(table.feedId),
+  index("websub_subscription_expires_idx").on(table.expiresAt),
+]);
+
+// At most one pending content distribution per subscriber: the document is rendered when it is
+// sent, so several updates before then collapse into one delivery of the latest version
+export const websubDelivery = pgTable("websub_delivery", {
+  subscriptionId: text("subscription_id")
+    .primaryKey()
+    .references(() => websubSubscription.id, { onDelete: "cascade" }),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  lastError: text("last_error"),
+}, (table) => [
+  index("websub_delivery_next_attempt_idx").on(table.nextAttemptAt),
+]);
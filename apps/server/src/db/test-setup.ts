@@ -0,0 +1,7 @@
+import { mock } from "bun:test";
+import { getTestDatabase } from "./testing";
+
+// Preloaded before every test file, so no module reaches the configured Postgres, whichever test
+// file happens to import it first
+const database = await getTestDatabase();
+mock.module("./index", () => ({ db: database.db }));
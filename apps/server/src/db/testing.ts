@@ -0,0 +1,41 @@
+import { join } from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { user } from "./schema/auth";
+
+// An in-process Postgres with the app's migrations applied, for tests of code that uses `db`
+const createTestDatabase = async () => {
+  const db = drizzle(new PGlite());
+  await migrate(db, { migrationsFolder: join(import.meta.dir, "../../migrations") });
+
+  const { rows } = await db.execute<{ tablename: string }>(
+    sql`SELECT tablename FROM pg_tables WHERE schemaname = 'public'`
+  );
+  const tables = rows.map(({ tablename }) => `"${tablename}"`).join(", ");
+
+  return {
+    db,
+    // Empties every table, for a clean slate between tests
+    reset: async () => {
+      await db.execute(sql.raw(`TRUNCATE ${tables} CASCADE`));
+    },
+    // A user row for per-user tables to reference
+    createUser: async (id: string) => {
+      await db.insert(user).values({
+        id,
+        name: id,
+        email: `${id}@example.com`,
+        emailVerified: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    },
+  };
+};
+
+let shared: ReturnType<typeof createTestDatabase> | undefined;
+
+// The database test-setup.ts puts behind "../db" for the whole run; tests reset it between cases
+export const getTestDatabase = () => (shared ??= createTestDatabase());
@@ -4,14 +4,80 @@ import { migrate } from "drizzle-orm/postgres-js/migrator";
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
-import { Effect, ManagedRuntime } from "effect";
+import { Cause, Effect, Exit, Layer, ManagedRuntime } from "effect";
 import { db } from "./db";
 import { auth } from "./lib/auth";
 import { createContext } from "./lib/context";
-import { RedisServiceLive } from "./lib/redis";
+import { assignUnownedFeeds } from "./lib/feed-acl";
+import { FeedPollerLive } from "./lib/feed-poller";
+import { feedContentTypes, feedDocuments, getHubUrl, getFeedLinks, renderFeed } from "./lib/feed-renderer";
+import { exportDirectoryOpml, exportSubscriptionsOpml } from "./lib/opml";
+import {
+  getFeed,
+  migrateDedupIndex,
+  migrateItemIndexes,
+  migrateItemKeys,
+  migrateSanitizedContent,
+  migrateSearchIndex,
+  RedisServiceLive,
+  RedisServiceMemory
+} from "./lib/redis";
+import { RetentionLive } from "./lib/retention";
+import { parseHubRequest, verifyIntent, WebSubHubLive, WebSubRequestError } from "./lib/websub";
 import { appRouter } from "./routers";
 
-export const runtime = ManagedRuntime.make(RedisServiceLive);
+const RedisLayer = process.env.REDIS_STORE === "memory" ? RedisServiceMemory : RedisServiceLive;
+
+export const runtime = ManagedRuntime.make(
+  Layer.mergeAll(FeedPollerLive, WebSubHubLive, RetentionLive).pipe(Layer.provideMerge(RedisLayer))
+);
+
+// Disposing the runtime runs the layers' finalizers: background fibers stop and Redis closes
+const shutdown = () => {
+  runtime.dispose().finally(() => process.exit(0));
+};
+process.once("SIGINT", shutdown);
+process.once("SIGTERM", shutdown);
+
+// Running this at startup also builds the runtime, so background layers start with the server
+runtime.runFork(
+  Effect.gen(function* () {
+    const migratedKeys = yield* migrateItemKeys();
+    if (migratedKeys > 0) {
+      yield* Effect.logInfo(`Migrated ${migratedKeys} items to feed-scoped keys`);
+    }
+
+    const migratedIndexes = yield* migrateItemIndexes();
+    if (migratedIndexes > 0) {
+      yield* Effect.logInfo(`Indexed ${migratedIndexes} items by insertion and date`);
+    }
+
+    const searchIndexed = yield* migrateSearchIndex();
+    if (searchIndexed > 0) {
+      yield* Effect.logInfo(`Indexed ${searchIndexed} items for search`);
+    }
+
+    const dedupIndexed = yield* migrateDedupIndex();
+    if (dedupIndexed > 0) {
+      yield* Effect.logInfo(`Indexed ${dedupIndexed} items for duplicate detection`);
+    }
+
+    const sanitized = yield* migrateSanitizedContent();
+    if (sanitized > 0) {
+      yield* Effect.logInfo(`Sanitised the content of ${sanitized} items`);
+    }
+
+    const legacyOwnerId = process.env.LEGACY_FEED_OWNER_ID;
+    if (legacyOwnerId) {
+      const assigned = yield* assignUnownedFeeds(legacyOwnerId);
+      if (assigned > 0) {
+        yield* Effect.logInfo(`Gave ${assigned} unowned feeds to user ${legacyOwnerId}`);
+      }
+    }
+  }).pipe(
+    Effect.catchAll((error) => Effect.logError(error.message))
+  )
+);
 
 const app = new Hono();
 
@@ -38,6 +104,82 @@ app.use(
   })
 );
 
+app.get("/feeds/:feedId/:document", async (c) => {
+  const { feedId, document } = c.req.param();
+  const format = feedDocuments[document];
+
+  if (!format) {
+    return c.notFound();
+  }
+
+  const feed = await runtime.runPromise(getFeed(feedId));
+
+  if (!feed) {
+    return c.notFound();
+  }
+
+  const origin = new URL(c.req.url).origin;
+  const rendered = await runtime.runPromiseExit(
+    Effect.try(() => renderFeed(feed, format, origin)).pipe(
+      Effect.tapErrorCause((cause) => Effect.logError(`Rendering feed ${feedId} as ${format} failed`, cause))
+    )
+  );
+
+  if (Exit.isFailure(rendered)) {
+    return c.text("Failed to render feed", 500);
+  }
+
+  const self = getFeedLinks(origin, feedId)[format];
+  return c.body(rendered.value, 200, {
+    "Content-Type": feedContentTypes[format],
+    // WebSub discovery for subscribers that only look at headers
+    Link: `<${getHubUrl(origin)}>; rel="hub", <${self}>; rel="self"`,
+  });
+});
+
+// WebSub hub endpoint: requests are acknowledged, then the subscriber's intent is verified in the background
+app.post("/websub", async (c) => {
+  const form = await c.req.parseBody();
+  const result = await runtime.runPromiseExit(parseHubRequest(form, new URL(c.req.url).origin));
+
+  if (Exit.isFailure(result)) {
+    const error = Cause.squash(result.cause);
+    return error instanceof WebSubRequestError
+      ? c.text(error.message, 400)
+      : c.text("Failed to process hub request", 500);
+  }
+
+  runtime.runFork(
+    verifyIntent(result.value).pipe(
+      Effect.catchAll((error) => Effect.logError(error.message))
+    )
+  );
+  return c.body(null, 202);
+});
+
+const opmlHeaders = (filename: string) => ({
+  "Content-Type": "text/x-opml; charset=utf-8",
+  "Content-Disposition": `attachment; filename="${filename}"`,
+});
+
+app.get("/feeds.opml", async (c) => {
+  const body = await runtime.runPromise(exportDirectoryOpml(new URL(c.req.url).origin));
+  return c.body(body, 200, opmlHeaders("feeds.opml"));
+});
+
+app.get("/subscriptions.opml", async (c) => {
+  const session = await auth.api.getSession({ headers: c.req.raw.headers });
+
+  if (!session) {
+    return c.text("Authentication required", 401);
+  }
+
+  const body = await runtime.runPromise(
+    exportSubscriptionsOpml(session.user.id, new URL(c.req.url).origin)
+  );
+  return c.body(body, 200, opmlHeaders("subscriptions.opml"));
+});
+
 try {
   console.log("Migrating database...");
   migrate(db, {
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { eq } from "drizzle-orm";
+import { getTestDatabase } from "../db/testing";
+import { apikey } from "../db/schema/auth";
+import {
+  hasFeedAccess,
+  issueApiKey,
+  listApiKeys,
+  permissionsToScopes,
+  type Principal,
+  resolveApiKeyPrincipal,
+  revokeApiKey,
+  scopesToPermissions
+} from "./api-keys";
+
+const database = await getTestDatabase();
+
+const storedKey = async (id: string) => {
+  const [row] = await database.db.select().from(apikey).where(eq(apikey.id, id));
+  return row!;
+};
+
+beforeEach(async () => {
+  await database.reset();
+  await database.createUser("alice");
+  await database.createUser("bob");
+});
+
+describe("scopes", () => {
+  test("round trip through permission statements", () => {
+    const scopes = [{ access: "read" as const }, { access: "write" as const, feedId: "news" }, { access: "read" as const, feedId: "news" }];
+    const permissions = scopesToPermissions(scopes);
+
+    expect(permissions).toEqual({ feeds: ["read"], "feed:news": ["write", "read"] });
+    expect(permissionsToScopes(permissions)).toEqual(scopes);
+  });
+
+  test("ignore actions that aren't feed access", () => {
+    expect(permissionsToScopes({ feeds: ["read", "admin"] })).toEqual([{ access: "read" }]);
+  });
+});
+
+describe("hasFeedAccess", () => {
+  const key = (permissions: Record<string, string[]>): Principal =>
+    ({ type: "apiKey", userId: "alice", keyId: "key", permissions });
+
+  test("sessions may do anything", () => {
+    expect(hasFeedAccess({ type: "session", userId: "alice" }, "news", "write")).toBe(true);
+  });
+
+  test("keys are held to their scopes, where write implies read", () => {
+    const writer = key({ "feed:news": ["write"] });
+    const reader = key({ feeds: ["read"] });
+
+    expect(hasFeedAccess(writer, "news", "read")).toBe(true);
+    expect(hasFeedAccess(writer, "news", "write")).toBe(true);
+    expect(hasFeedAccess(writer, "sports", "read")).toBe(false);
+    expect(hasFeedAccess(reader, "sports", "read")).toBe(true);
+    expect(hasFeedAccess(reader, "sports", "write")).toBe(false);
+    expect(hasFeedAccess(key({}), "news", "read")).toBe(false);
+  });
+});
+
+describe("issueApiKey", () => {
+  test("returns the key once and stores only its hash", async () => {
+    const { id, key } = await issueApiKey("alice", { name: "poller", scopes: [{ access: "write", feedId: "news" }] });
+
+    expect(key).toStartWith("erf_");
+    const row = await storedKey(id);
+    expect(row.key).not.toBe(key);
+    expect(row.key).not.toContain(key.slice(4));
+    expect(row).toMatchObject({ userId: "alice", name: "poller", enabled: true });
+    expect(key).toStartWith(row.start!);
+  });
+
+  test("expires keys given a lifetime", async () => {
+    const { id } = await issueApiKey("alice", { name: "short", scopes: [], expiresInDays: 2 });
+
+    const expiresIn = (await storedKey(id)).expiresAt!.getTime() - Date.now();
+    expect(expiresIn).toBeWithin(2 * 24 * 60 * 60 * 1000 - 60_000, 2 * 24 * 60 * 60 * 1000 + 1);
+  });
+});
+
+describe("resolveApiKeyPrincipal", () => {
+  test("a valid key acts for its user within its scopes", async () => {
+    const { id, key } = await issueApiKey("alice", { name: "poller", scopes: [{ access: "write", feedId: "news" }] });
+
+    expect(await resolveApiKeyPrincipal(key)).toEqual({
+      type: "apiKey",
+      userId: "alice",
+      keyId: id,
+      permissions: { "feed:news": ["write"] },
+    });
+    expect((await storedKey(id)).lastRequest).not.toBeNull();
+  });
+
+  test("unknown and revoked keys resolve to nobody", async () => {
+    const { id, key } = await issueApiKey("alice", { name: "poller", scopes: [{ access: "read" }] });
+
+    expect(await resolveApiKeyPrincipal(`${key}x`)).toBeNull();
+    expect(await resolveApiKeyPrincipal("erf_unknown")).toBeNull();
+
+    await revokeApiKey("alice", id);
+    expect(await resolveApiKeyPrincipal(key)).toBeNull();
+  });
+
+  test("expired keys resolve to nobody", async () => {
+    const { id, key } = await issueApiKey("alice", { name: "old", scopes: [{ access: "read" }], expiresInDays: 1 });
+    await database.db.update(apikey).set({ expiresAt: new Date(Date.now() - 1000) }).where(eq(apikey.id, id));
+
+    expect(await resolveApiKeyPrincipal(key)).toBeNull();
+  });
+});
+
+describe("listApiKeys and revokeApiKey", () => {
+  test("list a user's own keys, newest first, with their scopes", async () => {
+    const first = await issueApiKey("alice", { name: "first", scopes: [{ access: "read" }] });
+    await database.db.update(apikey).set({ createdAt: new Date(Date.now() - 60_000) }).where(eq(apikey.id, first.id));
+    const second = await issueApiKey("alice", { name: "second", scopes: [{ access: "write", feedId: "news" }] });
+    await issueApiKey("bob", { name: "other", scopes: [] });
+
+    const keys = await listApiKeys("alice");
+
+    expect(keys.map(({ id }) => id)).toEqual([second.id, first.id]);
+    expect(keys[0]).toMatchObject({ name: "second", scopes: [{ access: "write", feedId: "news" }], enabled: true });
+    expect(JSON.stringify(keys)).not.toContain(second.key);
+  });
+
+  test("revoked keys stay listed as disabled", async () => {
+    const { id } = await issueApiKey("alice", { name: "poller", scopes: [] });
+
+    expect(await revokeApiKey("alice", id)).toMatchObject({ id, enabled: false });
+    expect((await listApiKeys("alice"))[0]?.enabled).toBe(false);
+  });
+
+  test("nobody can revoke another user's key", async () => {
+    const { id, key } = await issueApiKey("alice", { name: "poller", scopes: [] });
+
+    expect(await revokeApiKey("bob", id)).toBeNull();
+    expect(await resolveApiKeyPrincipal(key)).not.toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { apikey } from "../db/schema/auth";
+import { FeedId } from "../schemas/feed";
+import { auth } from "./auth";
+
+// The header the source and distributor plugins authenticate with
+export const API_KEY_HEADER = "x-api-key";
+
+export const FeedAccess = z.enum(["read", "write"]);
+export type FeedAccess = z.infer<typeof FeedAccess>;
+
+// Without a feedId the scope covers every feed
+export const ApiKeyScope = z.object({
+  access: FeedAccess,
+  feedId: FeedId.optional(),
+});
+export type ApiKeyScope = z.infer<typeof ApiKeyScope>;
+
+export type Principal =
+  | { type: "session"; userId: string }
+  | { type: "apiKey"; userId: string; keyId: string; permissions: Record<string, string[]> };
+
+// Scopes are stored as better-auth permission statements: { feeds: [...] } for all feeds
+// and { "feed:<id>": [...] } for a single one
+const ALL_FEEDS = "feeds";
+const feedResource = (feedId: string) => `feed:${feedId}`;
+
+export const scopesToPermissions = (scopes: ApiKeyScope[]) => {
+  const permissions: Record<string, string[]> = {};
+  for (const { access, feedId } of scopes) {
+    const resource = feedId ? feedResource(feedId) : ALL_FEEDS;
+    permissions[resource] = [...new Set([...(permissions[resource] ?? []), access])];
+  }
+  return permissions;
+};
+
+export const permissionsToScopes = (permissions: Record<string, string[]>): ApiKeyScope[] =>
+  Object.entries(permissions).flatMap(([resource, actions]) =>
+    actions
+      .filter((action): action is FeedAccess => FeedAccess.safeParse(action).success)
+      .map((access) =>
+        resource === ALL_FEEDS
+          ? { access }
+          : { access, feedId: resource.slice(feedResource("").length) }
+      )
+  );
+
+// Sessions act with the user's full rights; keys only within their scopes, where write implies read
+export const hasFeedAccess = (principal: Principal, feedId: string, access: FeedAccess) => {
+  if (principal.type === "session") {
+    return true;
+  }
+
+  const accepted: FeedAccess[] = access === "read" ? ["read", "write"] : ["write"];
+  return [ALL_FEEDS, feedResource(feedId)].some((resource) =>
+    principal.permissions[resource]?.some((action) => accepted.includes(action as FeedAccess))
+  );
+};
+
+// Verification also stamps the key's lastRequest, which is how last use is tracked
+export async function resolveApiKeyPrincipal(key: string): Promise<Principal | null> {
+  const result = await auth.api.verifyApiKey({ body: { key } });
+
+  if (!result.valid || !result.key) {
+    return null;
+  }
+
+  return {
+    type: "apiKey",
+    userId: result.key.userId,
+    keyId: result.key.id,
+    permissions: result.key.permissions ?? {},
+  };
+}
+
+export const ApiKeySummary = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  start: z.string().nullable(),
+  scopes: z.array(ApiKeyScope),
+  enabled: z.boolean(),
+  lastUsedAt: z.string().nullable(),
+  expiresAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+export type ApiKeySummary = z.infer<typeof ApiKeySummary>;
+
+const toSummary = (row: typeof apikey.$inferSelect): ApiKeySummary => ({
+  id: row.id,
+  name: row.name,
+  start: row.start,
+  scopes: row.permissions ? permissionsToScopes(JSON.parse(row.permissions)) : [],
+  enabled: row.enabled !== false,
+  lastUsedAt: row.lastRequest?.toISOString() ?? null,
+  expiresAt: row.expiresAt?.toISOString() ?? null,
+  createdAt: row.createdAt.toISOString(),
+});
+
+// The plaintext key is only ever returned here; the database keeps its hash
+export async function issueApiKey(
+  userId: string,
+  { name, scopes, expiresInDays }: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number }
+) {
+  const created = await auth.api.createApiKey({
+    body: {
+      userId,
+      name,
+      permissions: scopesToPermissions(scopes),
+      expiresIn: expiresInDays ? expiresInDays * 24 * 60 * 60 : undefined,
+    },
+  });
+
+  return { id: created.id, key: created.key };
+}
+
+export async function listApiKeys(userId: string) {
+  const rows = await db
+    .select()
+    .from(apikey)
+    .where(eq(apikey.userId, userId))
+    .orderBy(desc(apikey.createdAt));
+
+  return rows.map(toSummary);
+}
+
+// Revoked keys stay listed but fail verification
+export async function revokeApiKey(userId: string, keyId: string) {
+  const [row] = await db
+    .update(apikey)
+    .set({ enabled: false, updatedAt: new Date() })
+    .where(and(eq(apikey.id, keyId), eq(apikey.userId, userId)))
+    .returning();
+
+  return row ? toSummary(row) : null;
+}
@@ -1,6 +1,7 @@
 
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
+import { apiKey } from "better-auth/plugins";
 import { siwn } from "better-near-auth";
 import { db } from "../db";
 import * as schema from "../db/schema/auth";
@@ -17,6 +18,16 @@ export const auth = betterAuth({
     siwn({
       recipient: "every-rss-feed.near"
     }),
+    apiKey({
+      defaultPrefix: "erf_",
+      // Plugins poll continuously; every verification still records lastRequest
+      rateLimit: {
+        enabled: false
+      },
+      permissions: {
+        defaultPermissions: { feeds: ["read"] }
+      }
+    }),
   ],
   session: {
     cookieCache: {
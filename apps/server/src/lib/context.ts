@@ -1,4 +1,5 @@
 import type { Context as HonoContext } from "hono";
+import { API_KEY_HEADER, resolveApiKeyPrincipal, type Principal } from "./api-keys";
 import { auth } from "./auth";
 
 export type CreateContextOptions = {
@@ -6,11 +7,31 @@ export type CreateContextOptions = {
 };
 
 export async function createContext({ context }: CreateContextOptions) {
+  const headers = context.req.raw.headers;
+  // Base for links to documents served by this instance
+  const origin = new URL(context.req.url).origin;
+
+  // Plugins authenticate with an API key instead of a session cookie
+  const apiKey = headers.get(API_KEY_HEADER);
+  if (apiKey) {
+    return {
+      session: null,
+      principal: await resolveApiKeyPrincipal(apiKey),
+      origin,
+    };
+  }
+
   const session = await auth.api.getSession({
-    headers: context.req.raw.headers,
+    headers,
   });
+  const principal: Principal | null = session
+    ? { type: "session", userId: session.user.id }
+    : null;
+
   return {
     session,
+    principal,
+    origin,
   };
 }
 
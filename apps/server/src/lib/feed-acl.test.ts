@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import type { Principal } from "./api-keys";
+import {
+  authorizeFeedAction,
+  authorizeFeedMember,
+  authorizeFeedUpsert,
+  FeedForbiddenError,
+  FeedNotFoundError,
+  putFeedCollaborator,
+  removeFeedCollaborator,
+  transferFeedAcl,
+  updateFeedAcl,
+  type FeedAction
+} from "./feed-acl";
+import { makeFeed, useMemoryRedis } from "./testing";
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const session = (userId: string): Principal => ({ type: "session", userId });
+const apiKey = (userId: string, permissions: Record<string, string[]>): Principal =>
+  ({ type: "apiKey", userId, keyId: `key-${userId}`, permissions });
+
+const owner = session("owner");
+const addedAt = "2024-01-01T00:00:00.000Z";
+
+const storedAcl = () => run(store.redis.getFeedAcl("feed"));
+
+beforeEach(async () => {
+  await run(store.redis.addFeed(makeFeed("feed")));
+  await run(store.redis.setFeedAcl({
+    feedId: "feed",
+    ownerId: "owner",
+    collaborators: [
+      { userId: "editor", role: "editor", addedAt },
+      { userId: "moderator", role: "moderator", addedAt },
+    ],
+  }));
+});
+
+describe("authorizeFeedAction", () => {
+  const actions: FeedAction[] = ["submit", "edit", "moderate", "delete", "manage"];
+
+  test.each([
+    ["owner", actions],
+    ["editor", ["submit", "edit", "moderate"]],
+    ["moderator", ["submit", "moderate"]],
+    ["visitor", ["submit"]],
+  ])("%s may %p and nothing else", async (userId, allowed) => {
+    for (const action of actions) {
+      const result = await run(Effect.either(authorizeFeedAction(session(userId), "feed", action)));
+      expect([action, result._tag]).toEqual([action, allowed.includes(action) ? "Right" : "Left"]);
+    }
+  });
+
+  test("keys act for their user only on feeds they may write to", async () => {
+    const scoped = apiKey("owner", { "feed:feed": ["write"] });
+    const readOnly = apiKey("owner", { feeds: ["read"] });
+    const elsewhere = apiKey("owner", { "feed:other": ["write"] });
+
+    expect((await run(authorizeFeedAction(scoped, "feed", "manage"))).ownerId).toBe("owner");
+    await expect(run(authorizeFeedAction(readOnly, "feed", "submit"))).rejects.toThrow("Not allowed to submit feed feed");
+    await expect(run(authorizeFeedAction(elsewhere, "feed", "edit"))).rejects.toThrow("Not allowed to edit feed feed");
+  });
+
+  test("tells a missing feed from one that has no owner yet", async () => {
+    await run(store.redis.addFeed(makeFeed("legacy")));
+
+    const missing = await run(Effect.flip(authorizeFeedAction(owner, "missing", "edit")));
+    const unowned = await run(Effect.flip(authorizeFeedAction(owner, "legacy", "edit")));
+
+    expect(missing).toBeInstanceOf(FeedNotFoundError);
+    expect(unowned).toBeInstanceOf(FeedForbiddenError);
+    expect(unowned.message).toBe("Feed legacy has no owner yet");
+  });
+});
+
+describe("authorizeFeedMember", () => {
+  test("lets in anyone with a role and nobody else", async () => {
+    for (const userId of ["owner", "editor", "moderator"]) {
+      expect((await run(authorizeFeedMember(session(userId), "feed"))).feedId).toBe("feed");
+    }
+    await expect(run(authorizeFeedMember(session("visitor"), "feed"))).rejects.toThrow("Not a member of feed feed");
+  });
+});
+
+describe("authorizeFeedUpsert", () => {
+  const write = (feedId: string) => store.redis.addFeed(makeFeed(feedId));
+
+  test("the creator of a new feed becomes its owner", async () => {
+    await run(authorizeFeedUpsert(session("creator"), "new", write("new")));
+
+    expect(await run(store.redis.getFeedAcl("new"))).toEqual({ feedId: "new", ownerId: "creator", collaborators: [] });
+  });
+
+  test("an existing feed needs edit rights", async () => {
+    await run(authorizeFeedUpsert(session("editor"), "feed", write("feed")));
+
+    await expect(run(authorizeFeedUpsert(session("moderator"), "feed", write("feed")))).rejects.toThrow(
+      "Not allowed to edit feed feed"
+    );
+  });
+
+  test("a failed creation gives the feed up again", async () => {
+    await expect(run(authorizeFeedUpsert(session("creator"), "new", Effect.fail(new Error("write failed"))))).rejects.toThrow(
+      "write failed"
+    );
+
+    expect(await run(store.redis.getFeedAcl("new"))).toBeNull();
+  });
+
+  test("keys can't create feeds outside their scopes", async () => {
+    await expect(run(authorizeFeedUpsert(apiKey("creator", { "feed:other": ["write"] }), "new", write("new")))).rejects.toThrow(
+      "Not allowed to create feed new"
+    );
+  });
+});
+
+describe("updateFeedAcl", () => {
+  test("only the owner may change the access list", async () => {
+    for (const userId of ["editor", "moderator", "visitor"]) {
+      await expect(run(updateFeedAcl(session(userId), "feed", (acl) => Effect.succeed(acl)))).rejects.toThrow(
+        "Not allowed to manage feed feed"
+      );
+    }
+  });
+
+  test("transferring keeps the previous owner on as an editor", async () => {
+    const updated = await run(updateFeedAcl(owner, "feed", (acl) => Effect.succeed(transferFeedAcl(acl, "moderator"))));
+
+    expect(updated.ownerId).toBe("moderator");
+    expect(updated.collaborators.map(({ userId, role }) => [userId, role])).toEqual([
+      ["editor", "editor"],
+      ["owner", "editor"],
+    ]);
+    expect(await storedAcl()).toEqual(updated);
+    await expect(run(authorizeFeedAction(owner, "feed", "manage"))).rejects.toThrow("Not allowed to manage feed feed");
+  });
+
+  test("a change that fails leaves the access list alone", async () => {
+    const before = await storedAcl();
+
+    await expect(run(updateFeedAcl(owner, "feed", () => Effect.fail(new Error("refused"))))).rejects.toThrow("refused");
+    expect(await storedAcl()).toEqual(before);
+  });
+
+  test("changes made while another is in flight are kept", async () => {
+    let raced = false;
+
+    await run(updateFeedAcl(owner, "feed", (acl) =>
+      Effect.gen(function* () {
+        if (!raced) {
+          raced = true;
+          yield* updateFeedAcl(owner, "feed", (current) => Effect.succeed(removeFeedCollaborator(current, "moderator")));
+        }
+        return putFeedCollaborator(acl, "newcomer", "editor");
+      })
+    ));
+
+    expect((await storedAcl())?.collaborators.map(({ userId }) => userId)).toEqual(["editor", "newcomer"]);
+  });
+
+  test("an owner who loses the feed meanwhile can't finish their change", async () => {
+    let raced = false;
+
+    const result = run(updateFeedAcl(owner, "feed", (acl) =>
+      Effect.gen(function* () {
+        if (!raced) {
+          raced = true;
+          yield* updateFeedAcl(owner, "feed", (current) => Effect.succeed(transferFeedAcl(current, "editor")));
+        }
+        return putFeedCollaborator(acl, "newcomer", "moderator");
+      })
+    ));
+
+    await expect(result).rejects.toThrow("Not allowed to manage feed feed");
+    expect(await storedAcl()).toMatchObject({ ownerId: "editor" });
+    expect((await storedAcl())?.collaborators.some(({ userId }) => userId === "newcomer")).toBe(false);
+  });
+});
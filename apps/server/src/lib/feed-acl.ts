@@ -0,0 +1,192 @@
+import { Data, Effect } from "effect";
+import type { CollaboratorRole, FeedAcl, FeedRole } from "../schemas/acl";
+import { hasFeedAccess, type Principal } from "./api-keys";
+import { claimFeedAcl, getFeed, getFeedAcl, getFeedAcls, getFeedIds, releaseFeedAcl, replaceFeedAcl } from "./redis";
+
+export class FeedForbiddenError extends Data.TaggedError("FeedForbiddenError")<{
+  message: string;
+}> { }
+
+export class FeedNotFoundError extends Data.TaggedError("FeedNotFoundError")<{
+  message: string;
+}> { }
+
+export class FeedAclConflictError extends Data.TaggedError("FeedAclConflictError")<{
+  message: string;
+}> { }
+
+export type FeedAction = "submit" | "edit" | "moderate" | "delete" | "manage";
+
+const roleActions: Record<FeedRole, FeedAction[]> = {
+  owner: ["submit", "edit", "moderate", "delete", "manage"],
+  editor: ["submit", "edit", "moderate"],
+  moderator: ["submit", "moderate"],
+};
+
+// Anyone signed in may propose items; moderators decide what gets published
+const visitorActions: FeedAction[] = ["submit"];
+
+export const feedRole = (acl: FeedAcl, userId: string): FeedRole | null => {
+  if (acl.ownerId === userId) {
+    return "owner";
+  }
+  return acl.collaborators.find((collaborator) => collaborator.userId === userId)?.role ?? null;
+};
+
+// Nobody may act on a feed without an access list: either it doesn't exist, or it was created
+// before ownership existed and waits for assignUnownedFeeds
+const allowedActions = (feedId: string, acl: FeedAcl | null, principal: Principal | null) => {
+  const role = principal && acl ? feedRole(acl, principal.userId) : null;
+  // Keys act for their user, but only on feeds their scopes allow writing to
+  const actions = principal && acl && hasFeedAccess(principal, feedId, "write")
+    ? role ? roleActions[role] : visitorActions
+    : [];
+  return { role, actions };
+};
+
+export const feedPermissions = (feedId: string, acl: FeedAcl | null, principal: Principal | null) => {
+  const { role, actions } = allowedActions(feedId, acl, principal);
+
+  return {
+    role,
+    canSubmit: actions.includes("submit"),
+    canEdit: actions.includes("edit"),
+    canModerate: actions.includes("moderate"),
+    canDelete: actions.includes("delete"),
+    canManage: actions.includes("manage"),
+  };
+};
+
+const missingAclError = (feedId: string) =>
+  Effect.map(getFeed(feedId, { includeItems: false }), (feed) =>
+    feed
+      ? new FeedForbiddenError({ message: `Feed ${feedId} has no owner yet` })
+      : new FeedNotFoundError({ message: `Feed ${feedId} not found` })
+  );
+
+// Resolves to the feed's access list once the principal is allowed to perform the action.
+// Never creates one: that only happens when the feed itself is created, see authorizeFeedUpsert.
+export const authorizeFeedAction = (principal: Principal, feedId: string, action: FeedAction) =>
+  Effect.gen(function* () {
+    const acl = yield* getFeedAcl(feedId);
+    if (!acl) {
+      return yield* Effect.fail(yield* missingAclError(feedId));
+    }
+
+    if (!allowedActions(feedId, acl, principal).actions.includes(action)) {
+      return yield* Effect.fail(new FeedForbiddenError({
+        message: `Not allowed to ${action} feed ${feedId}`,
+      }));
+    }
+
+    return acl;
+  });
+
+// Resolves to the feed's access list if the principal has any role on the feed
+export const authorizeFeedMember = (principal: Principal, feedId: string) =>
+  Effect.gen(function* () {
+    const acl = yield* getFeedAcl(feedId);
+    if (!acl) {
+      return yield* Effect.fail(yield* missingAclError(feedId));
+    }
+
+    if (!feedRole(acl, principal.userId)) {
+      return yield* Effect.fail(new FeedForbiddenError({
+        message: `Not a member of feed ${feedId}`,
+      }));
+    }
+
+    return acl;
+  });
+
+// Runs a write that creates the feed if it doesn't exist yet. Existing feeds need "edit"; a new
+// one is owned by the principal creating it. Its access list is claimed before the write, so of
+// two concurrent creators only one gets in, and released again if the write fails.
+export const authorizeFeedUpsert = <A, E, R>(
+  principal: Principal,
+  feedId: string,
+  write: Effect.Effect<A, E, R>
+) =>
+  Effect.gen(function* () {
+    const [acl, feed] = yield* Effect.all([getFeedAcl(feedId), getFeed(feedId, { includeItems: false })]);
+
+    if (!acl && !feed) {
+      if (!hasFeedAccess(principal, feedId, "write")) {
+        return yield* Effect.fail(new FeedForbiddenError({ message: `Not allowed to create feed ${feedId}` }));
+      }
+      const claimed: FeedAcl = { feedId, ownerId: principal.userId, collaborators: [] };
+      if (yield* claimFeedAcl(claimed)) {
+        return yield* write.pipe(Effect.tapError(() => releaseFeedAcl(claimed)));
+      }
+      // Someone else is creating it
+    }
+
+    yield* authorizeFeedAction(principal, feedId, "edit");
+    return yield* write;
+  });
+
+const ACL_UPDATE_ATTEMPTS = 10;
+
+// Applies `change` to the feed's access list once the principal may manage the feed, and
+// resolves to the new list. If the list changed in the meantime, the check and the change run
+// again against the stored one, so concurrent updates never overwrite each other.
+export const updateFeedAcl = <E, R>(
+  principal: Principal,
+  feedId: string,
+  change: (acl: FeedAcl) => Effect.Effect<FeedAcl, E, R>
+) =>
+  Effect.gen(function* () {
+    for (let attempt = 0; attempt < ACL_UPDATE_ATTEMPTS; attempt++) {
+      const acl = yield* authorizeFeedAction(principal, feedId, "manage");
+      const updated = yield* change(acl);
+      if (yield* replaceFeedAcl(acl, updated)) {
+        return updated;
+      }
+    }
+
+    return yield* Effect.fail(new FeedAclConflictError({
+      message: `Access list of feed ${feedId} kept changing, try again`,
+    }));
+  });
+
+// Feeds stored before ownership existed have no access list, so nobody can change them until
+// they get one. Hands every such feed to `ownerId`; resolves to how many there were.
+export const assignUnownedFeeds = (ownerId: string) =>
+  Effect.gen(function* () {
+    const feedIds = yield* getFeedIds();
+    const acls = yield* getFeedAcls(feedIds);
+    const unowned = feedIds.filter((_, index) => !acls[index]);
+
+    const claimed = yield* Effect.forEach(unowned, (feedId) =>
+      claimFeedAcl({ feedId, ownerId, collaborators: [] })
+    );
+    return claimed.filter(Boolean).length;
+  });
+
+// The previous owner stays on as an editor
+export const transferFeedAcl = (acl: FeedAcl, newOwnerId: string): FeedAcl => ({
+  ...acl,
+  ownerId: newOwnerId,
+  collaborators: [
+    ...acl.collaborators.filter((collaborator) =>
+      collaborator.userId !== newOwnerId && collaborator.userId !== acl.ownerId
+    ),
+    { userId: acl.ownerId, role: "editor", addedAt: new Date().toISOString() },
+  ],
+});
+
+export const putFeedCollaborator = (acl: FeedAcl, userId: string, role: CollaboratorRole): FeedAcl => {
+  const existing = acl.collaborators.find((collaborator) => collaborator.userId === userId);
+  return {
+    ...acl,
+    collaborators: [
+      ...acl.collaborators.filter((collaborator) => collaborator.userId !== userId),
+      { userId, role, addedAt: existing?.addedAt ?? new Date().toISOString() },
+    ],
+  };
+};
+
+export const removeFeedCollaborator = (acl: FeedAcl, userId: string): FeedAcl => ({
+  ...acl,
+  collaborators: acl.collaborators.filter((collaborator) => collaborator.userId !== userId),
+});
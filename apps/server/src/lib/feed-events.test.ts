@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Chunk, Effect, Fiber, Stream } from "effect";
+import type { FeedItem } from "../schemas/feed";
+import type { FeedEvent } from "../schemas/events";
+import { feedEventStream } from "./feed-events";
+import type { RedisError, RedisService } from "./redis";
+import { makeFeed, makeItem, useMemoryRedis } from "./testing";
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const item = (n: number, fields: Partial<FeedItem> = {}) => ({ ...makeItem(n, fields), id: `item-${n}` });
+
+// The events published while `write` runs, without their timestamps
+const eventsDuring = async (write: () => Promise<unknown>) => {
+  const events: FeedEvent[] = [];
+  const unsubscribe = await run(store.redis.subscribeFeedEvents((event) => events.push(event)));
+  try {
+    await write();
+    // Delivery follows the transaction, as over a real connection
+    await Bun.sleep(0);
+  } finally {
+    unsubscribe();
+  }
+  return events.map(({ at, ...event }) => {
+    expect(new Date(at).toISOString()).toBe(at);
+    return event;
+  });
+};
+
+beforeEach(async () => {
+  await run(store.redis.addFeed(makeFeed("news", [item(1), item(2)])));
+  await run(store.redis.addFeed(makeFeed("other")));
+});
+
+describe("feed events", () => {
+  test("adding a new feed announces the feed and its items", async () => {
+    const events = await eventsDuring(() => run(store.redis.addFeed(makeFeed("sports", [item(3), item(4)]))));
+
+    expect(events).toEqual([
+      { type: "feed-changed", feedId: "sports", change: "updated" },
+      { type: "items-added", feedId: "sports", itemIds: ["item-3", "item-4"] },
+    ]);
+  });
+
+  test("upserting a feed announces only the items it didn't have", async () => {
+    const events = await eventsDuring(() =>
+      run(store.redis.addFeed(makeFeed("news", [item(2, { title: "Edited" }), item(3)])))
+    );
+
+    expect(events).toEqual([
+      { type: "feed-changed", feedId: "news", change: "updated" },
+      { type: "items-added", feedId: "news", itemIds: ["item-3"] },
+    ]);
+  });
+
+  test("adding an item announces it, but not a duplicate of one already stored", async () => {
+    const events = await eventsDuring(async () => {
+      await run(store.redis.addFeedItem("news", item(3)));
+      await run(store.redis.addFeedItem("news", item(3)));
+    });
+
+    expect(events).toEqual([{ type: "items-added", feedId: "news", itemIds: ["item-3"] }]);
+  });
+
+  test("updating and deleting an item announce that item", async () => {
+    const events = await eventsDuring(async () => {
+      await run(store.redis.updateFeedItem("news", { ...item(1), title: "Corrected" }));
+      await run(store.redis.deleteFeedItem("news", "item-2"));
+    });
+
+    expect(events).toEqual([
+      { type: "item-updated", feedId: "news", itemId: "item-1" },
+      { type: "item-deleted", feedId: "news", itemId: "item-2" },
+    ]);
+  });
+
+  test("writes to missing items announce nothing", async () => {
+    const events = await eventsDuring(async () => {
+      expect(await run(store.redis.updateFeedItem("news", item(9)))).toBe(false);
+      expect(await run(store.redis.deleteFeedItem("news", "item-9"))).toBe(false);
+      expect(await run(store.redis.deleteFeedItem("missing", "item-1"))).toBe(false);
+    });
+
+    expect(events).toEqual([]);
+  });
+
+  test("items expired by retention are announced as deleted", async () => {
+    const events = await eventsDuring(() => run(store.redis.removeFeedItems("news", ["item-1", "item-2", "item-9"])));
+
+    expect(events).toEqual([
+      { type: "item-deleted", feedId: "news", itemId: "item-1" },
+      { type: "item-deleted", feedId: "news", itemId: "item-2" },
+    ]);
+  });
+
+  test("replacing and deleting a feed announce the change", async () => {
+    const events = await eventsDuring(async () => {
+      await run(store.redis.replaceFeed(makeFeed("news", [item(5)])));
+      await run(store.redis.deleteFeed("news"));
+    });
+
+    expect(events).toEqual([
+      { type: "feed-changed", feedId: "news", change: "replaced" },
+      { type: "feed-changed", feedId: "news", change: "deleted" },
+    ]);
+  });
+});
+
+describe("feedEventStream", () => {
+  // The first `count` events of the stream while `write` runs
+  const streamed = (feedId: string | undefined, count: number, write: Effect.Effect<unknown, RedisError, RedisService>) =>
+    run(Effect.gen(function* () {
+      const fiber = yield* feedEventStream(feedId).pipe(Stream.take(count), Stream.runCollect, Effect.fork);
+      // Let the stream subscribe before writing
+      yield* Effect.sleep("10 millis");
+      yield* write;
+      return Chunk.toArray(yield* Fiber.join(fiber).pipe(Effect.timeout("1 second")));
+    }));
+
+  test("follows every feed without a feedId", async () => {
+    const events = await streamed(undefined, 2, Effect.all([
+      store.redis.addFeedItem("news", item(3)),
+      store.redis.addFeedItem("other", item(4)),
+    ]));
+
+    expect(events.map(({ feedId }) => feedId)).toEqual(["news", "other"]);
+  });
+
+  test("leaves out other feeds' events given a feedId", async () => {
+    const events = await streamed("news", 2, Effect.all([
+      store.redis.addFeedItem("other", item(3)),
+      store.redis.addFeedItem("news", item(4)),
+      store.redis.deleteFeedItem("news", "item-1"),
+    ]));
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: "items-added", feedId: "news", itemIds: ["item-4"] }),
+      expect.objectContaining({ type: "item-deleted", feedId: "news", itemId: "item-1" }),
+    ]);
+  });
+
+  test("stops listening once the stream ends", async () => {
+    await streamed("news", 1, store.redis.addFeedItem("news", item(3)));
+
+    expect(await store.client.send("PUBLISH", ["feed-events", "{}"])).toBe(0);
+  });
+});
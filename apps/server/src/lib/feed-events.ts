@@ -0,0 +1,16 @@
+import { Effect, Stream } from "effect";
+import type { FeedEvent } from "../schemas/events";
+import { subscribeFeedEvents, type RedisError, type RedisService } from "./redis";
+
+// Changes to every feed, or only to `feedId`, for as long as the stream is consumed
+export const feedEventStream = (feedId?: string) =>
+  Stream.asyncScoped<FeedEvent, RedisError, RedisService>((emit) =>
+    Effect.acquireRelease(
+      subscribeFeedEvents((event) => {
+        if (!feedId || event.feedId === feedId) {
+          emit.single(event);
+        }
+      }),
+      (unsubscribe) => Effect.sync(unsubscribe)
+    )
+  );
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { Effect } from "effect";
+import { fetchFeedDocument, fetchFeedDocumentIfModified } from "./feed-fetcher";
+
+// A literal public address, so the URL guard passes without DNS and the stub below answers
+const url = "http://93.184.216.34/feed.xml";
+
+let fetchSpy: ReturnType<typeof spyOn>;
+let cancelled: boolean;
+
+const answer = (respond: (init?: RequestInit) => Response | Promise<Response>) => {
+  fetchSpy = spyOn(globalThis, "fetch").mockImplementation((async (_url: URL, init?: RequestInit) => respond(init)) as typeof fetch);
+};
+
+// A body that hands out `chunk` for as long as it is read, or stalls after the first one
+const streamingBody = (chunk: string, { stall = false } = {}) => {
+  let sent = false;
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      if (stall && sent) {
+        return new Promise(() => { });
+      }
+      sent = true;
+      controller.enqueue(new TextEncoder().encode(chunk));
+    },
+    cancel: () => {
+      cancelled = true;
+    },
+  });
+};
+
+const failure = async (effect: Effect.Effect<unknown, { message: string }>) =>
+  (await Effect.runPromise(Effect.flip(effect))).message;
+
+beforeEach(() => {
+  cancelled = false;
+  process.env.FEED_FETCH_TIMEOUT_SECONDS = "0.2";
+  process.env.FEED_MAX_BYTES = "1000";
+});
+
+afterEach(() => {
+  fetchSpy.mockRestore();
+  delete process.env.FEED_FETCH_TIMEOUT_SECONDS;
+  delete process.env.FEED_MAX_BYTES;
+});
+
+describe("fetchFeedDocument", () => {
+  test("returns the body and validators of a feed within the limits", async () => {
+    answer(() => new Response("<rss/>", { headers: { ETag: "\"v1\"" } }));
+
+    expect(await Effect.runPromise(fetchFeedDocument(url))).toEqual({ body: "<rss/>", etag: "\"v1\"", lastModified: undefined });
+  });
+
+  test("gives up on an upstream that never answers", async () => {
+    answer((init) => new Promise((_, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+    }));
+
+    expect(await failure(fetchFeedDocument(url))).toBe(`Timed out fetching feed ${url}`);
+  });
+
+  test("gives up on a body that stops coming", async () => {
+    answer(() => new Response(streamingBody("<rss>", { stall: true })));
+
+    expect(await failure(fetchFeedDocument(url))).toBe(`Timed out fetching feed ${url}`);
+    expect(cancelled).toBe(true);
+  });
+
+  test("refuses a feed declared larger than the limit without reading it", async () => {
+    answer(() => new Response(streamingBody("x"), { headers: { "Content-Length": "5000" } }));
+
+    expect(await failure(fetchFeedDocument(url))).toBe(`Feed ${url} is larger than 1000 bytes`);
+  });
+
+  test("stops reading a body that streams past the limit", async () => {
+    answer(() => new Response(streamingBody("x".repeat(300))));
+
+    expect(await failure(fetchFeedDocument(url))).toBe(`Feed ${url} is larger than 1000 bytes`);
+    expect(cancelled).toBe(true);
+  });
+});
+
+describe("fetchFeedDocumentIfModified", () => {
+  test("resolves to null when the upstream has not changed", async () => {
+    answer(() => new Response(null, { status: 304 }));
+
+    expect(await Effect.runPromise(fetchFeedDocumentIfModified(url, { etag: "\"v1\"" }))).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import { Data, Duration, Effect } from "effect";
+import { safeFetch, UnsafeUrlError } from "./safe-fetch";
+
+export class FeedFetchError extends Data.TaggedError("FeedFetchError")<{
+  message: string;
+  status?: number;
+  cause?: unknown;
+}> { }
+
+export type FeedDocument = {
+  body: string;
+  etag?: string;
+  lastModified?: string;
+};
+
+export type CacheValidators = {
+  etag?: string;
+  lastModified?: string;
+};
+
+const FEED_ACCEPT_HEADER = [
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/feed+json",
+  "application/rdf+xml",
+  "application/xml;q=0.9",
+  "text/xml;q=0.9",
+  "*/*;q=0.8",
+].join(", ");
+
+// Read per request, like the safe-fetch allowlist, so the environment can change them at any time
+const fetchTimeout = () => Duration.seconds(Number(process.env.FEED_FETCH_TIMEOUT_SECONDS) || 30);
+const maxFeedBytes = () => Number(process.env.FEED_MAX_BYTES) || 10 * 1024 * 1024;
+
+const tooLarge = (url: string, limit: number) =>
+  new FeedFetchError({ message: `Feed ${url} is larger than ${limit} bytes` });
+
+// Reads the body up to the size limit. The timeout's signal covers the body too, so an
+// upstream that stalls or streams without end is cut off either way.
+const readBody = async (response: Response, url: string, signal: AbortSignal) => {
+  const limit = maxFeedBytes();
+  if (Number(response.headers.get("content-length")) > limit) {
+    throw tooLarge(url, limit);
+  }
+  if (!response.body) {
+    return "";
+  }
+
+  signal.throwIfAborted();
+  const reader = response.body.getReader();
+  const cancel = () => reader.cancel(signal.reason).catch(() => undefined);
+  signal.addEventListener("abort", cancel, { once: true });
+
+  try {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      signal.throwIfAborted();
+      if (done) {
+        break;
+      }
+      size += value.byteLength;
+      if (size > limit) {
+        await cancel();
+        throw tooLarge(url, limit);
+      }
+      chunks.push(value);
+    }
+    return new TextDecoder().decode(Buffer.concat(chunks));
+  } finally {
+    signal.removeEventListener("abort", cancel);
+  }
+};
+
+const requestFeedDocument = (url: string, validators: CacheValidators) =>
+  Effect.tryPromise({
+    try: async (): Promise<FeedDocument | null> => {
+      const headers: Record<string, string> = { Accept: FEED_ACCEPT_HEADER };
+      if (validators.etag) {
+        headers["If-None-Match"] = validators.etag;
+      }
+      if (validators.lastModified) {
+        headers["If-Modified-Since"] = validators.lastModified;
+      }
+
+      const signal = AbortSignal.timeout(Duration.toMillis(fetchTimeout()));
+      const response = await safeFetch(url, { headers, signal });
+
+      if (response.status === 304) {
+        return null;
+      }
+
+      if (!response.ok) {
+        throw new FeedFetchError({
+          message: `Upstream responded with ${response.status} for ${url}`,
+          status: response.status,
+        });
+      }
+
+      return {
+        body: await readBody(response, url, signal),
+        etag: response.headers.get("etag") ?? undefined,
+        lastModified: response.headers.get("last-modified") ?? undefined,
+      };
+    },
+    catch: (error) => error instanceof FeedFetchError
+      ? error
+      : new FeedFetchError({
+        message: error instanceof UnsafeUrlError
+          ? `Refused to fetch feed ${url}: ${error.message}`
+          : error instanceof DOMException && error.name === "TimeoutError"
+            ? `Timed out fetching feed ${url}`
+            : `Failed to fetch feed ${url}`,
+        cause: error
+      }),
+  });
+
+export const fetchFeedDocument = (url: string) =>
+  requestFeedDocument(url, {}).pipe(
+    Effect.flatMap((document) => document
+      ? Effect.succeed(document)
+      : Effect.fail(new FeedFetchError({
+        message: `Upstream responded with 304 for ${url} without a conditional request`,
+        status: 304,
+      }))
+    )
+  );
+
+// Sends If-None-Match/If-Modified-Since and resolves to null when the upstream has not changed
+export const fetchFeedDocumentIfModified = (url: string, validators: CacheValidators) =>
+  requestFeedDocument(url, validators);
@@ -0,0 +1,38 @@
+import { createHash } from "node:crypto";
+import { Effect } from "effect";
+import type { Principal } from "./api-keys";
+import { authorizeFeedUpsert } from "./feed-acl";
+import { fetchFeedDocument } from "./feed-fetcher";
+import { parseFeed } from "./feed-parser";
+import { addFeed, setFeedSource } from "./redis";
+import { notifyHub } from "./websub";
+
+// Re-importing the same URL lands on the same feed unless an id is given
+export const importedFeedId = (url: string) =>
+  createHash("sha256").update(url).digest("hex").slice(0, 16);
+
+export const importFeedFromUrl = (
+  principal: Principal,
+  url: string,
+  { feedId = importedFeedId(url), category }: { feedId?: string; category?: string } = {}
+) =>
+  Effect.gen(function* () {
+    const document = yield* fetchFeedDocument(url);
+    const parsed = yield* parseFeed(document.body, feedId);
+    const feed = category ? { ...parsed, options: { ...parsed.options, category } } : parsed;
+
+    // Checked once the document is known to be a feed, so failed imports claim nothing
+    yield* authorizeFeedUpsert(principal, feedId, addFeed(feed));
+
+    // Keep the feed in sync with its upstream from now on
+    yield* setFeedSource({
+      feedId,
+      url,
+      etag: document.etag,
+      lastModified: document.lastModified,
+      lastFetchedAt: new Date().toISOString(),
+      failureCount: 0,
+    });
+    yield* notifyHub(feedId);
+    return feed;
+  });
@@ -0,0 +1,147 @@
+import { afterAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { Effect } from "effect";
+import type { FeedItem } from "../schemas/feed";
+import type { Principal } from "./api-keys";
+import { FeedForbiddenError, FeedNotFoundError } from "./feed-acl";
+import { FeedItemNotFoundError, InvalidFeedItemError, patchFeedItem, removeFeedItem } from "./feed-items";
+import { makeFeed, makeItem, useMemoryRedis } from "./testing";
+import * as websub from "./websub";
+
+// Only whether the hub is told matters here; its delivery queue lives in Postgres
+const notifyHub = spyOn(websub, "notifyHub").mockImplementation(() => Effect.void);
+
+afterAll(() => {
+  notifyHub.mockRestore();
+});
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const session = (userId: string): Principal => ({ type: "session", userId });
+const editor = session("editor");
+
+const item = (n: number, fields: Partial<FeedItem> = {}) => ({ ...makeItem(n, fields), id: `item-${n}` });
+
+const datedIds = async () => {
+  const { items } = await run(store.redis.getItemsByDate("news", { from: -Infinity, to: Infinity, limit: 100 }));
+  return items.map(({ id }) => id);
+};
+
+const searchIds = async (...terms: string[]) => {
+  const hits = await run(store.redis.searchFeedItems(["news"], terms));
+  return hits.flatMap(({ items }) => items.map(({ id }) => id));
+};
+
+beforeEach(async () => {
+  notifyHub.mockClear();
+  await run(store.redis.addFeed(makeFeed("news", [
+    item(1, { title: "Rust release notes" }),
+    item(2, { title: "Election results" }),
+    item(3, { title: "Weather" }),
+  ])));
+  await run(store.redis.setFeedAcl({
+    feedId: "news",
+    ownerId: "owner",
+    collaborators: [
+      { userId: "editor", role: "editor", addedAt: "2024-01-01T00:00:00.000Z" },
+      { userId: "moderator", role: "moderator", addedAt: "2024-01-01T00:00:00.000Z" },
+    ],
+  }));
+});
+
+describe("patchFeedItem", () => {
+  test("overwrites only the given fields and tells the hub", async () => {
+    const patched = await run(patchFeedItem(editor, "news", "item-2", { title: "Election results, corrected" }));
+
+    expect(patched).toMatchObject({ ...item(2), title: "Election results, corrected" });
+    expect(await run(store.redis.getFeedItem("news", "item-2"))).toMatchObject(patched);
+    expect(notifyHub).toHaveBeenCalledWith("news");
+  });
+
+  test("moves the item in the search index", async () => {
+    await run(patchFeedItem(editor, "news", "item-1", { title: "Go release notes" }));
+
+    expect(await searchIds("rust")).toEqual([]);
+    expect(await searchIds("go", "release")).toEqual(["item-1"]);
+  });
+
+  test("moves the item in the date index", async () => {
+    await run(patchFeedItem(editor, "news", "item-1", { date: makeItem(9).date }));
+
+    expect(await datedIds()).toEqual(["item-1", "item-3", "item-2"]);
+  });
+
+  test("moves the item's dedup key", async () => {
+    await run(patchFeedItem(editor, "news", "item-1", { guid: "renamed" }));
+
+    expect(await run(store.redis.findDuplicateItem("news", makeItem(1)))).toBeNull();
+    expect(await run(store.redis.findDuplicateItem("news", makeItem(7, { guid: "renamed" })))).toBe("item-1");
+  });
+
+  test("rejects a patch that leaves an invalid item and stores nothing", async () => {
+    const error = await run(Effect.flip(patchFeedItem(editor, "news", "item-1", { title: undefined })));
+
+    expect(error).toBeInstanceOf(InvalidFeedItemError);
+    expect(await run(store.redis.getFeedItem("news", "item-1"))).toMatchObject(item(1, { title: "Rust release notes" }));
+    expect(notifyHub).not.toHaveBeenCalled();
+  });
+
+  test("fails for items that don't exist", async () => {
+    const error = await run(Effect.flip(patchFeedItem(editor, "news", "item-9", { title: "Ghost" })));
+
+    expect(error).toBeInstanceOf(FeedItemNotFoundError);
+    expect(error.message).toBe("Item item-9 not found in feed news");
+    expect(await run(store.redis.getFeedItem("news", "item-9"))).toBeNull();
+  });
+});
+
+describe("removeFeedItem", () => {
+  test("drops the item from the feed and every index, and tells the hub", async () => {
+    await run(removeFeedItem(editor, "news", "item-1"));
+
+    expect(await run(store.redis.getFeedItem("news", "item-1"))).toBeNull();
+    expect((await run(store.redis.getFeedItems("news"))).map(({ id }) => id)).toEqual(["item-3", "item-2"]);
+    expect(await datedIds()).toEqual(["item-3", "item-2"]);
+    expect(await searchIds("rust")).toEqual([]);
+    expect(await run(store.redis.findDuplicateItem("news", makeItem(1)))).toBeNull();
+    expect(notifyHub).toHaveBeenCalledWith("news");
+  });
+
+  test("fails for items that are already gone", async () => {
+    await run(removeFeedItem(editor, "news", "item-1"));
+    notifyHub.mockClear();
+
+    expect(await run(Effect.flip(removeFeedItem(editor, "news", "item-1")))).toBeInstanceOf(FeedItemNotFoundError);
+    expect(notifyHub).not.toHaveBeenCalled();
+  });
+});
+
+describe("permissions", () => {
+  const writes = [
+    ["patchFeedItem", (principal: Principal, feedId = "news", itemId = "item-1") =>
+      patchFeedItem(principal, feedId, itemId, { title: "Defaced" })],
+    ["removeFeedItem", (principal: Principal, feedId = "news", itemId = "item-1") =>
+      removeFeedItem(principal, feedId, itemId)],
+  ] as const;
+
+  test.each(writes)("%s is open to the owner and editors", async (_, write) => {
+    await run(write(session("owner"), "news", "item-1"));
+    await run(write(editor, "news", "item-2"));
+
+    expect(notifyHub).toHaveBeenCalledTimes(2);
+  });
+
+  test.each(writes)("%s is closed to moderators, visitors and keys without write access", async (_, write) => {
+    const readKey: Principal = { type: "apiKey", userId: "owner", keyId: "key", permissions: { "feed:news": ["read"] } };
+
+    for (const principal of [session("moderator"), session("visitor"), readKey]) {
+      expect(await run(Effect.flip(write(principal)))).toBeInstanceOf(FeedForbiddenError);
+    }
+    expect(await run(store.redis.getFeedItem("news", "item-1"))).toMatchObject(item(1, { title: "Rust release notes" }));
+    expect(notifyHub).not.toHaveBeenCalled();
+  });
+
+  test.each(writes)("%s fails for feeds that don't exist", async (_, write) => {
+    expect(await run(Effect.flip(write(editor, "missing")))).toBeInstanceOf(FeedNotFoundError);
+  });
+});
@@ -0,0 +1,61 @@
+import { Data, Effect } from "effect";
+import { z } from "zod";
+import { FeedItem } from "../schemas/feed";
+import type { Principal } from "./api-keys";
+import { authorizeFeedAction } from "./feed-acl";
+import { deleteFeedItem, getFeedItem, updateFeedItem } from "./redis";
+import { notifyHub } from "./websub";
+
+export class FeedItemNotFoundError extends Data.TaggedError("FeedItemNotFoundError")<{
+  message: string;
+}> { }
+
+export class InvalidFeedItemError extends Data.TaggedError("InvalidFeedItemError")<{
+  message: string;
+  cause?: unknown;
+}> { }
+
+export const FeedItemPatch = FeedItem.omit({ id: true, sanitized: true }).partial();
+export type FeedItemPatch = z.infer<typeof FeedItemPatch>;
+
+const notFound = (feedId: string, itemId: string) =>
+  new FeedItemNotFoundError({ message: `Item ${itemId} not found in feed ${feedId}` });
+
+// Published items are corrected in place by anyone who can edit the feed; the patched item
+// must still be a valid FeedItem as a whole
+export const patchFeedItem = (principal: Principal, feedId: string, itemId: string, patch: FeedItemPatch) =>
+  Effect.gen(function* () {
+    yield* authorizeFeedAction(principal, feedId, "edit");
+
+    const current = yield* getFeedItem(feedId, itemId);
+    if (!current) {
+      return yield* Effect.fail(notFound(feedId, itemId));
+    }
+
+    const result = FeedItem.safeParse({ ...current, ...patch, id: itemId });
+    if (!result.success) {
+      return yield* Effect.fail(new InvalidFeedItemError({
+        message: `Invalid item: ${z.prettifyError(result.error)}`,
+        cause: result.error,
+      }));
+    }
+
+    const item = { ...result.data, id: itemId };
+    if (!(yield* updateFeedItem(feedId, item))) {
+      return yield* Effect.fail(notFound(feedId, itemId));
+    }
+
+    yield* notifyHub(feedId);
+    return item;
+  });
+
+export const removeFeedItem = (principal: Principal, feedId: string, itemId: string) =>
+  Effect.gen(function* () {
+    yield* authorizeFeedAction(principal, feedId, "edit");
+
+    if (!(yield* deleteFeedItem(feedId, itemId))) {
+      return yield* Effect.fail(notFound(feedId, itemId));
+    }
+
+    yield* notifyHub(feedId);
+  });
@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Effect, Either } from "effect";
+import { parseFeed } from "./feed-parser";
+
+const fixture = (name: string) => readFileSync(join(import.meta.dir, "fixtures", name), "utf8");
+
+const parse = (body: string) => Effect.runSync(parseFeed(body, "imported"));
+
+describe("parseFeed", () => {
+  test("reads RSS 2.0 channels, items and their namespaced elements", () => {
+    const feed = parse(fixture("rss2.xml"));
+
+    expect(feed.options).toMatchObject({
+      id: "imported",
+      title: "Example Podcast",
+      link: "https://podcast.example.com/",
+      description: "Weekly episodes",
+      language: "en-gb",
+      copyright: "© Example",
+      ttl: 30,
+      updated: "2024-01-02T10:00:00.000Z",
+      image: "https://podcast.example.com/cover.png",
+      author: { email: "editor@example.com", name: "The Editor" },
+      feed: "https://podcast.example.com/rss.xml",
+      hub: "https://hub.example.com/",
+    });
+    expect(feed.categories).toEqual(["Technology"]);
+    expect(feed.items).toHaveLength(2);
+    expect(feed.items[0]).toEqual({
+      title: "Episode 2 & more",
+      link: "https://podcast.example.com/2",
+      guid: "episode-2",
+      date: "2024-01-02T10:00:00.000Z",
+      description: "<p>Second <b>episode</b></p>",
+      content: "<p>Full notes</p>",
+      category: [{ name: "audio", domain: "https://podcast.example.com/tags" }],
+      author: [{ email: "host@example.com", name: "The Host" }, { name: "Guest Speaker" }],
+      enclosure: { url: "https://cdn.example.com/2.mp3", type: "audio/mpeg", length: 2048 },
+    });
+    expect(feed.items[1]).toEqual({
+      title: "Episode 1",
+      link: "https://podcast.example.com/1",
+      date: "2024-01-01T10:00:00.000Z",
+    });
+  });
+
+  test("reads RSS 1.0 (RDF) with Dublin Core metadata", () => {
+    const feed = parse(fixture("rdf.xml"));
+
+    expect(feed.options).toMatchObject({
+      title: "Example Journal",
+      link: "https://journal.example.org/",
+      language: "en",
+      copyright: "CC BY 4.0",
+      updated: "2024-03-01T09:00:00.000Z",
+    });
+    expect(feed.categories).toEqual(["Science"]);
+    expect(feed.items[0]).toEqual({
+      title: "On RDF",
+      link: "https://journal.example.org/articles/2",
+      guid: "https://journal.example.org/articles/2",
+      date: "2024-03-01T09:00:00.000Z",
+      description: "A second article",
+      category: [{ name: "Semantics" }],
+      author: [{ name: "A. Author" }],
+    });
+    // Without a link element the item's rdf:about stands in
+    expect(feed.items[1]!.link).toBe("https://journal.example.org/articles/1");
+  });
+
+  test("reads Atom 1.0 feeds, people, links and enclosures", () => {
+    const feed = parse(fixture("atom.xml"));
+
+    expect(feed.options).toMatchObject({
+      title: "Example Blog",
+      description: "Notes and essays",
+      link: "https://blog.example.net/",
+      feed: "https://blog.example.net/atom.xml",
+      hub: "https://hub.example.net/",
+      language: "fr",
+      copyright: "Example Rights",
+      generator: "Hand written",
+      image: "https://blog.example.net/logo.png",
+      favicon: "https://blog.example.net/favicon.ico",
+      author: { name: "Blog Owner", email: "owner@example.net", link: "https://blog.example.net/about" },
+    });
+    expect(feed.categories).toEqual(["essays"]);
+    expect(feed.contributors).toEqual([{ name: "Copy Editor" }]);
+    expect(feed.items[0]).toEqual({
+      title: "Second post",
+      link: "https://blog.example.net/2",
+      guid: "tag:blog.example.net,2024:2",
+      date: "2024-05-02T12:00:00.000Z",
+      published: "2024-05-01T12:00:00.000Z",
+      description: "Short version",
+      content: "<p>Long version</p>",
+      category: [{ term: "audio", scheme: "https://blog.example.net/tags", name: "Audio" }],
+      author: [{ name: "Guest Writer" }],
+      enclosure: { url: "https://cdn.example.net/2.ogg", type: "audio/ogg", length: 4096, title: "Reading" },
+    });
+    // A link without rel is the alternate
+    expect(feed.items[1]!.link).toBe("https://blog.example.net/1");
+  });
+
+  test("reads JSON Feed 1.1, including attachments and numeric ids", () => {
+    const feed = parse(fixture("feed.json"));
+
+    expect(feed.options).toMatchObject({
+      title: "Example Links",
+      link: "https://links.example.io/",
+      feed: "https://links.example.io/feed.json",
+      language: "en-US",
+      image: "https://links.example.io/icon.png",
+      author: { name: "Link Curator", link: "https://links.example.io/me" },
+      hub: "https://hub.example.io/",
+    });
+    expect(feed.items[0]).toEqual({
+      title: "A link with audio",
+      link: "https://links.example.io/2",
+      guid: "2",
+      date: "2024-06-02T08:00:00.000Z",
+      published: "2024-06-01T08:00:00.000Z",
+      description: "Listen to this",
+      content: "<p>Listen</p>",
+      image: "https://links.example.io/2.png",
+      category: [{ name: "audio" }, { name: "links" }],
+      author: [{ name: "Someone Else" }],
+      enclosure: {
+        url: "https://cdn.example.io/2.m4a",
+        type: "audio/mp4",
+        length: 8192,
+        duration: 300,
+      },
+    });
+    expect(feed.items[1]).toMatchObject({
+      title: "",
+      link: "https://elsewhere.example.com/post",
+      guid: "1",
+      content: "Plain text only",
+    });
+  });
+
+  test.each([
+    ["an HTML page", "<!doctype html><html><body>Not a feed</body></html>"],
+    ["JSON that isn't a JSON Feed", "{\"title\": \"Not a feed\"}"],
+    ["malformed JSON", "{\"version\": "],
+  ])("fails with FeedParseError for %s", (_, body) => {
+    const result = Effect.runSync(Effect.either(parseFeed(body, "imported")));
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("FeedParseError");
+      expect(result.left.message).toStartWith("Failed to parse feed imported");
+    }
+  });
+});
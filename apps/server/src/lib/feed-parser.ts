@@ -0,0 +1,376 @@
+import { Data, Effect } from "effect";
+import { XMLParser } from "fast-xml-parser";
+import {
+  Feed,
+  type FeedAuthor,
+  type FeedCategory,
+  type FeedEnclosure,
+  type FeedItem,
+  type FeedOptions,
+} from "../schemas/feed";
+
+export class FeedParseError extends Data.TaggedError("FeedParseError")<{
+  message: string;
+  cause?: unknown;
+}> { }
+
+type Node = Record<string, any>;
+
+// Elements that may repeat and should always be read as arrays
+const repeatableElements = new Set([
+  "item",
+  "entry",
+  "link",
+  "category",
+  "subject",
+  "author",
+  "contributor",
+  "creator",
+  "enclosure",
+]);
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  // Namespaced elements (dc:creator, content:encoded, atom:link) are read by local name
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => repeatableElements.has(name),
+});
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const text = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) {
+    return text(value[0]);
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    const trimmed = String(value).trim();
+    return trimmed || undefined;
+  }
+  if (value && typeof value === "object" && "#text" in value) {
+    return text((value as Node)["#text"]);
+  }
+  return undefined;
+};
+
+const toIsoDate = (value: unknown): string | undefined => {
+  const raw = text(value);
+  if (!raw) {
+    return undefined;
+  }
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const raw = text(value);
+  const number = raw === undefined ? NaN : Number(raw);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// RSS author fields look like "jane@example.com (Jane Doe)"
+const parseRssAuthor = (value: string): FeedAuthor => {
+  const match = value.match(/^\s*([^\s()]+@[^\s()]+)\s*(?:\((.*)\))?\s*$/);
+  if (match) {
+    return { email: match[1], name: match[2]?.trim() || undefined };
+  }
+  return { name: value };
+};
+
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as T;
+
+const nonEmpty = <T>(values: T[]): T[] | undefined =>
+  values.length > 0 ? values : undefined;
+
+const parseRss2 = (rss: Node): Feed => {
+  const channel: Node = rss.channel ?? {};
+  const links = asArray<Node | string>(channel.link);
+  const atomLinks = links.filter((link): link is Node => typeof link === "object" && "@_href" in link);
+
+  const items = asArray<Node>(channel.item).map((item): FeedItem => {
+    const guid = text(item.guid);
+    const authors = [
+      ...asArray(item.author).map((author) => text(author)),
+      ...asArray(item.creator).map((creator) => text(creator)),
+    ]
+      .filter((author): author is string => !!author)
+      .map(parseRssAuthor);
+    const enclosure = asArray<Node>(item.enclosure)[0];
+
+    return compact({
+      title: text(item.title) ?? "",
+      link: text(asArray(item.link).find((link) => typeof link !== "object" || !("@_href" in link))) ?? guid ?? "",
+      date: toIsoDate(item.pubDate) ?? toIsoDate(item.date) ?? new Date().toISOString(),
+      guid,
+      description: text(item.description),
+      content: text(item.encoded),
+      category: nonEmpty(
+        asArray(item.category).map((category): FeedCategory =>
+          compact({ name: text(category), domain: (category as Node)?.["@_domain"] })
+        )
+      ),
+      author: nonEmpty(authors),
+      enclosure: enclosure?.["@_url"]
+        ? compact({
+          url: enclosure["@_url"],
+          type: enclosure["@_type"],
+          length: toNumber(enclosure["@_length"]),
+        })
+        : undefined,
+    });
+  });
+
+  const managingEditor = text(channel.managingEditor);
+
+  return {
+    options: compact({
+      id: "",
+      title: text(channel.title) ?? "",
+      link: text(links.find((link) => typeof link !== "object" || !("@_href" in link))),
+      description: text(channel.description),
+      language: text(channel.language),
+      copyright: text(channel.copyright) ?? "",
+      updated: toIsoDate(channel.lastBuildDate) ?? toIsoDate(channel.pubDate),
+      generator: text(channel.generator),
+      docs: text(channel.docs),
+      ttl: toNumber(channel.ttl),
+      image: text(channel.image?.url),
+      author: managingEditor ? parseRssAuthor(managingEditor) : undefined,
+      feed: atomLinks.find((link) => link["@_rel"] === "self")?.["@_href"],
+      hub: atomLinks.find((link) => link["@_rel"] === "hub")?.["@_href"],
+    }),
+    items,
+    categories: asArray(channel.category)
+      .map((category) => text(category))
+      .filter((category): category is string => !!category),
+    contributors: [],
+    extensions: [],
+  };
+};
+
+const parseRdf = (rdf: Node): Feed => {
+  const channel: Node = rdf.channel ?? {};
+
+  const items = asArray<Node>(rdf.item).map((item): FeedItem => {
+    const link = text(item.link) ?? text(item["@_about"]) ?? "";
+
+    return compact({
+      title: text(item.title) ?? "",
+      link,
+      guid: text(item["@_about"]),
+      date: toIsoDate(item.date) ?? new Date().toISOString(),
+      description: text(item.description),
+      content: text(item.encoded),
+      category: nonEmpty(
+        asArray(item.subject).map((subject): FeedCategory => ({ name: text(subject) }))
+      ),
+      author: nonEmpty(
+        asArray(item.creator)
+          .map((creator) => text(creator))
+          .filter((creator): creator is string => !!creator)
+          .map((name) => ({ name }))
+      ),
+    });
+  });
+
+  return {
+    options: compact({
+      id: "",
+      title: text(channel.title) ?? "",
+      link: text(channel.link),
+      description: text(channel.description),
+      language: text(channel.language),
+      copyright: text(channel.rights) ?? "",
+      updated: toIsoDate(channel.date),
+      image: text(rdf.image?.url),
+    }),
+    items,
+    categories: asArray(channel.subject)
+      .map((subject) => text(subject))
+      .filter((subject): subject is string => !!subject),
+    contributors: [],
+    extensions: [],
+  };
+};
+
+const parseAtomPerson = (person: Node): FeedAuthor =>
+  compact({
+    name: text(person.name),
+    email: text(person.email),
+    link: text(person.uri),
+  });
+
+const findAtomLink = (links: Node[], rel: string) =>
+  links.find((link) => (link["@_rel"] ?? "alternate") === rel)?.["@_href"] as string | undefined;
+
+const parseAtom = (feed: Node): Feed => {
+  const links = asArray<Node>(feed.link);
+
+  const items = asArray<Node>(feed.entry).map((entry): FeedItem => {
+    const entryLinks = asArray<Node>(entry.link);
+    const enclosure = entryLinks.find((link) => link["@_rel"] === "enclosure");
+    const id = text(entry.id);
+
+    return compact({
+      title: text(entry.title) ?? "",
+      link: findAtomLink(entryLinks, "alternate") ?? entryLinks[0]?.["@_href"] ?? id ?? "",
+      guid: id,
+      date: toIsoDate(entry.updated) ?? toIsoDate(entry.published) ?? new Date().toISOString(),
+      published: toIsoDate(entry.published),
+      description: text(entry.summary),
+      content: text(entry.content),
+      copyright: text(entry.rights),
+      category: nonEmpty(
+        asArray<Node>(entry.category).map((category): FeedCategory =>
+          compact({
+            term: category["@_term"],
+            scheme: category["@_scheme"],
+            name: category["@_label"] ?? category["@_term"],
+          })
+        )
+      ),
+      author: nonEmpty(asArray<Node>(entry.author).map(parseAtomPerson)),
+      contributor: nonEmpty(asArray<Node>(entry.contributor).map(parseAtomPerson)),
+      enclosure: enclosure
+        ? compact({
+          url: enclosure["@_href"],
+          type: enclosure["@_type"],
+          length: toNumber(enclosure["@_length"]),
+          title: enclosure["@_title"],
+        })
+        : undefined,
+    });
+  });
+
+  const author = asArray<Node>(feed.author)[0];
+
+  return {
+    options: compact({
+      id: "",
+      title: text(feed.title) ?? "",
+      link: findAtomLink(links, "alternate"),
+      description: text(feed.subtitle),
+      copyright: text(feed.rights) ?? "",
+      updated: toIsoDate(feed.updated),
+      generator: text(feed.generator),
+      language: feed["@_lang"],
+      image: text(feed.logo),
+      favicon: text(feed.icon),
+      author: author ? parseAtomPerson(author) : undefined,
+      feed: findAtomLink(links, "self"),
+      hub: findAtomLink(links, "hub"),
+    }),
+    items,
+    categories: asArray<Node>(feed.category)
+      .map((category) => category["@_term"] as string | undefined)
+      .filter((category): category is string => !!category),
+    contributors: asArray<Node>(feed.contributor).map(parseAtomPerson),
+    extensions: [],
+  };
+};
+
+const parseJsonFeedAuthors = (source: Node): FeedAuthor[] =>
+  asArray<Node>(source.authors ?? source.author).map((author) =>
+    compact({
+      name: author.name,
+      link: author.url,
+      avatar: author.avatar,
+    })
+  );
+
+const parseJsonFeed = (json: Node): Feed => {
+  const items = asArray<Node>(json.items).map((item): FeedItem => {
+    const attachment = asArray<Node>(item.attachments)[0];
+    const enclosure: FeedEnclosure | undefined = attachment?.url
+      ? compact({
+        url: attachment.url,
+        type: attachment.mime_type,
+        title: attachment.title,
+        length: attachment.size_in_bytes,
+        duration: attachment.duration_in_seconds,
+      })
+      : undefined;
+
+    return compact({
+      title: item.title ?? "",
+      link: item.url ?? item.external_url ?? String(item.id ?? ""),
+      guid: item.id === undefined ? undefined : String(item.id),
+      date: toIsoDate(item.date_modified) ?? toIsoDate(item.date_published) ?? new Date().toISOString(),
+      published: toIsoDate(item.date_published),
+      description: item.summary,
+      content: item.content_html ?? item.content_text,
+      image: item.image ?? item.banner_image,
+      category: nonEmpty(asArray<string>(item.tags).map((tag): FeedCategory => ({ name: tag }))),
+      author: nonEmpty(parseJsonFeedAuthors(item)),
+      enclosure,
+    });
+  });
+
+  const author = parseJsonFeedAuthors(json)[0];
+
+  return {
+    options: compact({
+      id: "",
+      title: json.title ?? "",
+      link: json.home_page_url,
+      feed: json.feed_url,
+      description: json.description,
+      language: json.language,
+      copyright: "",
+      image: json.icon,
+      favicon: json.favicon,
+      author,
+      hub: asArray<Node>(json.hubs)[0]?.url,
+    }),
+    items,
+    categories: [],
+    contributors: [],
+    extensions: [],
+  };
+};
+
+const detectAndParse = (body: string): Feed => {
+  const trimmed = body.trim();
+
+  if (trimmed.startsWith("{")) {
+    const json = JSON.parse(trimmed);
+    if (typeof json.version !== "string" || !json.version.includes("jsonfeed.org")) {
+      throw new Error("JSON document is not a JSON Feed");
+    }
+    return parseJsonFeed(json);
+  }
+
+  const document = xmlParser.parse(trimmed) as Node;
+
+  if (document.rss) {
+    return parseRss2(document.rss);
+  }
+  if (document.RDF) {
+    return parseRdf(document.RDF);
+  }
+  if (document.feed) {
+    return parseAtom(document.feed);
+  }
+
+  throw new Error("Document is not an RSS, RDF, Atom or JSON feed");
+};
+
+// Normalises RSS 2.0, RSS 1.0 (RDF), Atom 1.0 and JSON Feed documents into our Feed schema
+export const parseFeed = (body: string, feedId: string) =>
+  Effect.try({
+    try: () => {
+      const parsed = detectAndParse(body);
+      const options: FeedOptions = { ...parsed.options, id: feedId };
+      return Feed.parse({ ...parsed, options });
+    },
+    catch: (error) => new FeedParseError({
+      message: `Failed to parse feed ${feedId}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      cause: error
+    }),
+  });
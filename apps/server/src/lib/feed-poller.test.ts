@@ -0,0 +1,189 @@
+import { afterAll, afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Effect } from "effect";
+import type { FeedSource } from "../schemas/source";
+import { pollDueFeedSources, pollFeedSource } from "./feed-poller";
+import { makeFeed, useMemoryRedis } from "./testing";
+import * as websub from "./websub";
+
+// The hub queues deliveries in Postgres, which these tests don't have. A spy rather than a module
+// mock, which would stay in place for the test files that run after this one.
+const notifyHub = spyOn(websub, "notifyHub").mockImplementation(() => Effect.void);
+
+afterAll(() => {
+  notifyHub.mockRestore();
+});
+
+// A literal public address, so the URL guard passes without DNS and the stub below answers
+const upstreamUrl = "http://93.184.216.34/feed.xml";
+const rss = readFileSync(join(import.meta.dir, "fixtures", "rss2.xml"), "utf8");
+
+type Upstream = { status: number; body?: string; headers?: Record<string, string> };
+
+// Stands in for the upstream server, remembering the conditional headers of each request
+let upstream: Upstream;
+let requests: Headers[];
+let fetchSpy: ReturnType<typeof spyOn>;
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const source = (overrides: Partial<FeedSource> = {}): FeedSource => ({
+  feedId: "podcast",
+  url: upstreamUrl,
+  failureCount: 0,
+  ...overrides,
+});
+
+const minutesFromNow = (iso: string | undefined) => Math.round((new Date(iso!).getTime() - Date.now()) / 60_000);
+
+beforeEach(async () => {
+  notifyHub.mockClear();
+  requests = [];
+  upstream = {
+    status: 200,
+    body: rss,
+    headers: { ETag: "\"v1\"", "Last-Modified": "Tue, 02 Jan 2024 10:00:00 GMT" },
+  };
+  fetchSpy = spyOn(globalThis, "fetch").mockImplementation((async (_url: URL, init?: RequestInit) => {
+    requests.push(new Headers(init?.headers));
+    return new Response(upstream.body ?? null, { status: upstream.status, headers: upstream.headers });
+  }) as typeof fetch);
+
+  await run(store.redis.addFeed(makeFeed("podcast", [], { title: "Podcast", ttl: 15 })));
+});
+
+afterEach(() => {
+  fetchSpy.mockRestore();
+});
+
+describe("pollFeedSource", () => {
+  test("stores new items and the upstream's validators, then waits out the feed's ttl", async () => {
+    const added = await run(pollFeedSource(source()));
+
+    expect(added).toBe(2);
+    expect(notifyHub).toHaveBeenCalledWith("podcast");
+    const items = await run(store.redis.getFeedItems("podcast"));
+    expect(items.map((item) => item.guid ?? item.link).sort()).toEqual(["episode-2", "https://podcast.example.com/1"]);
+
+    const stored = await run(store.redis.getFeedSource("podcast"));
+    expect(stored).toMatchObject({
+      etag: "\"v1\"",
+      lastModified: "Tue, 02 Jan 2024 10:00:00 GMT",
+      failureCount: 0,
+    });
+    expect(minutesFromNow(stored?.nextFetchAt)).toBe(15);
+  });
+
+  test("sends the stored validators and leaves the feed alone on 304", async () => {
+    await run(pollFeedSource(source()));
+    const first = await run(store.redis.getFeedSource("podcast"));
+    notifyHub.mockClear();
+    upstream = { status: 304 };
+
+    const added = await run(pollFeedSource(first!));
+
+    expect(requests[1]!.get("If-None-Match")).toBe("\"v1\"");
+    expect(requests[1]!.get("If-Modified-Since")).toBe("Tue, 02 Jan 2024 10:00:00 GMT");
+    expect(added).toBe(0);
+    expect(notifyHub).not.toHaveBeenCalled();
+    expect(await run(store.redis.getFeedItems("podcast"))).toHaveLength(2);
+    // Validators carry over from the last full response
+    expect(await run(store.redis.getFeedSource("podcast"))).toMatchObject({ etag: "\"v1\"", failureCount: 0 });
+  });
+
+  test("merges only the items it hasn't seen, keeping ones added separately", async () => {
+    await run(store.redis.addFeedItem("podcast", {
+      id: crypto.randomUUID(),
+      title: "Curated",
+      link: "https://curator.example.com/pick",
+      date: "2024-01-01T00:00:00.000Z",
+    }));
+    await run(pollFeedSource(source()));
+
+    upstream.body = rss.replace(
+      "<item>",
+      "<item><title>Episode 3</title><link>https://podcast.example.com/3</link><guid>episode-3</guid></item><item>"
+    );
+    upstream.headers = { ETag: "\"v2\"" };
+    const added = await run(pollFeedSource((await run(store.redis.getFeedSource("podcast")))!));
+
+    expect(added).toBe(1);
+    const titles = (await run(store.redis.getFeedItems("podcast"))).map((item) => item.title).sort();
+    expect(titles).toEqual(["Curated", "Episode 1", "Episode 2 & more", "Episode 3"]);
+    expect((await run(store.redis.getFeedSource("podcast")))?.etag).toBe("\"v2\"");
+  });
+
+  test("backs off exponentially on failures and records the error", async () => {
+    upstream = { status: 503 };
+
+    await run(pollFeedSource(source()));
+    const first = await run(store.redis.getFeedSource("podcast"));
+    expect(first).toMatchObject({ failureCount: 1, lastError: `Upstream responded with 503 for ${upstreamUrl}` });
+    expect(minutesFromNow(first?.nextFetchAt)).toBe(10);
+
+    await run(pollFeedSource(first!));
+    const second = await run(store.redis.getFeedSource("podcast"));
+    expect(second?.failureCount).toBe(2);
+    expect(minutesFromNow(second?.nextFetchAt)).toBe(20);
+  });
+
+  test("caps the backoff at a day", async () => {
+    upstream = { status: 500 };
+
+    await run(pollFeedSource(source({ failureCount: 30 })));
+
+    expect(minutesFromNow((await run(store.redis.getFeedSource("podcast")))?.nextFetchAt)).toBe(24 * 60);
+  });
+
+  test("treats a document that isn't a feed as a failure", async () => {
+    upstream = { status: 200, body: "<html><body>Moved</body></html>" };
+
+    const added = await run(pollFeedSource(source()));
+
+    expect(added).toBe(0);
+    expect(await run(store.redis.getFeedSource("podcast"))).toMatchObject({ failureCount: 1 });
+    expect(await run(store.redis.getFeedItems("podcast"))).toHaveLength(0);
+  });
+
+  test("a success resets the failure count", async () => {
+    await run(pollFeedSource(source({ failureCount: 3, lastError: "Upstream responded with 500" })));
+
+    const stored = await run(store.redis.getFeedSource("podcast"));
+    expect(stored?.failureCount).toBe(0);
+    expect(stored?.lastError).toBeUndefined();
+  });
+});
+
+describe("pollDueFeedSources", () => {
+  test("polls only the sources whose next fetch is due", async () => {
+    await run(store.redis.setFeedSource(source({ nextFetchAt: new Date(Date.now() + 60_000).toISOString() })));
+
+    await run(pollDueFeedSources);
+    expect(requests).toHaveLength(0);
+
+    await run(store.redis.setFeedSource(source({ nextFetchAt: new Date(Date.now() - 1_000).toISOString() })));
+    await run(pollDueFeedSources);
+    expect(requests).toHaveLength(1);
+  });
+
+  test("an upstream that never answers is given up on instead of holding up the tick", async () => {
+    process.env.FEED_FETCH_TIMEOUT_SECONDS = "0.2";
+    fetchSpy.mockImplementation(((_url: URL, init?: RequestInit) => new Promise((_, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+    })) as typeof fetch);
+
+    try {
+      await run(store.redis.setFeedSource(source({ nextFetchAt: new Date(Date.now() - 1_000).toISOString() })));
+      await run(pollDueFeedSources);
+    } finally {
+      delete process.env.FEED_FETCH_TIMEOUT_SECONDS;
+    }
+
+    expect(await run(store.redis.getFeedSource("podcast"))).toMatchObject({
+      failureCount: 1,
+      lastError: `Timed out fetching feed ${upstreamUrl}`,
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Duration, Effect, Layer, Schedule } from "effect";
+import type { FeedItem } from "../schemas/feed";
+import type { FeedSource } from "../schemas/source";
+import { fetchFeedDocumentIfModified } from "./feed-fetcher";
+import { parseFeed } from "./feed-parser";
+import { dedupKey } from "./item-identity";
+import { RedisService } from "./redis";
+import { notifyHub } from "./websub";
+
+const POLL_TICK = Duration.seconds(Number(process.env.FEED_POLL_TICK_SECONDS) || 60);
+const DEFAULT_POLL_INTERVAL = Duration.minutes(Number(process.env.FEED_POLL_INTERVAL_MINUTES) || 60);
+const RETRY_BASE = Duration.minutes(5);
+const MAX_BACKOFF = Duration.hours(24);
+const POLL_CONCURRENCY = 4;
+
+// Upstream documents repeat their items on every fetch, so they're matched whatever the
+// feed's dedup strategy: by guid, or by canonical link when there is none
+const itemIdentity = (item: FeedItem) => dedupKey(item, "guid");
+
+const addMillis = (date: Date, duration: Duration.Duration) =>
+  new Date(date.getTime() + Duration.toMillis(duration)).toISOString();
+
+export const pollFeedSource = (source: FeedSource) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    const now = new Date();
+
+    const storedFeed = yield* redis.getFeed(source.feedId);
+    // FeedOptions.ttl is expressed in minutes, as in RSS 2.0
+    const interval = storedFeed?.options.ttl
+      ? Duration.minutes(storedFeed.options.ttl)
+      : DEFAULT_POLL_INTERVAL;
+
+    const document = yield* fetchFeedDocumentIfModified(source.url, source);
+
+    let newItemCount = 0;
+
+    if (document) {
+      const upstream = yield* parseFeed(document.body, source.feedId);
+      const existingItems = yield* redis.getFeedItems(source.feedId);
+      const knownItems = new Set(existingItems.map(itemIdentity));
+
+      // Upstream documents list newest first; insert oldest first so the newest ends up on top
+      const newItems = upstream.items
+        .filter((item) => {
+          const identity = itemIdentity(item);
+          return !identity || !knownItems.has(identity);
+        })
+        .reverse();
+
+      for (const item of newItems) {
+        const added = yield* redis.addFeedItem(source.feedId, { ...item, id: crypto.randomUUID() });
+        if (!added.duplicate) {
+          newItemCount++;
+        }
+      }
+
+      if (newItemCount > 0) {
+        yield* notifyHub(source.feedId);
+      }
+    }
+
+    yield* redis.setFeedSource({
+      ...source,
+      etag: document ? document.etag : source.etag,
+      lastModified: document ? document.lastModified : source.lastModified,
+      lastFetchedAt: now.toISOString(),
+      nextFetchAt: addMillis(now, interval),
+      failureCount: 0,
+      lastError: undefined,
+    });
+
+    return newItemCount;
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.gen(function* () {
+        const redis = yield* RedisService;
+        const now = new Date();
+        const failureCount = source.failureCount + 1;
+        // Exponential backoff per feed: 10m, 20m, 40m... capped at a day
+        const backoff = Duration.min(
+          Duration.times(RETRY_BASE, 2 ** Math.min(failureCount, 16)),
+          MAX_BACKOFF
+        );
+
+        yield* Effect.logWarning(`Polling feed ${source.feedId} failed: ${error.message}`);
+
+        yield* redis.setFeedSource({
+          ...source,
+          lastFetchedAt: now.toISOString(),
+          nextFetchAt: addMillis(now, backoff),
+          failureCount,
+          lastError: error.message,
+        }).pipe(Effect.ignoreLogged);
+
+        return 0;
+      })
+    )
+  );
+
+export const pollDueFeedSources = Effect.gen(function* () {
+  const redis = yield* RedisService;
+  const now = Date.now();
+
+  const sources = yield* redis.getFeedSources();
+  const dueSources = sources.filter(
+    (source) => !source.nextFetchAt || new Date(source.nextFetchAt).getTime() <= now
+  );
+
+  yield* Effect.forEach(dueSources, pollFeedSource, {
+    concurrency: POLL_CONCURRENCY,
+    discard: true,
+  });
+});
+
+// Background fiber scoped to the runtime: re-checks sources every tick until the runtime is disposed
+export const FeedPollerLive = Layer.scopedDiscard(
+  pollDueFeedSources.pipe(
+    Effect.catchAll((error) => Effect.logError(`Feed polling failed: ${error.message}`)),
+    Effect.repeat(Schedule.spaced(POLL_TICK)),
+    Effect.forkScoped
+  )
+);
@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import type { Feed } from "../schemas/feed";
+import { parseFeed } from "./feed-parser";
+import { getFeedLinks, getHubUrl, renderFeed } from "./feed-renderer";
+
+const baseUrl = "https://rss.example.com";
+
+const feed: Feed = {
+  options: {
+    id: "news",
+    title: "News & Notes",
+    description: "What happened",
+    link: "https://news.example.com",
+    copyright: "All rights reserved",
+    language: "en",
+    ttl: 60,
+    updated: "2024-01-02T00:00:00.000Z",
+    // Upstream self link, which must not leak into the served documents
+    feed: "https://upstream.example.com/rss.xml",
+  },
+  items: [
+    {
+      id: "3f1c8f0e-0000-4000-8000-000000000001",
+      title: "Episode <1>",
+      link: "https://news.example.com/1",
+      guid: "https://news.example.com/1",
+      date: "2024-01-02T00:00:00.000Z",
+      description: "<p>First</p>",
+      content: "<p>First episode</p>",
+      category: [{ name: "Podcasts", term: "podcasts" }, { name: "Audio" }],
+      author: [{ name: "Jane Doe", email: "jane@example.com" }],
+      enclosure: { url: "https://cdn.example.com/1.mp3", type: "audio/mpeg", length: 1234 },
+    },
+    {
+      id: "3f1c8f0e-0000-4000-8000-000000000002",
+      title: "Plain",
+      link: "https://news.example.com/2",
+      date: "2024-01-01T00:00:00.000Z",
+    },
+  ],
+  categories: ["news"],
+  contributors: [],
+  extensions: [],
+};
+
+const links = getFeedLinks(baseUrl, "news");
+
+describe("renderFeed", () => {
+  test("rss advertises the hub and its own URL, and carries item metadata", () => {
+    const rss = renderFeed(feed, "rss", baseUrl);
+
+    expect(rss).toStartWith("<?xml");
+    expect(rss).toContain("<rss version=\"2.0\"");
+    expect(rss).toContain(`<atom:link href="${getHubUrl(baseUrl)}" rel="hub"`);
+    expect(rss).toContain(`<atom:link href="${links.rss}" rel="self"`);
+    expect(rss).not.toContain("upstream.example.com");
+    expect(rss).toContain("<ttl>60</ttl>");
+    expect(rss).toContain("<enclosure length=\"1234\" type=\"audio/mpeg\" url=\"https://cdn.example.com/1.mp3\"/>");
+    expect(rss).toContain("jane@example.com (Jane Doe)");
+    expect(rss).toContain("<category>Podcasts</category>");
+    // Titles are wrapped in CDATA rather than read as markup
+    expect(rss).toContain("<title><![CDATA[Episode <1>]]></title>");
+  });
+
+  test("atom uses IRIs for entry ids and links the hub and itself", () => {
+    const atom = renderFeed(feed, "atom", baseUrl);
+
+    expect(atom).toContain("<feed xmlns=\"http://www.w3.org/2005/Atom\"");
+    expect(atom).toContain(`<id>${baseUrl}/feeds/news</id>`);
+    expect(atom).toContain(`<link rel="hub" href="${getHubUrl(baseUrl)}"/>`);
+    expect(atom).toContain(`<link rel="self" href="${links.atom}"/>`);
+    expect(atom).toContain("<id>https://news.example.com/1</id>");
+    // The second item has only a UUID, which is not an IRI, so its link stands in
+    expect(atom).toContain("<id>https://news.example.com/2</id>");
+    expect(atom).not.toContain("<id>3f1c8f0e");
+    expect(atom).toContain("term=\"podcasts\"");
+    // Categories with only a name still get the term Atom requires
+    expect(atom).toContain("term=\"Audio\"");
+  });
+
+  test("json is a version 1 JSON Feed pointing at itself and the hub", () => {
+    const json = JSON.parse(renderFeed(feed, "json", baseUrl));
+
+    expect(json.version).toBe("https://jsonfeed.org/version/1");
+    expect(json.title).toBe("News & Notes");
+    expect(json.feed_url).toBe(links.json);
+    expect(json.hubs).toEqual([{ type: "WebSub", url: getHubUrl(baseUrl) }]);
+    expect(json.items).toHaveLength(2);
+    expect(json.items[0].url).toBe("https://news.example.com/1");
+    expect(json.items[0].tags).toEqual(["Podcasts", "Audio"]);
+    expect(json.items[0].attachments).toEqual([
+      { url: "https://cdn.example.com/1.mp3", mime_type: "audio/mpeg", size_in_bytes: 1234 },
+    ]);
+    expect(json.items[1].attachments).toBeUndefined();
+  });
+
+  test("prefers sanitised content over the stored HTML", () => {
+    const sanitized: Feed = {
+      ...feed,
+      items: [{
+        ...feed.items[0]!,
+        content: "<p>raw<script>alert(1)</script></p>",
+        sanitized: { content: "<p>clean</p>", excerpt: "clean" },
+      }],
+    };
+
+    const rss = renderFeed(sanitized, "rss", baseUrl);
+    expect(rss).toContain("<p>clean</p>");
+    expect(rss).not.toContain("alert(1)");
+  });
+
+  test.each(["rss", "atom", "json"] as const)("%s documents parse back into the same items", (format) => {
+    const parsed = Effect.runSync(parseFeed(renderFeed(feed, format, baseUrl), "news"));
+
+    expect(parsed.options.title).toBe("News & Notes");
+    expect(parsed.items.map((item) => item.link)).toEqual(["https://news.example.com/1", "https://news.example.com/2"]);
+    expect(parsed.items[0]!.title).toBe("Episode <1>");
+    expect(parsed.items[0]!.date).toBe("2024-01-02T00:00:00.000Z");
+    expect(parsed.items[0]!.enclosure?.url).toBe("https://cdn.example.com/1.mp3");
+    expect(parsed.options.hub).toBe(getHubUrl(baseUrl));
+  });
+
+  test.each(["rss", "atom", "json"] as const)("%s renders items whose dates don't parse", (format) => {
+    const undated: Feed = {
+      ...feed,
+      options: { ...feed.options, updated: "sometime" },
+      items: [
+        { ...feed.items[0]!, date: "last Tuesday", published: "2024-01-01T08:00:00.000Z" },
+        { ...feed.items[1]!, date: "yesterday", published: "soon" },
+      ],
+    };
+
+    const parsed = Effect.runSync(parseFeed(renderFeed(undated, format, baseUrl), "news"));
+
+    expect(parsed.items.map((item) => item.link)).toEqual(["https://news.example.com/1", "https://news.example.com/2"]);
+    // A valid published date stands in for the item date, otherwise it is the epoch
+    expect(parsed.items[0]!.date).toBe("2024-01-01T08:00:00.000Z");
+    expect(parsed.items[1]!.date).toBe("1970-01-01T00:00:00.000Z");
+  });
+});
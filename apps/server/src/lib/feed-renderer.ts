@@ -0,0 +1,115 @@
+import { Feed as FeedBuilder, type Item } from "feed";
+import type { Feed, FeedItem } from "../schemas/feed";
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export const feedContentTypes: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+// Served document names, as they appear in /feeds/:feedId/:document
+export const feedDocuments: Record<string, FeedFormat> = {
+  "rss.xml": "rss",
+  "atom.xml": "atom",
+  "feed.json": "json",
+};
+
+// This server is the WebSub hub for every feed it renders
+export const getHubUrl = (baseUrl: string) => `${baseUrl}/websub`;
+
+export const getFeedLinks = (baseUrl: string, feedId: string) => {
+  const feedUrl = `${baseUrl}/feeds/${encodeURIComponent(feedId)}`;
+  return {
+    rss: `${feedUrl}/rss.xml`,
+    atom: `${feedUrl}/atom.xml`,
+    json: `${feedUrl}/feed.json`,
+  };
+};
+
+const isIri = (value: string | undefined): value is string =>
+  !!value && /^[a-z][a-z0-9+.-]*:/i.test(value);
+
+// Item dates are free-form strings. One that doesn't parse would make the Atom and JSON
+// renderers throw, so it is dropped, or for the required date taken as the epoch, which is
+// also where the date index sorts it.
+const parseDate = (value: string | undefined) => {
+  const date = value ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+};
+
+const toItem = (item: FeedItem): Item => ({
+  title: item.title,
+  // Atom entry ids must be IRIs, our internal item ids are plain UUIDs
+  id: isIri(item.guid) ? item.guid : item.link,
+  guid: item.guid || item.id,
+  link: item.link,
+  date: parseDate(item.date) ?? parseDate(item.published) ?? new Date(0),
+  published: parseDate(item.published),
+  description: item.sanitized?.description ?? item.description,
+  content: item.sanitized?.content ?? item.content,
+  copyright: item.copyright,
+  // Atom categories require a term, RSS reads the name
+  category: item.category?.map((category) => ({
+    ...category,
+    term: category.term || category.name,
+  })),
+  author: item.author,
+  contributor: item.contributor,
+  image: item.image,
+  audio: item.audio,
+  video: item.video,
+  enclosure: item.enclosure,
+  extensions: item.extensions,
+});
+
+// The feed package leaves out JSON Feed's hubs and attachments, so they are added here
+const renderJsonFeed = (document: string, items: FeedItem[], hub: string) => {
+  const json = JSON.parse(document);
+  json.hubs = [{ type: "WebSub", url: hub }];
+  json.items.forEach((entry: Record<string, unknown>, index: number) => {
+    const enclosure = items[index]?.enclosure;
+    if (enclosure) {
+      entry.attachments = [{
+        url: enclosure.url,
+        mime_type: enclosure.type || "application/octet-stream",
+        title: enclosure.title,
+        size_in_bytes: enclosure.length,
+        duration_in_seconds: enclosure.duration,
+      }];
+    }
+  });
+  return JSON.stringify(json, null, 4);
+};
+
+export function renderFeed(feed: Feed, format: FeedFormat, baseUrl: string): string {
+  const { options, items } = feed;
+  const feedLinks = getFeedLinks(baseUrl, options.id);
+
+  const builder = new FeedBuilder({
+    ...options,
+    // Self links must point at the document being served, not at an upstream copy
+    id: `${baseUrl}/feeds/${encodeURIComponent(options.id)}`,
+    feed: undefined,
+    feedLinks: { ...options.feedLinks, ...feedLinks },
+    hub: getHubUrl(baseUrl),
+    link: options.link || baseUrl,
+    description: options.description || options.title,
+    updated: parseDate(options.updated) ?? parseDate(items[0]?.date) ?? new Date(),
+  });
+
+  feed.categories.forEach((category) => builder.addCategory(category));
+  feed.contributors.forEach((contributor) => builder.addContributor(contributor));
+  feed.extensions.forEach((extension) => builder.addExtension(extension));
+  items.forEach((item) => builder.addItem(toItem(item)));
+
+  switch (format) {
+    case "rss":
+      return builder.rss2();
+    case "atom":
+      return builder.atom1();
+    case "json":
+      return renderJsonFeed(builder.json1(), items, getHubUrl(baseUrl));
+  }
+}
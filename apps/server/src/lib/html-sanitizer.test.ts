@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import { excerpt, sanitizeHtml, sanitizeItemContent } from "./html-sanitizer";
+
+const base = "https://example.com/posts/1";
+
+// Anything a browser would run or load from these strings counts as a hole in the sanitiser
+const expectInert = (html: string) => {
+  expect(html).not.toMatch(/<script|<iframe|<object|<embed|<svg|<style/i);
+  expect(html).not.toMatch(/\son\w+\s*=/i);
+  expect(html).not.toMatch(/javascript:/i);
+};
+
+describe("sanitizeHtml", () => {
+  test("keeps allowed markup", () => {
+    expect(sanitizeHtml("<p>Hello <strong>world</strong></p>", base)).toBe("<p>Hello <strong>world</strong></p>");
+  });
+
+  test.each([
+    ["script", "<p>a</p><script>alert(1)</script>"],
+    ["style", "<style>body{display:none}</style><p>a</p>"],
+    ["iframe", "<iframe src=\"https://evil.example\"></iframe><p>a</p>"],
+    ["svg", "<svg><script>alert(1)</script></svg><p>a</p>"],
+    ["math", "<math><mtext><img src=x onerror=alert(1)></mtext></math><p>a</p>"],
+    ["form", "<form action=\"https://evil.example\"><input name=q></form><p>a</p>"],
+  ])("drops %s with its content", (_, html) => {
+    const sanitized = sanitizeHtml(html, base);
+    expectInert(sanitized);
+    expect(sanitized).toContain("<p>a</p>");
+  });
+
+  // Their content is raw text to the parser; unwrapped, it would turn back into markup
+  test.each([
+    ["xmp", "<xmp><img src=x onerror=alert(1)></xmp>ok"],
+    ["XMP", "<XMP><script>alert(1)</script></XMP>ok"],
+    ["noembed", "<noembed><img src=x onerror=alert(1)></noembed>ok"],
+    ["noframes", "<noframes><script>alert(1)</script></noframes>ok"],
+    ["listing", "<listing><img src=x onerror=alert(1)></listing>ok"],
+    ["textarea", "<textarea><img src=x onerror=alert(1)></textarea>ok"],
+    ["title", "<title><img src=x onerror=alert(1)></title>ok"],
+    ["noscript", "<noscript><img src=x onerror=alert(1)></noscript>ok"],
+    ["nested in an unknown tag", "<custom-el><xmp><script>alert(1)</script></xmp></custom-el>ok"],
+  ])("drops raw-text element %s", (_, html) => {
+    const sanitized = sanitizeHtml(html, base);
+    expectInert(sanitized);
+    expect(sanitized).not.toContain("<img");
+    expect(sanitized).toBe("ok");
+  });
+
+  test("drops everything after plaintext", () => {
+    const sanitized = sanitizeHtml("ok<plaintext><img src=x onerror=alert(1)>", base);
+    expect(sanitized).toBe("ok");
+  });
+
+  test("strips event handlers and inline styles", () => {
+    const sanitized = sanitizeHtml(
+      "<p onclick=\"alert(1)\" style=\"color:red\" title=\"t\">a</p><img src=\"/a.png\" onerror=\"alert(1)\">",
+      base
+    );
+    expectInert(sanitized);
+    expect(sanitized).toBe("<p title=\"t\">a</p><img src=\"https://example.com/a.png\">");
+  });
+
+  test.each([
+    "javascript:alert(1)",
+    "JaVaScRiPt:alert(1)",
+    " javascript:alert(1)",
+    "data:text/html,<script>alert(1)</script>",
+    "vbscript:msgbox(1)",
+  ])("drops the unsafe link %s", (href) => {
+    const sanitized = sanitizeHtml(`<a href="${href}">x</a>`, base);
+    expectInert(sanitized);
+    expect(sanitized).toBe("<a>x</a>");
+  });
+
+  test("resolves relative URLs and marks links nofollow", () => {
+    expect(sanitizeHtml("<a href=\"../about\">About</a>", base)).toBe(
+      "<a href=\"https://example.com/about\" rel=\"nofollow noopener noreferrer\">About</a>"
+    );
+  });
+
+  test("keeps mail links but not mail images", () => {
+    expect(sanitizeHtml("<a href=\"mailto:me@example.com\">me</a>", base)).toContain("href=\"mailto:me@example.com\"");
+    expect(sanitizeHtml("<img src=\"mailto:me@example.com\">", base)).toBe("");
+  });
+
+  test("drops relative URLs when there is no base to resolve them by", () => {
+    expect(sanitizeHtml("<a href=\"/about\">About</a><img src=\"/a.png\">")).toBe("<a>About</a>");
+  });
+
+  test("resolves each srcset candidate and drops unsafe ones", () => {
+    expect(sanitizeHtml("<img srcset=\"a.png 1x, javascript:alert(1) 2x\">", base)).toBe(
+      "<img srcset=\"https://example.com/posts/a.png 1x\">"
+    );
+  });
+
+  test("removes comments", () => {
+    expect(sanitizeHtml("a<!-- <script>alert(1)</script> -->b", base)).toBe("ab");
+  });
+});
+
+describe("excerpt", () => {
+  test("cuts plain text at a word boundary", () => {
+    const text = excerpt(`<p>${"word ".repeat(100)}</p>`, 30);
+    expect(text.endsWith("…")).toBe(true);
+    expect(text.length).toBeLessThanOrEqual(31);
+    expect(text).not.toContain("<");
+  });
+});
+
+describe("sanitizeItemContent", () => {
+  test("sanitises content and description against the item link", () => {
+    const sanitized = sanitizeItemContent({
+      title: "Post",
+      link: base,
+      date: "2024-01-01T00:00:00.000Z",
+      description: "<p>Short <xmp><script>alert(1)</script></xmp></p>",
+      content: "<img src=\"cover.png\" onerror=\"alert(1)\">",
+      image: "/cover.png",
+    });
+
+    expect(sanitized.description).toBe("<p>Short </p>");
+    expect(sanitized.content).toBe("<img src=\"https://example.com/posts/cover.png\">");
+    expect(sanitized.excerpt).toBe("Short");
+    expect(sanitized.image).toBe("https://example.com/cover.png");
+  });
+});
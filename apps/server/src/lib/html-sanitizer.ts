@@ -0,0 +1,147 @@
+import type { FeedItem, SanitizedContent } from "../schemas/feed";
+import { stripHtml } from "./search-index";
+
+const EXCERPT_LENGTH = 280;
+
+// Removed along with everything inside them. This has to include every element whose content
+// the parser reads as raw text (xmp, plaintext and the like): unwrapped, that text would be
+// markup again once the output is parsed.
+const droppedTags = new Set([
+  "script", "style", "noscript", "template", "iframe", "frame", "frameset", "object", "embed",
+  "applet", "form", "input", "button", "textarea", "select", "option", "link", "meta", "base",
+  "svg", "math", "title", "head", "xmp", "noembed", "noframes", "plaintext", "listing",
+]);
+
+// Attributes kept per tag; any other tag is unwrapped and only its content kept
+const allowedTags: Record<string, string[]> = {
+  a: ["href", "name"],
+  abbr: [], b: [], br: [], caption: [], cite: [], code: [], dd: [], details: [], dfn: [],
+  div: [], dl: [], dt: [], em: [], figcaption: [], figure: [], hr: [], i: [], kbd: [], li: ["value"],
+  mark: [], p: [], picture: [], pre: [], s: [], samp: [], small: [], span: [], strong: [], sub: [],
+  summary: [], sup: [], u: [], ul: [], tbody: [], thead: [], tfoot: [], tr: [], table: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  blockquote: ["cite"], q: ["cite"], ins: ["cite", "datetime"], del: ["cite", "datetime"],
+  ol: ["start", "reversed", "type"],
+  td: ["colspan", "rowspan", "headers"], th: ["colspan", "rowspan", "headers", "scope"],
+  time: ["datetime"],
+  img: ["src", "srcset", "alt", "width", "height"],
+  source: ["src", "srcset", "type", "media", "sizes"],
+  audio: ["src", "controls", "loop", "muted"],
+  video: ["src", "poster", "controls", "loop", "muted", "width", "height"],
+  track: ["src", "kind", "srclang", "label"],
+};
+
+const globalAttributes = ["title", "lang", "dir"];
+const urlAttributes = new Set(["href", "src", "cite", "poster"]);
+
+// Resolves against the item's link and keeps only web and mail links; null drops the attribute
+const resolveUrl = (value: string, baseUrl: string | undefined, allowMail: boolean) => {
+  let url: URL;
+  try {
+    url = new URL(value.trim(), baseUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol === "http:" || url.protocol === "https:" || (allowMail && url.protocol === "mailto:")) {
+    return url.toString();
+  }
+  return null;
+};
+
+// "a.png 1x, b.png 2x" with each candidate resolved, or null when none survive
+const resolveSrcset = (value: string, baseUrl: string | undefined) => {
+  const candidates = value.split(",").flatMap((candidate) => {
+    const [url, ...descriptors] = candidate.trim().split(/\s+/);
+    const resolved = url ? resolveUrl(url, baseUrl, false) : null;
+    return resolved ? [[resolved, ...descriptors].join(" ")] : [];
+  });
+  return candidates.length > 0 ? candidates.join(", ") : null;
+};
+
+const isBaseUrl = (link: string) => resolveUrl(link, undefined, false) !== null;
+
+// Allowlist sanitiser: no scripts, styles, embeds, event handlers or inline CSS, and every URL
+// made absolute against `baseUrl`. Relative URLs are dropped when there is nothing to resolve them by.
+export const sanitizeHtml = (html: string, baseUrl?: string) => {
+  const base = baseUrl && isBaseUrl(baseUrl) ? baseUrl : undefined;
+
+  return new HTMLRewriter()
+    .on("*", {
+      element(element) {
+        const tag = element.tagName.toLowerCase();
+        if (droppedTags.has(tag)) {
+          element.remove();
+          return;
+        }
+
+        const allowed = allowedTags[tag];
+        if (!allowed) {
+          element.removeAndKeepContent();
+          return;
+        }
+
+        for (const [name, value] of [...element.attributes]) {
+          if (!allowed.includes(name) && !globalAttributes.includes(name)) {
+            element.removeAttribute(name);
+            continue;
+          }
+
+          const rewritten = name === "srcset"
+            ? resolveSrcset(value, base)
+            : urlAttributes.has(name) ? resolveUrl(value, base, tag === "a") : value;
+          if (rewritten === null) {
+            element.removeAttribute(name);
+          } else if (rewritten !== value) {
+            element.setAttribute(name, rewritten);
+          }
+        }
+
+        if (tag === "img" && !element.getAttribute("src") && !element.getAttribute("srcset")) {
+          element.remove();
+          return;
+        }
+        if (tag === "a" && element.getAttribute("href")) {
+          element.setAttribute("rel", "nofollow noopener noreferrer");
+        }
+      },
+    })
+    // Element handlers only see comments inside an element; this also catches top-level ones
+    .onDocument({
+      comments(comment) {
+        comment.remove();
+      },
+    })
+    .transform(html);
+};
+
+const decodeNumericEntities = (text: string) =>
+  text.replace(/&#(x[0-9a-f]+|\d+);/gi, (entity, code: string) => {
+    const point = code[0] === "x" || code[0] === "X" ? parseInt(code.slice(1), 16) : Number(code);
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+
+// Plain text cut at a word boundary
+export const excerpt = (html: string, length = EXCERPT_LENGTH) => {
+  const text = decodeNumericEntities(stripHtml(html));
+  if (text.length <= length) {
+    return text;
+  }
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, "")}…`;
+};
+
+// Safe-to-render copies of the item's HTML, kept next to the raw fields which are never modified
+export const sanitizeItemContent = (item: FeedItem): SanitizedContent => {
+  const content = item.content ? sanitizeHtml(item.content, item.link) : undefined;
+  const description = item.description ? sanitizeHtml(item.description, item.link) : undefined;
+  const imageUrl = typeof item.image === "string" ? item.image : item.image?.url;
+  const image = imageUrl ? resolveUrl(imageUrl, isBaseUrl(item.link) ? item.link : undefined, false) : null;
+
+  return {
+    content,
+    description,
+    excerpt: excerpt(description || content || ""),
+    ...(image ? { image } : {}),
+  };
+};
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { FeedItem } from "../schemas/feed";
+import type { ItemFilter } from "../schemas/filter";
+import type { Principal } from "./api-keys";
+import { filterItems } from "./item-filter";
+import { makeFeed, makeItem, useMemoryRedis } from "./testing";
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const reader: Principal = { type: "session", userId: "reader" };
+
+const item = (n: number, fields: Partial<FeedItem> = {}) => makeItem(n, { id: `item-${n}`, ...fields });
+
+const filter = (criteria: ItemFilter, { cursor, limit = 10 }: { cursor?: string; limit?: number } = {}) =>
+  run(filterItems(criteria, { principal: reader, cursor, limit }));
+
+const refs = (page: { items: Array<{ feedId: string; item: FeedItem }> }) =>
+  page.items.map(({ feedId, item }) => `${feedId}/${item.id}`);
+
+// Every page from the start, following the cursor
+const drain = async (criteria: ItemFilter, limit: number) => {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await filter(criteria, { cursor, limit });
+    pages.push(refs(page));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+};
+
+beforeEach(async () => {
+  await run(store.redis.addFeed(makeFeed("news", [
+    item(1, { title: "Rust release notes", category: [{ name: "Programming" }] }),
+    item(2, { title: "Election results", author: [{ name: "Ada" }] }),
+    item(3, { title: "Rust in the kernel", category: [{ name: "programming" }], author: [{ email: "ada@example.com" }] }),
+    item(4, { title: "Weather", enclosure: { url: "https://example.com/4.mp3", type: "audio/mpeg" } }),
+  ])));
+  await run(store.redis.addFeed(makeFeed("podcasts", [
+    item(2, { title: "Episode about Rust", enclosure: { url: "https://example.com/2.mp3", type: "audio/mpeg; codecs=mp3" } }),
+    item(5, { title: "Video episode", video: { url: "https://example.com/5.mp4", type: "video/mp4" } }),
+  ])));
+});
+
+describe("filterItems", () => {
+  test("lists every feed's items newest first", async () => {
+    expect(refs(await filter({}))).toEqual([
+      "podcasts/item-5",
+      "news/item-4",
+      "news/item-3",
+      "news/item-2",
+      "podcasts/item-2",
+      "news/item-1",
+    ]);
+  });
+
+  test.each<[string, ItemFilter, string[]]>([
+    ["feeds", { feedIds: ["podcasts"] }, ["podcasts/item-5", "podcasts/item-2"]],
+    ["categories, by name in any case", { categories: ["PROGRAMMING"] }, ["news/item-3", "news/item-1"]],
+    ["authors, by name or email", { authors: ["ada", "ADA@example.com"] }, ["news/item-3", "news/item-2"]],
+    ["a MIME type, ignoring parameters", { enclosureType: "audio/mpeg" }, ["news/item-4", "podcasts/item-2"]],
+    ["a MIME family", { enclosureType: "video/*" }, ["podcasts/item-5"]],
+    ["a date range", { since: makeItem(2).date, until: makeItem(4).date }, ["news/item-4", "news/item-3", "news/item-2", "podcasts/item-2"]],
+    ["every word of a query", { query: "rust" }, ["news/item-3", "podcasts/item-2", "news/item-1"]],
+    ["a query and other criteria together", { query: "rust", categories: ["programming"], since: makeItem(2).date }, ["news/item-3"]],
+  ])("by %s", async (_, criteria, expected) => {
+    expect(refs(await filter(criteria))).toEqual(expected);
+  });
+
+  test("a query of nothing but stop words matches nothing", async () => {
+    expect(await filter({ query: "the" })).toEqual({ items: [], nextCursor: null, stats: [] });
+  });
+
+  test.each<[string, ItemFilter]>([
+    ["without a query", {}],
+    ["with a query", { query: "rust" }],
+    ["with other criteria", { enclosureType: "audio" }],
+  ])("the cursor walks every match exactly once %s", async (_, criteria) => {
+    const all = refs(await filter(criteria, { limit: 100 }));
+
+    for (const limit of [1, 2, 4]) {
+      const pages = await drain(criteria, limit);
+      expect(pages.flat()).toEqual(all);
+      expect(pages.every((page) => page.length <= limit)).toBe(true);
+    }
+  });
+
+  test("a text query reads only the postings it needs for the page", async () => {
+    await run(store.redis.addFeed(makeFeed("archive", Array.from({ length: 50 }, (_, index) =>
+      item(index + 10, { title: `Rust digest ${index}` })
+    ))));
+
+    const page = await filter({ feedIds: ["archive"], query: "rust" }, { limit: 5 });
+
+    expect(page.items).toHaveLength(5);
+    expect(page.stats).toEqual([{ feedId: "archive", scanned: 6, matched: 6 }]);
+  });
+
+  test("reports what each feed put up and what matched", async () => {
+    const { stats } = await filter({ categories: ["programming"] });
+
+    expect(stats).toEqual([
+      { feedId: "news", scanned: 4, matched: 2 },
+      { feedId: "podcasts", scanned: 2, matched: 0 },
+    ]);
+  });
+
+  describe("anonymous callers", () => {
+    const anonymous = (criteria: ItemFilter) => run(filterItems(criteria, { principal: null, limit: 10 }));
+
+    test("must name feeds or a start date", async () => {
+      await expect(anonymous({})).rejects.toThrow("Pass feedIds or since, or sign in, to filter items");
+      await expect(anonymous({ query: "rust" })).rejects.toThrow("Pass feedIds or since");
+    });
+
+    test("may filter named feeds or from a start date", async () => {
+      expect(refs(await anonymous({ feedIds: ["podcasts"] }))).toEqual(["podcasts/item-5", "podcasts/item-2"]);
+      expect(refs(await anonymous({ since: makeItem(5).date }))).toEqual(["podcasts/item-5"]);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { Data, Effect } from "effect";
+import type { FeedEnclosure, FeedItem } from "../schemas/feed";
+import type { ItemFilter } from "../schemas/filter";
+import type { Principal } from "./api-keys";
+import { type DatedItemBatch, type DatePosition, getFeedIds, getItemsByDate, getMatchingItemsByDate } from "./redis";
+import { matchesCategory } from "./search";
+import { tokenize } from "./search-index";
+
+export class UnboundedFilterError extends Data.TaggedError("UnboundedFilterError")<{
+  message: string;
+}> { }
+
+export type FilteredItem = { feedId: string; item: FeedItem };
+
+// How many stored items each feed put up as candidates, and how many passed the filter
+export type FeedFilterStats = { feedId: string; scanned: number; matched: number };
+
+export type FilteredItemPage = {
+  items: FilteredItem[];
+  nextCursor: string | null;
+  stats: FeedFilterStats[];
+};
+
+type Position = { time: number; feedId: string; itemId: string };
+
+const itemTime = (item: FeedItem) => Date.parse(item.date) || 0;
+
+// Opaque to clients: the position of the last item returned
+const encodeCursor = ({ time, feedId, itemId }: Position) =>
+  Buffer.from(JSON.stringify([time, feedId, itemId])).toString("base64url");
+
+const decodeCursor = (cursor: string): Position | null => {
+  try {
+    const [time, feedId, itemId] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return typeof time === "number" && typeof feedId === "string" && typeof itemId === "string"
+      ? { time, feedId, itemId }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Newest first, then by feed id, then by item id the way the date index breaks ties, so each
+// feed's items come in the order its index lists them
+const comparePositions = (a: Position, b: Position) =>
+  b.time - a.time || (a.feedId < b.feedId ? -1 : a.feedId > b.feedId ? 1 : 0) ||
+  (a.itemId > b.itemId ? -1 : a.itemId < b.itemId ? 1 : 0);
+
+const matchesAuthor = (item: FeedItem, authors: string[]) => {
+  const wanted = new Set(authors.map((author) => author.toLowerCase()));
+  return (item.author ?? []).some((author) =>
+    (author.name && wanted.has(author.name.toLowerCase())) ||
+    (author.email && wanted.has(author.email.toLowerCase()))
+  );
+};
+
+const enclosureTypes = (item: FeedItem) =>
+  [item.enclosure, item.audio, item.video, item.image]
+    .filter((attachment): attachment is FeedEnclosure => typeof attachment === "object" && !!attachment)
+    .flatMap((attachment) => attachment.type ? [attachment.type.split(";")[0]!.trim().toLowerCase()] : []);
+
+const matchesEnclosureType = (item: FeedItem, wanted: string) => {
+  const type = wanted.toLowerCase().replace(/\/\*?$/, "");
+  return enclosureTypes(item).some((candidate) =>
+    type.includes("/") ? candidate === type : candidate.startsWith(`${type}/`)
+  );
+};
+
+type Candidates = { feedId: string; items: FeedItem[]; scanned: number };
+
+// Where a feed's date index is read from: items at the cursor's date come after it only in
+// feeds sorting after the cursor's, or below its item in the cursor's own feed
+const startOf = (feedId: string, until: number, after: Position | null): number | DatePosition => {
+  if (!after || until < after.time || feedId > after.feedId) {
+    return until;
+  }
+  return feedId === after.feedId ? { score: after.time, itemId: after.itemId } : { score: after.time };
+};
+
+const matchesFilter = (item: FeedItem, filter: ItemFilter) =>
+  (!filter.categories?.length || filter.categories.some((category) => matchesCategory(item, category))) &&
+  (!filter.authors?.length || matchesAuthor(item, filter.authors)) &&
+  (!filter.enclosureType || matchesEnclosureType(item, filter.enclosureType));
+
+// The first `wanted` matches of a feed past the cursor, reading its date index a batch at a
+// time. With search terms only the items in their postings are read.
+const scanFeed = (
+  feedId: string,
+  filter: ItemFilter,
+  { terms, since, until, after, wanted }: {
+    terms: string[];
+    since: number;
+    until: number;
+    after: Position | null;
+    wanted: number;
+  }
+) =>
+  Effect.gen(function* () {
+    const items: FeedItem[] = [];
+    let scanned = 0;
+    let to: number | DatePosition | null = startOf(feedId, until, after);
+
+    while (to !== null && items.length < wanted) {
+      const range = { from: since, to, limit: wanted };
+      const batch: DatedItemBatch = terms.length > 0
+        ? yield* getMatchingItemsByDate(feedId, terms, range)
+        : yield* getItemsByDate(feedId, range);
+      scanned += batch.items.length;
+      items.push(...batch.items.filter((item) => matchesFilter(item, filter)));
+      to = batch.next;
+    }
+
+    return { feedId, items: items.slice(0, wanted), scanned } satisfies Candidates;
+  });
+
+// Items across feeds matching every criterion of the filter, newest first. Each feed's date
+// index, or with a text query its search postings in date order, is read from the cursor on
+// until the feed has put up one more match than the page needs, so a page never reads more
+// than its feeds' next few items.
+export const filterItems = (
+  filter: ItemFilter,
+  { principal, cursor, limit }: { principal: Principal | null; cursor?: string; limit: number }
+) =>
+  Effect.gen(function* () {
+    // Anonymous callers name their feeds or a start date rather than scanning the whole directory
+    if (!principal && !filter.feedIds?.length && !filter.since) {
+      return yield* Effect.fail(new UnboundedFilterError({
+        message: "Pass feedIds or since, or sign in, to filter items",
+      }));
+    }
+
+    const after = cursor ? decodeCursor(cursor) : null;
+    const since = filter.since ? Date.parse(filter.since) : -Infinity;
+    const until = Math.min(filter.until ? Date.parse(filter.until) : Infinity, after?.time ?? Infinity);
+
+    const feedIds = filter.feedIds?.length ? filter.feedIds : yield* getFeedIds();
+    const terms = filter.query ? [...new Set(tokenize(filter.query))] : [];
+    if (filter.query && terms.length === 0) {
+      // Nothing but stop words, which are never indexed
+      return { items: [], nextCursor: null, stats: [] } satisfies FilteredItemPage;
+    }
+
+    const candidates: Candidates[] = yield* Effect.forEach(
+      feedIds,
+      (feedId) => scanFeed(feedId, filter, { terms, since, until, after, wanted: limit + 1 }),
+      { concurrency: 8 }
+    );
+
+    const stats: FeedFilterStats[] = [];
+    const matches: Array<FilteredItem & { position: Position }> = [];
+
+    for (const { feedId, items, scanned } of candidates) {
+      let matched = 0;
+      for (const item of items) {
+        const time = itemTime(item);
+        if (time < since || time > until) {
+          continue;
+        }
+        const position = { time, feedId, itemId: item.id ?? "" };
+        if (after && comparePositions(after, position) >= 0) {
+          continue;
+        }
+        matched++;
+        matches.push({ feedId, item, position });
+      }
+      stats.push({ feedId, scanned, matched });
+    }
+
+    matches.sort((a, b) => comparePositions(a.position, b.position));
+    const page = matches.slice(0, limit);
+    const last = matches.length > limit ? page[page.length - 1] : undefined;
+
+    return {
+      items: page.map(({ feedId, item }) => ({ feedId, item })),
+      nextCursor: last ? encodeCursor(last.position) : null,
+      stats,
+    } satisfies FilteredItemPage;
+  });
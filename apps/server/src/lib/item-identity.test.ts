@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import type { FeedItem } from "../schemas/feed";
+import { canonicalLink, contentHash, dedupKey, itemDedupKeys } from "./item-identity";
+
+const item = (fields: Partial<FeedItem> = {}): FeedItem => ({
+  title: "Post",
+  link: "https://example.com/post",
+  date: "2024-01-01T00:00:00.000Z",
+  ...fields,
+});
+
+describe("canonicalLink", () => {
+  test.each([
+    ["https://Example.com/post/?utm_source=x&utm_medium=y", "https://example.com/post"],
+    ["https://example.com/post#comments", "https://example.com/post"],
+    ["https://example.com:443/post?fbclid=abc&ref=home", "https://example.com/post"],
+    ["https://example.com/post?b=2&a=1&gclid=z", "https://example.com/post?a=1&b=2"],
+    ["  https://example.com/post///  ", "https://example.com/post"],
+  ])("%s becomes %s", (link, canonical) => {
+    expect(canonicalLink(link)).toBe(canonical);
+  });
+
+  test("keeps parameters that pick the content", () => {
+    expect(canonicalLink("https://example.com/watch?v=abc")).toBe("https://example.com/watch?v=abc");
+  });
+
+  test("leaves what isn't a URL as it is, trimmed", () => {
+    expect(canonicalLink(" not a url ")).toBe("not a url");
+  });
+});
+
+describe("contentHash", () => {
+  test("ignores markup, case and whitespace", () => {
+    expect(contentHash(item({ content: "<p>Hello   <b>World</b></p>" }))).toBe(
+      contentHash(item({ title: "POST", link: "https://elsewhere.example.com", content: "hello world" }))
+    );
+  });
+
+  test("falls back to the description", () => {
+    expect(contentHash(item({ description: "Body" }))).toBe(contentHash(item({ content: "Body" })));
+    expect(contentHash(item({ description: "Body" }))).not.toBe(contentHash(item({ description: "Other" })));
+  });
+});
+
+describe("dedupKey", () => {
+  test("guid falls back to the canonical link, as the source plugin's identity does", () => {
+    expect(dedupKey(item({ guid: "abc" }), "guid")).toBe("guid:abc");
+    expect(dedupKey(item({ link: "https://example.com/post?utm_campaign=x" }), "guid")).toBe("link:https://example.com/post");
+    expect(dedupKey(item({ link: "" }), "guid")).toBeNull();
+  });
+
+  test("follows the feed's strategy", () => {
+    const post = item({ guid: "abc", content: "Body" });
+    expect(dedupKey(post, "link")).toBe("link:https://example.com/post");
+    expect(dedupKey(post, "content")).toBe(`content:${contentHash(post)}`);
+    expect(dedupKey(post, "off")).toBeNull();
+  });
+
+  test("an item is indexed under every key any strategy would look for", () => {
+    const post = item({ guid: "abc", content: "Body" });
+    const keys = itemDedupKeys(post);
+    for (const strategy of ["guid", "link", "content"] as const) {
+      expect(keys).toContain(dedupKey(post, strategy)!);
+    }
+  });
+});
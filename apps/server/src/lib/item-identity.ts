@@ -0,0 +1,67 @@
+import { createHash } from "node:crypto";
+import type { FeedItem } from "../schemas/feed";
+import type { DedupStrategy } from "../schemas/settings";
+import { stripHtml } from "./search-index";
+
+// Query parameters that only record how a reader got to a link
+const trackingParams = new Set([
+  "fbclid", "gclid", "dclid", "msclkid", "yclid", "igshid", "mc_cid", "mc_eid",
+  "_hsenc", "_hsmi", "mkt_tok", "ref", "ref_src", "ref_url",
+]);
+
+const isTrackingParam = (name: string) => {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || trackingParams.has(lower);
+};
+
+// The same page linked from different places: lowercased host, no fragment, no default port,
+// no trailing slash, tracking parameters dropped and the rest sorted
+export const canonicalLink = (link: string) => {
+  let url: URL;
+  try {
+    url = new URL(link.trim());
+  } catch {
+    return link.trim();
+  }
+
+  url.hash = "";
+  const params = [...url.searchParams].filter(([name]) => !isTrackingParam(name));
+  params.sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+  if (url.pathname.length > 1 && url.pathname.endsWith("/")) {
+    url.pathname = url.pathname.replace(/\/+$/, "");
+  }
+  return url.toString();
+};
+
+const normalizeText = (text: string | undefined) =>
+  stripHtml(text ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+
+// Same title and body text, whatever the markup or link
+export const contentHash = (item: FeedItem) =>
+  createHash("sha256")
+    .update(`${normalizeText(item.title)}\n${normalizeText(item.content || item.description)}`)
+    .digest("hex");
+
+export type DedupKey = `${"guid" | "link" | "content"}:${string}`;
+
+// Every key an item can be recognised by, so changing a feed's strategy needs no reindexing
+export const itemDedupKeys = (item: FeedItem): DedupKey[] => [
+  ...(item.guid ? [`guid:${item.guid}` as const] : []),
+  ...(item.link ? [`link:${canonicalLink(item.link)}` as const] : []),
+  `content:${contentHash(item)}`,
+];
+
+// The key duplicates are detected by under a strategy, or null when the feed doesn't deduplicate
+export const dedupKey = (item: FeedItem, strategy: DedupStrategy): DedupKey | null => {
+  switch (strategy) {
+    case "guid":
+      return item.guid ? `guid:${item.guid}` : item.link ? `link:${canonicalLink(item.link)}` : null;
+    case "link":
+      return item.link ? `link:${canonicalLink(item.link)}` : null;
+    case "content":
+      return `content:${contentHash(item)}`;
+    case "off":
+      return null;
+  }
+};
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import type { FeedItem } from "../schemas/feed";
+import { type FeedCursor, getNewItems, type ItemsSincePage } from "./items-since";
+import { makeFeed, makeItem, storeLegacyFeed, useMemoryRedis } from "./testing";
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const item = (id: string, date?: string): FeedItem => makeItem(id, { id, ...(date && { date }) });
+
+const add = (feedId: string, ...ids: string[]) =>
+  Effect.forEach(ids, (id) => store.redis.addFeedItem(feedId, item(id)), { discard: true }).pipe(run);
+
+const cursorsOf = (pages: ItemsSincePage[]): FeedCursor[] =>
+  pages.map(({ feedId, cursor }) => ({ feedId, cursor }));
+
+const idsOf = (pages: ItemsSincePage[]) => pages.flatMap((page) => page.items.map((item) => item.id));
+
+// Polls with the cursors handed back each time until nothing more comes
+const drain = async (cursors: FeedCursor[], limit: number) => {
+  const seen: string[] = [];
+  for (let poll = 0; poll < 100; poll++) {
+    const pages = await run(getNewItems(cursors, limit));
+    seen.push(...idsOf(pages) as string[]);
+    cursors = cursorsOf(pages);
+    if (!pages.some((page) => page.hasMore)) {
+      return { seen, cursors };
+    }
+  }
+  throw new Error("Polling never finished");
+};
+
+beforeEach(async () => {
+  await run(store.redis.addFeed(makeFeed("a")));
+  await run(store.redis.addFeed(makeFeed("b")));
+});
+
+describe("getNewItems", () => {
+  test("returns items oldest first and the cursor of the last one", async () => {
+    await add("a", "a1", "a2", "a3");
+
+    const [page] = await run(getNewItems([{ feedId: "a" }], 10));
+
+    expect(page?.items.map((item) => item.id)).toEqual(["a1", "a2", "a3"]);
+    expect(page).toMatchObject({ cursor: "3", latest: "3", scanned: 3, hasMore: false });
+  });
+
+  test("yields every item exactly once across polls, whatever the page size", async () => {
+    await add("a", ...Array.from({ length: 7 }, (_, index) => `a${index + 1}`));
+    await add("b", "b1", "b2");
+
+    const { seen } = await drain([{ feedId: "a" }, { feedId: "b" }], 2);
+
+    expect(seen.sort()).toEqual(["a1", "a2", "a3", "a4", "a5", "a6", "a7", "b1", "b2"]);
+  });
+
+  test("items added between polls come in the next one only", async () => {
+    await add("a", "a1");
+    const first = await run(getNewItems([{ feedId: "a" }], 10));
+    await add("a", "a2");
+
+    const second = await run(getNewItems(cursorsOf(first), 10));
+    const third = await run(getNewItems(cursorsOf(second), 10));
+
+    expect(idsOf(second)).toEqual(["a2"]);
+    expect(idsOf(third)).toEqual([]);
+    expect(third[0]?.cursor).toBe("2");
+  });
+
+  test("shares the limit round-robin so one busy feed can't starve another", async () => {
+    await add("a", "a1", "a2", "a3", "a4", "a5");
+    await add("b", "b1");
+
+    const pages = await run(getNewItems([{ feedId: "a" }, { feedId: "b" }], 3));
+
+    expect(idsOf(pages)).toEqual(["a1", "a2", "b1"]);
+    expect(pages[0]).toMatchObject({ cursor: "2", hasMore: true });
+    expect(pages[1]).toMatchObject({ cursor: "1", hasMore: false });
+  });
+
+  test("allFeeds polls the whole directory, resuming from the cursors given", async () => {
+    await add("a", "a1", "a2");
+    await add("b", "b1");
+
+    const pages = await run(getNewItems([{ feedId: "a", cursor: "1" }], 10, { allFeeds: true }));
+
+    expect(idsOf(pages).sort()).toEqual(["a2", "b1"]);
+  });
+
+  test("allFeeds reads no more items than the limit, however many feeds there are", async () => {
+    const feedIds = Array.from({ length: 20 }, (_, index) => `busy${String(index).padStart(2, "0")}`);
+    for (const feedId of feedIds) {
+      await run(store.redis.addFeed(makeFeed(feedId)));
+      await add(feedId, `${feedId}-1`, `${feedId}-2`, `${feedId}-3`);
+    }
+
+    const pages = await run(getNewItems([], 4, { allFeeds: true }));
+
+    expect(pages.reduce((total, page) => total + page.scanned, 0)).toBe(4);
+    expect(idsOf(pages)).toHaveLength(4);
+    // Feeds the limit didn't reach keep their cursor and still say what is waiting
+    const unread = pages.find((page) => page.feedId === "busy19");
+    expect(unread).toMatchObject({ items: [], cursor: "0", latest: "3", scanned: 0, hasMore: true });
+
+    const { seen } = await drain(cursorsOf(pages), 4);
+    expect([...idsOf(pages), ...seen]).toHaveLength(60);
+  });
+
+  test("writes racing a poller are neither missed nor repeated", async () => {
+    let cursors: FeedCursor[] = [{ feedId: "a" }];
+    const seen: string[] = [];
+    const written = Array.from({ length: 30 }, (_, index) => `a${index + 1}`);
+
+    const poll = async () => {
+      const pages = await run(getNewItems(cursors, 4));
+      seen.push(...idsOf(pages) as string[]);
+      cursors = cursorsOf(pages);
+    };
+
+    // Writers and polls interleave on the same connection
+    await Promise.all(written.map(async (id, index) => {
+      await add("a", id);
+      if (index % 3 === 0) {
+        await poll();
+      }
+    }));
+    seen.push(...(await drain(cursors, 4)).seen);
+
+    expect(seen.sort()).toEqual([...written].sort());
+  });
+
+  test("cursors from before replaceFeed only see the new items", async () => {
+    await add("a", "a1", "a2");
+    const before = await run(getNewItems([{ feedId: "a" }], 10));
+
+    await run(store.redis.replaceFeed(makeFeed("a", [item("fresh")])));
+
+    expect(idsOf(await run(getNewItems(cursorsOf(before), 10)))).toEqual(["fresh"]);
+  });
+
+  test("a cursor past the end of a recreated feed starts over", async () => {
+    await add("a", "a1", "a2", "a3");
+    await run(store.redis.deleteFeed("a"));
+    await run(store.redis.addFeed(makeFeed("a")));
+    await add("a", "new1");
+
+    const [page] = await run(getNewItems([{ feedId: "a", cursor: "3" }], 10));
+
+    expect(page?.items.map((item) => item.id)).toEqual(["new1"]);
+    expect(page?.cursor).toBe("1");
+  });
+
+  test("moves past items outside the live window without counting them against the limit", async () => {
+    // Only the newest-dated item of "a" is live
+    await run(store.redis.setFeedSettings("a", { dedup: "guid", retention: { maxItems: 1, archive: false } }));
+    await run(store.redis.addFeedItem("a", item("older", "2023-01-01T00:00:00.000Z")));
+    await run(store.redis.addFeedItem("a", item("newest", "2024-06-01T00:00:00.000Z")));
+    await run(store.redis.addFeedItem("a", item("old", "2024-01-01T00:00:00.000Z")));
+    await add("b", "b1", "b2");
+
+    const first = await run(getNewItems([{ feedId: "a" }, { feedId: "b" }], 2));
+
+    expect(idsOf(first)).toEqual(["newest", "b1"]);
+    expect(first[0]).toMatchObject({ cursor: "2", scanned: 2, hasMore: true });
+
+    const second = await run(getNewItems(cursorsOf(first), 2));
+
+    expect(idsOf(second)).toEqual(["b2"]);
+    expect(second[0]).toMatchObject({ cursor: "3", hasMore: false });
+  });
+
+  test("a backfill from cursor 0 walks items stored before the upgrade, then the ones since", async () => {
+    await storeLegacyFeed(store.client, makeFeed("legacy", ["old1", "old2", "old3"].map((id) => item(id))));
+    await run(store.redis.migrateItemKeys());
+    await run(store.redis.migrateItemIndexes());
+    await add("legacy", "new1");
+
+    const { seen } = await drain([{ feedId: "legacy", cursor: "0" }], 2);
+
+    expect(seen).toEqual(["old1", "old2", "old3", "new1"]);
+  });
+});
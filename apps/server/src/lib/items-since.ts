@@ -0,0 +1,99 @@
+import { Effect } from "effect";
+import type { FeedItem } from "../schemas/feed";
+import { getFeedIds, getItemsSince, type ItemsSinceBatch } from "./redis";
+
+// A cursor is the insertion sequence of the last item a consumer has seen, "0" for none
+export type FeedCursor = { feedId: string; cursor?: string | null };
+
+export type ItemsSincePage = {
+  feedId: string;
+  items: FeedItem[];
+  cursor: string;
+  // The cursor of the feed's newest item, so callers can tell how far behind they are
+  latest: string;
+  // Items read past the cursor; those not in `items` are outside the live window
+  scanned: number;
+  hasMore: boolean;
+};
+
+const POLL_CONCURRENCY = 8;
+
+type FeedPoll = {
+  feedId: string;
+  // Where the next read continues from; the first read puts it back to 0 for a recreated feed
+  position: number;
+  latest: number;
+  entries: ItemsSinceBatch["entries"];
+  // Until a feed has been read it might have items
+  hasMore: boolean;
+  read: boolean;
+};
+
+// Items added to each feed after its cursor, oldest first. `limit` is shared out round-robin
+// so one busy feed can't starve the rest, and each feed's cursor only moves past the items
+// actually returned: polling again with the returned cursors yields every item exactly once.
+// Feeds are read in rounds, each getting its share of what is left of the limit, so a poll
+// reads about `limit` items however many feeds it covers. With `allFeeds` every feed in the
+// directory is polled, using the given cursors where there are any.
+export const getNewItems = (cursors: FeedCursor[], limit: number, { allFeeds = false } = {}) =>
+  Effect.gen(function* () {
+    const feeds = allFeeds
+      ? (yield* getFeedIds()).map((feedId) => ({
+        feedId,
+        cursor: cursors.find((entry) => entry.feedId === feedId)?.cursor,
+      }))
+      : cursors;
+
+    const polls = feeds.map(({ feedId, cursor }): FeedPoll => ({
+      feedId,
+      position: Number(cursor) || 0,
+      latest: 0,
+      entries: [],
+      hasMore: true,
+      read: false,
+    }));
+
+    const readMore = (poll: FeedPoll, count: number) =>
+      Effect.map(getItemsSince(poll.feedId, poll.position, count), (batch) => {
+        poll.read = true;
+        poll.position = batch.next;
+        poll.latest = batch.latest;
+        poll.entries.push(...batch.entries);
+        poll.hasMore = batch.hasMore;
+      });
+
+    // Entries outside the feed's live window are read past without counting against the limit,
+    // so cursors still move past them
+    const returned = () =>
+      polls.reduce((total, poll) => total + poll.entries.filter(({ live }) => live).length, 0);
+
+    for (let remaining = limit; remaining > 0; remaining = limit - returned()) {
+      const active = polls.filter((poll) => poll.hasMore);
+      if (active.length === 0) {
+        break;
+      }
+      // Once fewer items are left than feeds to share them, the first feeds get one each
+      const share = Math.floor(remaining / active.length);
+      yield* Effect.forEach(
+        share > 0 ? active : active.slice(0, remaining),
+        (poll) => readMore(poll, Math.max(share, 1)),
+        { concurrency: POLL_CONCURRENCY, discard: true }
+      );
+    }
+
+    // Feeds the limit ran out before still report how far behind the caller is
+    yield* Effect.forEach(
+      polls.filter((poll) => !poll.read),
+      (poll) => readMore(poll, 0),
+      { concurrency: POLL_CONCURRENCY, discard: true }
+    );
+
+    return polls.map((poll): ItemsSincePage => ({
+      feedId: poll.feedId,
+      items: poll.entries.filter(({ live }) => live).map(({ item }) => item),
+      cursor: String(poll.position),
+      latest: String(poll.latest),
+      scanned: poll.entries.length,
+      hasMore: poll.hasMore,
+    }));
+  });
@@ -0,0 +1,454 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { RedisConnection, RedisSubscriber } from "./redis";
+
+type Value =
+  | { type: "string"; value: string }
+  | { type: "set"; value: Set<string> }
+  | { type: "zset"; value: Map<string, number> }
+  | { type: "list"; value: string[] };
+
+type Snapshot = Record<string, { type: Value["type"]; value: unknown }>;
+
+type Listener = (message: string, channel: string) => void;
+
+// Commands that never change the dataset, so they don't schedule a snapshot
+const readCommands = new Set([
+  "GET", "MGET", "EXISTS", "SMEMBERS", "SISMEMBER", "SCARD", "ZRANGE", "ZREVRANK",
+  "ZSCORE", "ZCARD", "LRANGE", "LPOS", "LLEN", "SCAN", "MULTI", "EXEC", "PUBLISH",
+]);
+
+const PERSIST_DELAY_MS = 250;
+
+const wrongType = () =>
+  new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
+
+const toInteger = (value: string | undefined) => {
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    throw new Error("ERR value is not an integer or out of range");
+  }
+  return number;
+};
+
+// Redis score bounds: "-inf", "+inf", "1.5" (inclusive) or "(1.5" (exclusive)
+const parseScoreBound = (bound: string) => {
+  const exclusive = bound.startsWith("(");
+  const raw = exclusive ? bound.slice(1) : bound;
+  const value = raw === "-inf" ? -Infinity : raw === "+inf" || raw === "inf" ? Infinity : Number(raw);
+  if (Number.isNaN(value)) {
+    throw new Error("ERR min or max is not a float");
+  }
+  return { value, exclusive };
+};
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`
+  );
+
+// Resolves Redis' inclusive, possibly negative, start/stop indexes against a length
+const sliceRange = <T>(values: T[], start: number, stop: number) => {
+  const from = start < 0 ? Math.max(values.length + start, 0) : start;
+  const to = stop < 0 ? values.length + stop : Math.min(stop, values.length - 1);
+  return from > to ? [] : values.slice(from, to + 1);
+};
+
+// A single-process stand-in for a Redis server covering the commands RedisService issues.
+// Replies follow the shapes Bun's RedisClient returns, so the service code runs unchanged on top.
+export class MemoryRedisClient implements RedisConnection, RedisSubscriber {
+  private readonly data = new Map<string, Value>();
+  private readonly listeners = new Map<string, Set<Listener>>();
+  private queue: Array<[string, string[]]> | null = null;
+  // Keys under WATCH, and whether one of them has been written since
+  private watched = new Set<string>();
+  private watchBroken = false;
+  private persistTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly filePath?: string) {
+    if (filePath && existsSync(filePath)) {
+      this.restore(JSON.parse(readFileSync(filePath, "utf8")) as Snapshot);
+    }
+  }
+
+  async send(command: string, args: string[]): Promise<unknown> {
+    const name = command.toUpperCase();
+
+    if (name === "MULTI") {
+      if (this.queue) {
+        throw new Error("ERR MULTI calls can not be nested");
+      }
+      this.queue = [];
+      return "OK";
+    }
+
+    if (name === "WATCH") {
+      if (this.queue) {
+        throw new Error("ERR WATCH inside MULTI is not allowed");
+      }
+      args.forEach((arg) => this.watched.add(arg));
+      return "OK";
+    }
+
+    if (name === "UNWATCH") {
+      this.unwatch();
+      return "OK";
+    }
+
+    if (name === "DISCARD") {
+      if (!this.queue) {
+        throw new Error("ERR DISCARD without MULTI");
+      }
+      this.queue = null;
+      this.unwatch();
+      return "OK";
+    }
+
+    if (name === "EXEC") {
+      if (!this.queue) {
+        throw new Error("ERR EXEC without MULTI");
+      }
+      const queued = this.queue;
+      const aborted = this.watchBroken;
+      this.queue = null;
+      this.unwatch();
+      // A null reply tells the caller a watched key changed and nothing ran
+      if (aborted) {
+        return null;
+      }
+      // Each queued command runs to completion before the next, with nothing in between
+      return queued.map(([queuedName, queuedArgs]) => {
+        try {
+          return this.execute(queuedName, queuedArgs);
+        } catch (error) {
+          return error;
+        }
+      });
+    }
+
+    if (this.queue) {
+      this.queue.push([name, args]);
+      return "QUEUED";
+    }
+
+    return this.execute(name, args);
+  }
+
+  async subscribe(channel: string, listener: Listener) {
+    const listeners = this.listeners.get(channel) ?? new Set<Listener>();
+    listeners.add(listener);
+    this.listeners.set(channel, listeners);
+    return this.listeners.size;
+  }
+
+  async unsubscribe(channel: string, listener: Listener) {
+    const listeners = this.listeners.get(channel);
+    listeners?.delete(listener);
+    if (listeners?.size === 0) {
+      this.listeners.delete(channel);
+    }
+  }
+
+  close() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+      this.persist();
+    }
+  }
+
+  private execute(name: string, args: string[]): unknown {
+    const reply = this.dispatch(name, args);
+    if (!readCommands.has(name)) {
+      // Every write command here changes its first key, except DEL which takes several
+      const keys = name === "DEL" ? args : args.slice(0, 1);
+      if (keys.some((key) => this.watched.has(key))) {
+        this.watchBroken = true;
+      }
+      this.schedulePersist();
+    }
+    return reply;
+  }
+
+  private unwatch() {
+    this.watched.clear();
+    this.watchBroken = false;
+  }
+
+  private dispatch(name: string, args: string[]): unknown {
+    const [key = ""] = args;
+
+    switch (name) {
+      case "GET":
+        return this.read(key, "string")?.value ?? null;
+      case "MGET":
+        return args.map((arg) => this.read(arg, "string")?.value ?? null);
+      case "SET": {
+        const [, value = ""] = args;
+        const flags = args.slice(2).map((flag) => flag.toUpperCase());
+        if (flags.includes("NX") && this.data.has(key)) {
+          return null;
+        }
+        if (flags.includes("XX") && !this.data.has(key)) {
+          return null;
+        }
+        this.data.set(key, { type: "string", value });
+        return "OK";
+      }
+      case "DEL":
+        return args.filter((arg) => this.data.delete(arg)).length;
+      case "PUBLISH": {
+        const listeners = [...(this.listeners.get(key) ?? [])];
+        // Delivered after the current command (or transaction) returns, as over a real connection
+        queueMicrotask(() => listeners.forEach((listener) => listener(args[1] ?? "", key)));
+        return listeners.length;
+      }
+      case "EXISTS":
+        return args.filter((arg) => this.data.has(arg)).length;
+      case "INCR":
+      case "INCRBY": {
+        const current = this.read(key, "string");
+        const next = toInteger(current?.value ?? "0") + (name === "INCR" ? 1 : toInteger(args[1]));
+        this.data.set(key, { type: "string", value: String(next) });
+        return next;
+      }
+
+      case "SADD": {
+        const set = this.write(key, "set", () => new Set<string>());
+        const before = set.size;
+        args.slice(1).forEach((member) => set.add(member));
+        return set.size - before;
+      }
+      case "SREM": {
+        const set = this.read(key, "set")?.value;
+        const removed = set ? args.slice(1).filter((member) => set.delete(member)).length : 0;
+        this.dropIfEmpty(key);
+        return removed;
+      }
+      case "SMEMBERS":
+        return [...(this.read(key, "set")?.value ?? [])];
+      case "SISMEMBER":
+        return this.read(key, "set")?.value.has(args[1] ?? "") ? 1 : 0;
+      case "SCARD":
+        return this.read(key, "set")?.value.size ?? 0;
+
+      case "ZADD": {
+        let index = 1;
+        const flags = new Set<string>();
+        while (["NX", "XX", "GT", "LT", "CH"].includes(args[index]?.toUpperCase() ?? "")) {
+          flags.add(args[index++]!.toUpperCase());
+        }
+        const zset = this.write(key, "zset", () => new Map<string, number>());
+        let changed = 0;
+        for (; index < args.length; index += 2) {
+          const score = Number(args[index]);
+          const member = args[index + 1] ?? "";
+          const existing = zset.get(member);
+          if (Number.isNaN(score)) {
+            throw new Error("ERR value is not a valid float");
+          }
+          if ((flags.has("NX") && existing !== undefined) || (flags.has("XX") && existing === undefined)) {
+            continue;
+          }
+          if (existing !== undefined && ((flags.has("GT") && score <= existing) || (flags.has("LT") && score >= existing))) {
+            continue;
+          }
+          if (existing === undefined || (flags.has("CH") && existing !== score)) {
+            changed++;
+          }
+          zset.set(member, score);
+        }
+        this.dropIfEmpty(key);
+        return changed;
+      }
+      case "ZREM": {
+        const zset = this.read(key, "zset")?.value;
+        const removed = zset ? args.slice(1).filter((member) => zset.delete(member)).length : 0;
+        this.dropIfEmpty(key);
+        return removed;
+      }
+      case "ZSCORE":
+        return this.read(key, "zset")?.value.get(args[1] ?? "") ?? null;
+      case "ZCARD":
+        return this.read(key, "zset")?.value.size ?? 0;
+      case "ZREVRANK": {
+        const members = this.sortedMembers(key, true);
+        const rank = members.findIndex(([member]) => member === args[1]);
+        return rank === -1 ? null : rank;
+      }
+      case "ZRANGE":
+        return this.zrange(key, args.slice(1));
+
+      case "LRANGE":
+        return sliceRange(this.read(key, "list")?.value ?? [], toInteger(args[1]), toInteger(args[2]));
+      case "LPOS": {
+        const position = this.read(key, "list")?.value.indexOf(args[1] ?? "") ?? -1;
+        return position === -1 ? null : position;
+      }
+      case "LLEN":
+        return this.read(key, "list")?.value.length ?? 0;
+      case "LREM": {
+        // count > 0 removes from the head, count < 0 from the tail, 0 removes every occurrence
+        const list = this.read(key, "list")?.value;
+        if (!list) {
+          return 0;
+        }
+        const count = toInteger(args[1]);
+        const value = args[2] ?? "";
+        const limit = count === 0 ? Infinity : Math.abs(count);
+        const indexes = list
+          .map((member, index) => member === value ? index : -1)
+          .filter((index) => index !== -1);
+        const removed = new Set((count < 0 ? indexes.reverse() : indexes).slice(0, limit));
+        this.data.set(key, { type: "list", value: list.filter((_, index) => !removed.has(index)) });
+        this.dropIfEmpty(key);
+        return removed.size;
+      }
+      case "LPUSH":
+      case "RPUSH": {
+        const list = this.write(key, "list", () => []);
+        const values = args.slice(1);
+        if (name === "LPUSH") {
+          list.unshift(...values.reverse());
+        } else {
+          list.push(...values);
+        }
+        return list.length;
+      }
+
+      case "SCAN": {
+        // The whole keyspace is returned in one page, which SCAN's contract allows
+        const matchIndex = args.findIndex((arg) => arg.toUpperCase() === "MATCH");
+        const pattern = matchIndex === -1 ? null : globToRegExp(args[matchIndex + 1] ?? "*");
+        return ["0", [...this.data.keys()].filter((candidate) => !pattern || pattern.test(candidate))];
+      }
+
+      default:
+        throw new Error(`ERR unknown command '${name}'`);
+    }
+  }
+
+  // ZRANGE key start stop [BYSCORE] [REV] [LIMIT offset count]
+  private zrange(key: string, args: string[]) {
+    const [start = "0", stop = "-1", ...options] = args;
+    const flags = options.map((option) => option.toUpperCase());
+    const reverse = flags.includes("REV");
+    const members = this.sortedMembers(key, reverse);
+
+    if (!flags.includes("BYSCORE")) {
+      return sliceRange(members, toInteger(start), toInteger(stop)).map(([member]) => member);
+    }
+
+    // With REV the bounds are given as max then min
+    const [max, min] = reverse
+      ? [parseScoreBound(start), parseScoreBound(stop)]
+      : [parseScoreBound(stop), parseScoreBound(start)];
+    const inRange = members.filter(([, score]) =>
+      (min.exclusive ? score > min.value : score >= min.value) &&
+      (max.exclusive ? score < max.value : score <= max.value)
+    );
+
+    const limitIndex = flags.indexOf("LIMIT");
+    if (limitIndex === -1) {
+      return inRange.map(([member]) => member);
+    }
+
+    const offset = toInteger(options[limitIndex + 1]);
+    const count = toInteger(options[limitIndex + 2]);
+    return inRange
+      .slice(offset, count < 0 ? undefined : offset + count)
+      .map(([member]) => member);
+  }
+
+  // Ties on score are ordered by member, as Redis does
+  private sortedMembers(key: string, reverse: boolean) {
+    const members = [...(this.read(key, "zset")?.value ?? [])].sort(([a, aScore], [b, bScore]) =>
+      aScore - bScore || (a < b ? -1 : a > b ? 1 : 0)
+    );
+    return reverse ? members.reverse() : members;
+  }
+
+  private read<T extends Value["type"]>(key: string, type: T) {
+    const entry = this.data.get(key);
+    if (entry && entry.type !== type) {
+      throw wrongType();
+    }
+    return entry as Extract<Value, { type: T }> | undefined;
+  }
+
+  private write<T extends Value["type"]>(
+    key: string,
+    type: T,
+    create: () => Extract<Value, { type: T }>["value"]
+  ) {
+    const existing = this.read(key, type);
+    if (existing) {
+      return existing.value as Extract<Value, { type: T }>["value"];
+    }
+    const value = create();
+    this.data.set(key, { type, value } as Value);
+    return value;
+  }
+
+  // Redis removes collections once their last member is gone
+  private dropIfEmpty(key: string) {
+    const entry = this.data.get(key);
+    if (!entry || entry.type === "string") {
+      return;
+    }
+    const size = entry.value instanceof Array ? entry.value.length : entry.value.size;
+    if (size === 0) {
+      this.data.delete(key);
+    }
+  }
+
+  private schedulePersist() {
+    if (!this.filePath || this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+
+  private persist() {
+    if (!this.filePath) {
+      return;
+    }
+
+    const snapshot: Snapshot = {};
+    for (const [key, entry] of this.data) {
+      snapshot[key] = {
+        type: entry.type,
+        value: entry.type === "set"
+          ? [...entry.value]
+          : entry.type === "zset"
+            ? Object.fromEntries(entry.value)
+            : entry.value,
+      };
+    }
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(snapshot));
+  }
+
+  private restore(snapshot: Snapshot) {
+    for (const [key, { type, value }] of Object.entries(snapshot)) {
+      switch (type) {
+        case "string":
+          this.data.set(key, { type, value: value as string });
+          break;
+        case "set":
+          this.data.set(key, { type, value: new Set(value as string[]) });
+          break;
+        case "zset":
+          this.data.set(key, { type, value: new Map(Object.entries(value as Record<string, number>)) });
+          break;
+        case "list":
+          this.data.set(key, { type, value: value as string[] });
+          break;
+      }
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { Principal } from "./api-keys";
+import { submitFeedItems } from "./moderation";
+import { makeFeed, makeItem, useMemoryRedis } from "./testing";
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const curator: Principal = { type: "session", userId: "curator" };
+
+beforeEach(async () => {
+  for (const feedId of ["a", "b"]) {
+    await run(store.redis.addFeed(makeFeed(feedId)));
+    await run(store.redis.setFeedAcl({ feedId, ownerId: "owner", collaborators: [] }));
+  }
+});
+
+describe("submitFeedItems", () => {
+  test("reports on every entry in request order", async () => {
+    await run(store.redis.addFeedItem("a", { ...makeItem(1), id: "published" }));
+
+    const results = await run(submitFeedItems(curator, [
+      { feedId: "a", item: makeItem(1) },
+      { feedId: "a", item: makeItem(2) },
+      { feedId: "b", item: makeItem(2) },
+      { feedId: "a", item: { title: "No link or date" } },
+      { feedId: "missing", item: makeItem(3) },
+    ]));
+
+    expect(results.map(({ index, feedId, outcome }) => [index, feedId, outcome])).toEqual([
+      [0, "a", "duplicate"],
+      [1, "a", "submitted"],
+      [2, "b", "submitted"],
+      [3, "a", "invalid"],
+      [4, "missing", "not-found"],
+    ]);
+    expect(results[0]).toMatchObject({ itemId: "published", status: "approved" });
+    expect(results[3]?.message).toContain("link");
+  });
+
+  test("queues each accepted item once, even when the batch repeats it", async () => {
+    const results = await run(submitFeedItems(curator, [
+      { feedId: "a", item: makeItem(1) },
+      { feedId: "a", item: { ...makeItem(1), title: "Same guid" } },
+    ]));
+
+    expect(results.map(({ outcome }) => outcome)).toEqual(["submitted", "duplicate"]);
+    expect(results[1]).toMatchObject({ itemId: results[0]?.itemId, status: "pending" });
+    expect(await run(store.redis.listSubmissions("a", { status: "pending", limit: 10 }))).toHaveLength(1);
+  });
+
+  test("items already waiting for a moderator come back as pending duplicates", async () => {
+    const [first] = await run(submitFeedItems(curator, [{ feedId: "a", item: makeItem(1) }]));
+    const [again] = await run(submitFeedItems(curator, [{ feedId: "a", item: makeItem(1) }]));
+
+    expect(again).toMatchObject({ outcome: "duplicate", itemId: first?.itemId, status: "pending" });
+  });
+
+  test("refuses entries for feeds the principal can't write to, keeping the rest", async () => {
+    const key: Principal = { type: "apiKey", userId: "bot", keyId: "key", permissions: { "feed:a": ["write"] } };
+
+    const results = await run(submitFeedItems(key, [
+      { feedId: "a", item: makeItem(1) },
+      { feedId: "b", item: makeItem(2) },
+    ]));
+
+    expect(results.map(({ outcome }) => outcome)).toEqual(["submitted", "forbidden"]);
+    expect(results[1]?.message).toBe("Not allowed to submit feed b");
+    expect(await run(store.redis.listSubmissions("b", { status: "pending", limit: 10 }))).toEqual([]);
+  });
+
+  test("feeds without an owner are refused, not reported missing", async () => {
+    await run(store.redis.addFeed(makeFeed("unowned")));
+
+    const [result] = await run(submitFeedItems(curator, [{ feedId: "unowned", item: makeItem(1) }]));
+
+    expect(result).toMatchObject({ outcome: "forbidden", message: "Feed unowned has no owner yet" });
+  });
+});
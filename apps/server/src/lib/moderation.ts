@@ -0,0 +1,366 @@
+import { createHash } from "node:crypto";
+import { desc, eq } from "drizzle-orm";
+import { Data, Effect } from "effect";
+import { z } from "zod";
+import { db } from "../db";
+import { moderationDecision } from "../db/schema/moderation";
+import { FeedItem } from "../schemas/feed";
+import type { Submission, SubmissionStatus } from "../schemas/submission";
+import type { Principal } from "./api-keys";
+import { authorizeFeedAction, feedPermissions, FeedForbiddenError } from "./feed-acl";
+import { dedupKey } from "./item-identity";
+import {
+  addFeedItem,
+  findDuplicateItem,
+  getFeedAcl,
+  getFeedAcls,
+  getFeedIds,
+  getFeedSettings,
+  getSubmission,
+  listSubmissions,
+  setSubmission,
+  setSubmissions,
+  transitionSubmission,
+} from "./redis";
+import { notifyHub } from "./websub";
+
+export class SubmissionNotFoundError extends Data.TaggedError("SubmissionNotFoundError")<{
+  message: string;
+}> { }
+
+export class ModerationLogError extends Data.TaggedError("ModerationLogError")<{
+  message: string;
+  cause?: unknown;
+}> { }
+
+const pendingSubmission = (feedId: string, itemId: string) =>
+  Effect.gen(function* () {
+    const submission = yield* getSubmission(feedId, itemId);
+    if (!submission || submission.status !== "pending") {
+      return yield* Effect.fail(new SubmissionNotFoundError({
+        message: `No pending submission ${itemId} in feed ${feedId}`,
+      }));
+    }
+    return submission;
+  });
+
+// Written before the decision takes effect, so nothing is published without a record.
+// Resolves to the record's id.
+const recordDecision = (submission: Submission) =>
+  Effect.tryPromise({
+    try: async () => {
+      const id = crypto.randomUUID();
+      await db.insert(moderationDecision).values({
+        id,
+        feedId: submission.feedId,
+        itemId: submission.itemId,
+        decision: submission.status === "approved" ? "approved" : "rejected",
+        reason: submission.reason,
+        edited: submission.edited,
+        itemTitle: submission.item.title,
+        submittedBy: submission.submittedBy,
+        moderatorId: submission.decidedBy!,
+        createdAt: new Date(submission.decidedAt!),
+      });
+      return id;
+    },
+    catch: (error) => new ModerationLogError({
+      message: `Failed to record decision on submission ${submission.itemId}`,
+      cause: error
+    }),
+  });
+
+const retractDecision = (id: string) =>
+  Effect.tryPromise({
+    try: () => db.delete(moderationDecision).where(eq(moderationDecision.id, id)),
+    catch: (error) => new ModerationLogError({
+      message: `Failed to retract moderation decision ${id}`,
+      cause: error
+    }),
+  });
+
+// Moves a pending submission to `decided`, failing if another moderator got there first
+const claimSubmission = (decided: Submission) =>
+  Effect.gen(function* () {
+    if (!(yield* transitionSubmission(decided, "pending"))) {
+      return yield* Effect.fail(new SubmissionNotFoundError({
+        message: `No pending submission ${decided.itemId} in feed ${decided.feedId}`,
+      }));
+    }
+  });
+
+// Puts a claimed submission back in the queue after its decision couldn't be carried out.
+// The original failure is what the caller sees, so problems undoing it are only logged.
+const unclaimSubmission = (pending: Submission, decided: Submission, decisionId?: string) =>
+  Effect.gen(function* () {
+    if (decisionId) {
+      yield* retractDecision(decisionId);
+    }
+    yield* transitionSubmission(pending, decided.status);
+  }).pipe(
+    Effect.catchAll((error) => Effect.logError(error.message))
+  );
+
+export type SubmissionResult = {
+  itemId: string;
+  status: SubmissionStatus;
+  duplicate: boolean;
+};
+
+// Derived from the dedup key, so posting the same item again lands on the same submission
+const submissionItemId = (key: string) => {
+  const hex = createHash("sha256").update(key).digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+};
+
+// Works out where an item would land without writing anything; `submission` is null for duplicates
+const prepareSubmission = (principal: Principal, feedId: string, item: Omit<FeedItem, "id">) =>
+  Effect.gen(function* () {
+    // Items the feed already has come back as duplicates of the published copy
+    const publishedId = yield* findDuplicateItem(feedId, item);
+    if (publishedId) {
+      const result: SubmissionResult = { itemId: publishedId, status: "approved", duplicate: true };
+      return { result, submission: null };
+    }
+
+    const settings = yield* getFeedSettings(feedId);
+    const key = dedupKey(item, settings.dedup);
+    const itemId = key ? submissionItemId(key) : crypto.randomUUID();
+
+    // Still waiting for a moderator; rejected items may be submitted again
+    const existing = key ? yield* getSubmission(feedId, itemId) : null;
+    if (existing?.status === "pending") {
+      const result: SubmissionResult = { itemId, status: existing.status, duplicate: true };
+      return { result, submission: null };
+    }
+
+    const submission: Submission = {
+      feedId,
+      itemId,
+      item: { ...item, id: itemId },
+      status: "pending",
+      submittedBy: principal.userId,
+      submittedAt: new Date().toISOString(),
+      edited: false,
+    };
+    const result: SubmissionResult = { itemId, status: submission.status, duplicate: false };
+    return { result, submission };
+  });
+
+export const submitFeedItem = (principal: Principal, feedId: string, item: Omit<FeedItem, "id">) =>
+  Effect.gen(function* () {
+    yield* authorizeFeedAction(principal, feedId, "submit");
+
+    const { result, submission } = yield* prepareSubmission(principal, feedId, item);
+    if (submission) {
+      yield* setSubmission(submission);
+    }
+    return result;
+  });
+
+export type BulkSubmissionEntry = { feedId: string; item: unknown };
+
+export type BulkSubmissionResult = {
+  // Position of the entry in the request
+  index: number;
+  feedId: string;
+  outcome: "submitted" | "duplicate" | "invalid" | "forbidden" | "not-found";
+  itemId?: string;
+  status?: SubmissionStatus;
+  message?: string;
+};
+
+const SubmittedItem = FeedItem.omit({ id: true });
+
+// Submits many items, possibly to several feeds, reporting on each rather than failing the lot.
+// Items are validated here instead of by the caller's input schema so one malformed entry
+// doesn't reject the others. Everything accepted is written in a single transaction.
+export const submitFeedItems = (principal: Principal, entries: BulkSubmissionEntry[]) =>
+  Effect.gen(function* () {
+    const feedIds = [...new Set(entries.map((entry) => entry.feedId))];
+    const denied = new Map<string, { outcome: "forbidden" | "not-found"; message: string }>();
+    yield* Effect.forEach(feedIds, (feedId) =>
+      authorizeFeedAction(principal, feedId, "submit").pipe(
+        Effect.catchTags({
+          FeedForbiddenError: (error) =>
+            Effect.sync(() => denied.set(feedId, { outcome: "forbidden", message: error.message })),
+          FeedNotFoundError: (error) =>
+            Effect.sync(() => denied.set(feedId, { outcome: "not-found", message: error.message })),
+        })
+      ),
+      { discard: true }
+    );
+
+    const results: BulkSubmissionResult[] = [];
+    const accepted = new Map<string, Submission>();
+
+    for (const [index, { feedId, item }] of entries.entries()) {
+      const refusal = denied.get(feedId);
+      if (refusal) {
+        results.push({ index, feedId, ...refusal });
+        continue;
+      }
+
+      const parsed = SubmittedItem.safeParse(item);
+      if (!parsed.success) {
+        results.push({ index, feedId, outcome: "invalid", message: z.prettifyError(parsed.error) });
+        continue;
+      }
+
+      const { result, submission } = yield* prepareSubmission(principal, feedId, parsed.data);
+      // An earlier entry of the same batch already queued this item
+      const key = `${feedId}\n${result.itemId}`;
+      if (submission && !accepted.has(key)) {
+        accepted.set(key, submission);
+        results.push({ index, feedId, outcome: "submitted", itemId: result.itemId, status: result.status });
+      } else {
+        results.push({
+          index,
+          feedId,
+          outcome: "duplicate",
+          itemId: result.itemId,
+          status: submission ? "pending" : result.status,
+        });
+      }
+    }
+
+    if (accepted.size > 0) {
+      yield* setSubmissions([...accepted.values()]);
+    }
+    return results;
+  });
+
+export const editSubmission = (
+  principal: Principal,
+  feedId: string,
+  itemId: string,
+  item: Omit<FeedItem, "id">
+) =>
+  Effect.gen(function* () {
+    yield* authorizeFeedAction(principal, feedId, "moderate");
+    const submission = yield* pendingSubmission(feedId, itemId);
+
+    const edited: Submission = { ...submission, item: { ...item, id: itemId }, edited: true };
+    // Decided while we were editing
+    yield* claimSubmission(edited);
+    return edited;
+  });
+
+// Optional edits are applied as part of the approval
+export const approveSubmission = (
+  principal: Principal,
+  feedId: string,
+  itemId: string,
+  item?: Omit<FeedItem, "id">
+) =>
+  Effect.gen(function* () {
+    yield* authorizeFeedAction(principal, feedId, "moderate");
+    const submission = yield* pendingSubmission(feedId, itemId);
+
+    const approved: Submission = {
+      ...submission,
+      item: item ? { ...item, id: itemId } : submission.item,
+      edited: submission.edited || !!item,
+      status: "approved",
+      decidedBy: principal.userId,
+      decidedAt: new Date().toISOString(),
+    };
+
+    // Claimed first, so two moderators approving at once can't both publish
+    yield* claimSubmission(approved);
+    const decisionId = yield* recordDecision(approved).pipe(
+      Effect.tapError(() => unclaimSubmission(submission, approved))
+    );
+    const added = yield* addFeedItem(feedId, approved.item).pipe(
+      Effect.tapError(() => unclaimSubmission(submission, approved, decisionId))
+    );
+
+    if (added.duplicate) {
+      // Nothing new went live when the feed already had it; point the approval at that copy
+      const published: Submission = { ...approved, publishedItemId: added.itemId };
+      yield* setSubmission(published);
+      return published;
+    }
+    yield* notifyHub(feedId);
+    return approved;
+  });
+
+export const rejectSubmission = (principal: Principal, feedId: string, itemId: string, reason: string) =>
+  Effect.gen(function* () {
+    yield* authorizeFeedAction(principal, feedId, "moderate");
+    const submission = yield* pendingSubmission(feedId, itemId);
+
+    const rejected: Submission = {
+      ...submission,
+      status: "rejected",
+      reason,
+      decidedBy: principal.userId,
+      decidedAt: new Date().toISOString(),
+    };
+
+    yield* claimSubmission(rejected);
+    yield* recordDecision(rejected).pipe(
+      Effect.tapError(() => unclaimSubmission(submission, rejected))
+    );
+    return rejected;
+  });
+
+// Needs the moderator role; a feed without an access list has no moderators
+const requireModerator = (principal: Principal, feedId: string) =>
+  Effect.gen(function* () {
+    const acl = yield* getFeedAcl(feedId);
+    if (!feedPermissions(feedId, acl, principal).canModerate) {
+      return yield* Effect.fail(new FeedForbiddenError({
+        message: `Not allowed to moderate feed ${feedId}`,
+      }));
+    }
+  });
+
+// Without a feedId, collects the queue of every feed the principal moderates, newest first
+export const listModerationQueue = (
+  principal: Principal,
+  { feedId, status, limit }: { feedId?: string; status: SubmissionStatus; limit: number }
+) =>
+  Effect.gen(function* () {
+    let feedIds: string[];
+
+    if (feedId) {
+      yield* requireModerator(principal, feedId);
+      feedIds = [feedId];
+    } else {
+      const allFeedIds = yield* getFeedIds();
+      const acls = yield* getFeedAcls(allFeedIds);
+      feedIds = allFeedIds.filter((id, index) =>
+        feedPermissions(id, acls[index] ?? null, principal).canModerate
+      );
+    }
+
+    const queues = yield* Effect.forEach(feedIds, (id) => listSubmissions(id, { status, limit }));
+
+    return queues
+      .flat()
+      .sort((a, b) =>
+        (b.decidedAt ?? b.submittedAt).localeCompare(a.decidedAt ?? a.submittedAt)
+      )
+      .slice(0, limit);
+  });
+
+export const getModerationDecisions = (principal: Principal, feedId: string, limit: number) =>
+  Effect.gen(function* () {
+    yield* requireModerator(principal, feedId);
+
+    const rows = yield* Effect.tryPromise({
+      try: () => db
+        .select()
+        .from(moderationDecision)
+        .where(eq(moderationDecision.feedId, feedId))
+        .orderBy(desc(moderationDecision.createdAt))
+        .limit(limit),
+      catch: (error) => new ModerationLogError({
+        message: `Failed to read decisions for feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+    return rows.map((row) => ({ ...row, createdAt: row.createdAt.toISOString() }));
+  });
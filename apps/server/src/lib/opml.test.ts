@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Effect } from "effect";
+import { getTestDatabase } from "../db/testing";
+import type { Principal } from "./api-keys";
+import { importedFeedId } from "./feed-import";
+import {
+  exportDirectoryOpml,
+  exportSubscriptionsOpml,
+  importOpml,
+  OpmlParseError,
+  OpmlTooLargeError,
+  parseOpml,
+  renderOpml
+} from "./opml";
+import { listSubscriptions, subscribeFeed } from "./subscriptions";
+import { makeFeed, useMemoryRedis } from "./testing";
+
+const database = await getTestDatabase();
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const origin = "https://feeds.example.com";
+const reader: Principal = { type: "session", userId: "reader" };
+
+// Literal public addresses, so the URL guard passes without DNS and the stub below answers
+const upstream = (name: string) => `http://93.184.216.34/${name}.xml`;
+const rss = readFileSync(join(import.meta.dir, "fixtures", "rss2.xml"), "utf8");
+
+let fetchSpy: ReturnType<typeof spyOn>;
+
+const opml = (body: string) => `<?xml version="1.0"?><opml version="2.0"><head/><body>${body}</body></opml>`;
+
+const outline = (url: string, attributes = "") => `<outline type="rss" text="${url}" xmlUrl="${url}" ${attributes}/>`;
+
+beforeEach(async () => {
+  await database.reset();
+  await database.createUser("reader");
+  fetchSpy = spyOn(globalThis, "fetch").mockImplementation((async (url: URL | string) =>
+    String(url).includes("broken")
+      ? new Response("Unavailable", { status: 500 })
+      : new Response(rss, { status: 200 })
+  ) as typeof fetch);
+});
+
+afterEach(() => {
+  fetchSpy.mockRestore();
+});
+
+describe("parseOpml", () => {
+  test("turns nested folders into a category path", async () => {
+    const entries = await run(parseOpml(opml(`
+      <outline text="Tech">
+        <outline title="Languages">
+          <outline text="Rust" title="Rust blog" xmlUrl="https://blog.rust-lang.org/feed.xml" htmlUrl="https://blog.rust-lang.org/"/>
+        </outline>
+        <outline text="HN" xmlUrl="https://news.ycombinator.com/rss"/>
+      </outline>
+      <outline text="Loose" xmlUrl="https://example.com/loose.xml"/>
+    `)));
+
+    expect(entries).toEqual([
+      { url: "https://blog.rust-lang.org/feed.xml", title: "Rust blog", htmlUrl: "https://blog.rust-lang.org/", category: "Tech/Languages" },
+      { url: "https://news.ycombinator.com/rss", title: "HN", htmlUrl: undefined, category: "Tech" },
+      { url: "https://example.com/loose.xml", title: "Loose", htmlUrl: undefined, category: undefined },
+    ]);
+  });
+
+  test("matches attribute names in any case", async () => {
+    const [entry] = await run(parseOpml(opml(`<outline TEXT="Shouty" XMLURL="https://example.com/a.xml" htmlurl="https://example.com/"/>`)));
+
+    expect(entry).toMatchObject({ url: "https://example.com/a.xml", title: "Shouty", htmlUrl: "https://example.com/" });
+  });
+
+  test("falls back to the category attribute only outside folders", async () => {
+    const entries = await run(parseOpml(opml(`
+      ${outline("https://example.com/a.xml", `category="/News/World/,/Other"`)}
+      <outline text="Folder">${outline("https://example.com/b.xml", `category="/Ignored"`)}</outline>
+    `)));
+
+    expect(entries.map((entry) => entry.category)).toEqual(["News/World", "Folder"]);
+  });
+
+  test("skips outlines without a feed URL and reads an empty body as no feeds", async () => {
+    expect(await run(parseOpml(opml(`<outline text="Empty folder"><outline text="Not a feed"/></outline>`)))).toEqual([]);
+    expect(await run(parseOpml(`<opml version="2.0"><head/></opml>`))).toEqual([]);
+  });
+
+  test.each([
+    ["an RSS document", rss],
+    ["plain text", "just some words"],
+    ["an empty string", ""],
+  ])("rejects %s", async (_, document) => {
+    const error = await run(Effect.flip(parseOpml(document)));
+
+    expect(error).toBeInstanceOf(OpmlParseError);
+    expect(error.message).toBe("Failed to parse OPML: Document is not OPML");
+  });
+});
+
+describe("renderOpml", () => {
+  test("round trips through parseOpml, categories and all", async () => {
+    const feeds = [
+      { title: "Rust & friends", xmlUrl: "https://example.com/rust.xml?a=1&b=2", htmlUrl: "https://example.com/", category: "Tech/Languages" },
+      { title: "World", xmlUrl: "https://example.com/world.xml", category: "News" },
+      { title: "Deep", xmlUrl: "https://example.com/deep.xml", category: "Tech/Languages/Systems" },
+      { title: "Loose", xmlUrl: "https://example.com/loose.xml" },
+    ];
+
+    const entries = await run(parseOpml(renderOpml("Export", feeds)));
+
+    expect(entries.sort((a, b) => a.url.localeCompare(b.url))).toEqual(
+      feeds
+        .map(({ title, xmlUrl, htmlUrl, category }) => ({ url: xmlUrl, title, htmlUrl, category }))
+        .sort((a, b) => a.url.localeCompare(b.url))
+    );
+  });
+});
+
+describe("exportDirectoryOpml and exportSubscriptionsOpml", () => {
+  beforeEach(async () => {
+    await run(store.redis.addFeed(makeFeed("local", [], { title: "Local", category: "Home" })));
+    await run(store.redis.addFeed(makeFeed("mirror", [], { title: "Mirror" })));
+    await run(store.redis.setFeedSource({ feedId: "mirror", url: upstream("mirror"), failureCount: 0 }));
+  });
+
+  test("link feeds served here to their copy and mirrors to their upstream", async () => {
+    const entries = await run(parseOpml(await run(exportDirectoryOpml(origin))));
+
+    expect(entries).toEqual([
+      { url: `${origin}/feeds/local/rss.xml`, title: "Local", htmlUrl: undefined, category: "Home" },
+      { url: upstream("mirror"), title: "Mirror", htmlUrl: undefined, category: undefined },
+    ]);
+  });
+
+  test("an exported subscription list imports back to the same feeds without fetching them", async () => {
+    await run(subscribeFeed("reader", "local"));
+    const exported = await run(exportSubscriptionsOpml("reader", origin));
+    await database.reset();
+    await database.createUser("reader");
+
+    const results = await run(importOpml(reader, exported, { origin, subscribe: true }));
+
+    expect(results).toEqual([
+      { url: `${origin}/feeds/local/rss.xml`, title: "Local", htmlUrl: undefined, category: "Home", status: "duplicate", feedId: "local", subscribed: true },
+    ]);
+    expect((await run(listSubscriptions("reader"))).map(({ feedId }) => feedId)).toEqual(["local"]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("importOpml", () => {
+  test("creates each listed feed from its upstream, in its folder, and keeps it in sync", async () => {
+    const url = upstream("podcast");
+
+    const [result] = await run(importOpml(reader, opml(`<outline text="Audio">${outline(url)}</outline>`), { origin, subscribe: false }));
+
+    const feedId = importedFeedId(url);
+    expect(result).toMatchObject({ url, status: "imported", feedId, subscribed: false });
+    const feed = await run(store.redis.getFeed(feedId, { includeItems: false }));
+    expect(feed?.options).toMatchObject({ title: "Example Podcast", category: "Audio" });
+    expect(await run(store.redis.getFeedSource(feedId))).toMatchObject({ url, failureCount: 0 });
+    expect(await run(store.redis.getFeedAcl(feedId))).toMatchObject({ ownerId: "reader" });
+  });
+
+  test("subscribes to feeds that already exist instead of fetching them again", async () => {
+    const url = upstream("podcast");
+    await run(store.redis.addFeed(makeFeed(importedFeedId(url))));
+
+    const [result] = await run(importOpml(reader, opml(outline(url)), { origin, subscribe: true }));
+
+    expect(result).toMatchObject({ status: "duplicate", subscribed: true });
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect((await run(listSubscriptions("reader"))).map(({ feedId }) => feedId)).toEqual([importedFeedId(url)]);
+  });
+
+  test("reports a feed listed twice once as a duplicate of the first", async () => {
+    const url = upstream("podcast");
+
+    const results = await run(importOpml(reader, opml(`${outline(url)}<outline text="Again">${outline(url)}</outline>`), { origin, subscribe: false }));
+
+    expect(results.map(({ status, error }) => [status, error])).toEqual([
+      ["imported", undefined],
+      ["duplicate", "Listed more than once in this document"],
+    ]);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test("reports failed entries and imports the rest", async () => {
+    const results = await run(importOpml(reader, opml(`
+      ${outline(upstream("broken"))}
+      ${outline(`${origin}/feeds/missing/rss.xml`)}
+      ${outline(upstream("podcast"))}
+    `), { origin, subscribe: true }));
+
+    expect(results.map(({ status, subscribed }) => [status, subscribed])).toEqual([
+      ["failed", false],
+      ["failed", false],
+      ["imported", true],
+    ]);
+    expect(results[0]?.error).toBeString();
+    expect(results[1]?.error).toBe("Feed missing does not exist on this server");
+    expect((await run(listSubscriptions("reader"))).map(({ feedId }) => feedId)).toEqual([importedFeedId(upstream("podcast"))]);
+  });
+
+  test("refuses documents listing too many feeds before fetching any", async () => {
+    const outlines = Array.from({ length: 201 }, (_, index) => outline(upstream(`feed${index}`))).join("");
+
+    const error = await run(Effect.flip(importOpml(reader, opml(outlines), { origin, subscribe: false })));
+
+    expect(error).toBeInstanceOf(OpmlTooLargeError);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  test("rejects documents that aren't OPML", async () => {
+    expect(await run(Effect.flip(importOpml(reader, rss, { origin, subscribe: false })))).toBeInstanceOf(OpmlParseError);
+  });
+});
@@ -0,0 +1,268 @@
+import { Data, Effect } from "effect";
+import { XMLBuilder, XMLParser } from "fast-xml-parser";
+import { FeedId } from "../schemas/feed";
+import type { Principal } from "./api-keys";
+import { importedFeedId, importFeedFromUrl } from "./feed-import";
+import { getFeedLinks } from "./feed-renderer";
+import { getFeed, getFeedIds, getFeedSource } from "./redis";
+import { listSubscriptions, subscribeFeed } from "./subscriptions";
+
+export class OpmlParseError extends Data.TaggedError("OpmlParseError")<{
+  message: string;
+  cause?: unknown;
+}> { }
+
+export class OpmlTooLargeError extends Data.TaggedError("OpmlTooLargeError")<{
+  message: string;
+}> { }
+
+// A feed outline; nested folder outlines become a "/"-separated category
+export type OpmlEntry = {
+  url: string;
+  title?: string;
+  htmlUrl?: string;
+  category?: string;
+};
+
+export type OpmlImportStatus = "imported" | "duplicate" | "failed";
+
+export type OpmlImportResult = OpmlEntry & {
+  status: OpmlImportStatus;
+  feedId?: string;
+  subscribed: boolean;
+  error?: string;
+};
+
+type Node = Record<string, any>;
+
+const IMPORT_CONCURRENCY = 4;
+// Every new feed is fetched while the request waits, so one import can't ask for too many
+const MAX_IMPORT_FEEDS = 200;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: (name) => name === "outline",
+});
+
+const xmlBuilder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  format: true,
+  suppressEmptyNode: true,
+});
+
+// Attribute names are case-insensitive in the wild (xmlUrl, xmlurl, XMLURL)
+const attribute = (node: Node, name: string): string | undefined => {
+  const key = Object.keys(node).find((candidate) => candidate.toLowerCase() === `@_${name.toLowerCase()}`);
+  const value = key ? String(node[key]).trim() : "";
+  return value || undefined;
+};
+
+const collectEntries = (outlines: Node[], folders: string[], entries: OpmlEntry[]) => {
+  for (const outline of outlines) {
+    const url = attribute(outline, "xmlUrl");
+    const title = attribute(outline, "title") ?? attribute(outline, "text");
+
+    if (url) {
+      // The category attribute is only a fallback for feeds outside any folder
+      const categoryAttribute = attribute(outline, "category")?.split(",")[0]?.replace(/^\/+|\/+$/g, "");
+      entries.push({
+        url,
+        title,
+        htmlUrl: attribute(outline, "htmlUrl"),
+        category: folders.length > 0 ? folders.join("/") : categoryAttribute || undefined,
+      });
+    }
+
+    if (Array.isArray(outline.outline)) {
+      collectEntries(outline.outline, url || !title ? folders : [...folders, title], entries);
+    }
+  }
+  return entries;
+};
+
+export const parseOpml = (document: string) =>
+  Effect.try({
+    try: () => {
+      const root = xmlParser.parse(document) as Node;
+      if (!root.opml || typeof root.opml !== "object") {
+        throw new Error("Document is not OPML");
+      }
+      return collectEntries(root.opml.body?.outline ?? [], [], []);
+    },
+    catch: (error) => new OpmlParseError({
+      message: `Failed to parse OPML: ${error instanceof Error ? error.message : "Unknown error"}`,
+      cause: error,
+    }),
+  });
+
+type OutlineFeed = {
+  title: string;
+  xmlUrl: string;
+  htmlUrl?: string;
+  description?: string;
+  category?: string;
+};
+
+type FolderNode = { feeds: OutlineFeed[]; folders: Map<string, FolderNode> };
+
+const feedOutline = (feed: OutlineFeed): Node => ({
+  "@_type": "rss",
+  "@_text": feed.title,
+  "@_title": feed.title,
+  "@_xmlUrl": feed.xmlUrl,
+  "@_htmlUrl": feed.htmlUrl,
+  "@_description": feed.description,
+});
+
+const folderOutlines = (folder: FolderNode): Node[] => [
+  ...[...folder.folders].map(([name, child]) => ({
+    "@_text": name,
+    "@_title": name,
+    outline: folderOutlines(child),
+  })),
+  ...folder.feeds.map(feedOutline),
+];
+
+export const renderOpml = (title: string, feeds: OutlineFeed[]) => {
+  const root: FolderNode = { feeds: [], folders: new Map() };
+
+  for (const feed of feeds) {
+    let folder = root;
+    for (const name of feed.category?.split("/").filter(Boolean) ?? []) {
+      if (!folder.folders.has(name)) {
+        folder.folders.set(name, { feeds: [], folders: new Map() });
+      }
+      folder = folder.folders.get(name)!;
+    }
+    folder.feeds.push(feed);
+  }
+
+  return xmlBuilder.build({
+    "?xml": { "@_version": "1.0", "@_encoding": "UTF-8" },
+    opml: {
+      "@_version": "2.0",
+      head: {
+        title,
+        dateCreated: new Date().toUTCString(),
+      },
+      body: {
+        outline: folderOutlines(root),
+      },
+    },
+  }) as string;
+};
+
+// Mirrored feeds point at their upstream document, everything else at the copy served here
+const outlineFeeds = (feedIds: string[], origin: string) =>
+  Effect.forEach(
+    feedIds,
+    (feedId) => Effect.all([getFeed(feedId, { includeItems: false }), getFeedSource(feedId)]).pipe(
+      Effect.map(([feed, source]): OutlineFeed[] => feed
+        ? [{
+          title: feed.options.title,
+          xmlUrl: source?.url ?? getFeedLinks(origin, feedId).rss,
+          htmlUrl: feed.options.link,
+          description: feed.options.description,
+          category: feed.options.category,
+        }]
+        : []
+      )
+    ),
+    { concurrency: "unbounded" }
+  ).pipe(Effect.map((feeds) => feeds.flat()));
+
+export const exportDirectoryOpml = (origin: string) =>
+  Effect.gen(function* () {
+    const feedIds = yield* getFeedIds();
+    const feeds = yield* outlineFeeds(feedIds.sort(), origin);
+    return renderOpml("Feed directory", feeds);
+  });
+
+export const exportSubscriptionsOpml = (userId: string, origin: string) =>
+  Effect.gen(function* () {
+    const subscriptions = yield* listSubscriptions(userId);
+    const feeds = yield* outlineFeeds(subscriptions.map((subscription) => subscription.feedId), origin);
+    return renderOpml("Subscriptions", feeds);
+  });
+
+// Links to feeds served by this instance resolve to the feed itself rather than a re-import
+const localFeedId = (url: string, origin: string) => {
+  const prefix = `${origin}/feeds/`;
+  if (!url.startsWith(prefix)) {
+    return undefined;
+  }
+  const [encoded, document] = url.slice(prefix.length).split("/");
+  const feedId = FeedId.safeParse(encoded && decodeURIComponent(encoded));
+  return feedId.success && document ? feedId.data : undefined;
+};
+
+const importEntry = (
+  principal: Principal,
+  entry: OpmlEntry,
+  { origin, subscribe }: { origin: string; subscribe: boolean }
+) =>
+  Effect.gen(function* () {
+    const feedId = localFeedId(entry.url, origin) ?? importedFeedId(entry.url);
+    const existing = yield* getFeed(feedId, { includeItems: false });
+
+    let status: OpmlImportStatus = "duplicate";
+    if (!existing) {
+      if (localFeedId(entry.url, origin)) {
+        return yield* Effect.fail(new Error(`Feed ${feedId} does not exist on this server`));
+      }
+      yield* importFeedFromUrl(principal, entry.url, { feedId, category: entry.category });
+      status = "imported";
+    }
+
+    if (subscribe) {
+      yield* subscribeFeed(principal.userId, feedId);
+    }
+
+    return { ...entry, status, feedId, subscribed: subscribe } as OpmlImportResult;
+  }).pipe(
+    Effect.catchAll((error) => Effect.succeed<OpmlImportResult>({
+      ...entry,
+      status: "failed",
+      subscribed: false,
+      error: error.message,
+    }))
+  );
+
+// Creates the listed feeds, or subscribes to them when they already exist, one entry at a time
+// as far as failures go: a bad entry is reported and the rest of the document still imports
+export const importOpml = (
+  principal: Principal,
+  document: string,
+  options: { origin: string; subscribe: boolean }
+) =>
+  Effect.gen(function* () {
+    const entries = yield* parseOpml(document);
+    const firstIndex = new Map<string, number>();
+    entries.forEach((entry, index) => {
+      if (!firstIndex.has(entry.url)) {
+        firstIndex.set(entry.url, index);
+      }
+    });
+    if (firstIndex.size > MAX_IMPORT_FEEDS) {
+      return yield* Effect.fail(new OpmlTooLargeError({
+        message: `The document lists ${firstIndex.size} feeds; import at most ${MAX_IMPORT_FEEDS} at a time`,
+      }));
+    }
+
+    return yield* Effect.forEach(
+      entries,
+      (entry, index) => firstIndex.get(entry.url) === index
+        ? importEntry(principal, entry, options)
+        : Effect.succeed<OpmlImportResult>({
+          ...entry,
+          status: "duplicate",
+          subscribed: false,
+          error: "Listed more than once in this document",
+        }),
+      { concurrency: IMPORT_CONCURRENCY }
+    );
+  });
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RedisClient } from "bun";
+import { Effect } from "effect";
+import type { FeedItem } from "../schemas/feed";
+import type { FeedEvent } from "../schemas/events";
+import { MemoryRedisClient } from "./memory-redis";
+import { makeRedisService, type RedisConnection, type RedisSubscriber } from "./redis";
+import { makeFeed, makeItem } from "./testing";
+
+type Backend = {
+  client: RedisConnection;
+  subscriber: RedisSubscriber;
+  close: () => void;
+};
+
+// The real backend only runs against a server named by REDIS_TEST_URL. Its database is
+// flushed before every test, so never point it at one that matters.
+const backends: Array<[string, (() => Promise<Backend>) | null]> = [
+  ["memory", async () => {
+    const client = new MemoryRedisClient();
+    return { client, subscriber: client, close: () => client.close() };
+  }],
+  ["redis", process.env.REDIS_TEST_URL
+    ? async () => {
+      const client = new RedisClient(process.env.REDIS_TEST_URL);
+      const subscriber = new RedisClient(process.env.REDIS_TEST_URL);
+      await client.send("FLUSHDB", []);
+      return {
+        client,
+        subscriber,
+        close: () => {
+          client.close();
+          subscriber.close();
+        },
+      };
+    }
+    : null],
+];
+
+// Items carry fixed ids so both backends can be asserted on alike
+const item = (n: number, fields: Partial<FeedItem> = {}): FeedItem => makeItem(n, { id: `item-${n}`, ...fields });
+
+for (const [name, connect] of backends) {
+  describe.skipIf(!connect)(`RedisService on ${name}`, () => {
+    let backend: Backend;
+    let redis: ReturnType<typeof makeRedisService>;
+    const run = <A, E>(effect: Effect.Effect<A, E>) => Effect.runPromise(effect);
+
+    beforeEach(async () => {
+      backend = await connect!();
+      redis = makeRedisService(backend.client, backend.subscriber);
+    });
+
+    afterEach(() => {
+      backend.close();
+    });
+
+    test("stores, lists and deletes feeds", async () => {
+      await run(redis.addFeed({ ...makeFeed("a", [item(1)]), categories: ["news"] }));
+      await run(redis.addFeed(makeFeed("b")));
+
+      expect((await run(redis.getFeedIds())).sort()).toEqual(["a", "b"]);
+      expect(await run(redis.getFeed("a"))).toMatchObject({
+        options: { id: "a", title: "Feed a" },
+        categories: ["news"],
+        items: [{ id: "item-1", title: "Item 1" }],
+      });
+      expect((await run(redis.getFeed("a", { includeItems: false })))?.items).toEqual([]);
+
+      await run(redis.deleteFeed("a"));
+      expect(await run(redis.getFeed("a"))).toBeNull();
+      expect(await run(redis.getFeedItem("a", "item-1"))).toBeNull();
+      expect(await run(redis.getFeedIds())).toEqual(["b"]);
+    });
+
+    test("adds, updates and deletes single items", async () => {
+      await run(redis.addFeed(makeFeed("a")));
+
+      const added = await run(redis.addFeedItem("a", item(1)));
+      expect(added).toMatchObject({ itemId: "item-1", duplicate: false });
+
+      expect(await run(redis.updateFeedItem("a", { ...item(1), id: "item-1", title: "Edited" }))).toBe(true);
+      expect(await run(redis.getFeedItem("a", "item-1"))).toMatchObject({ title: "Edited" });
+      expect(await run(redis.updateFeedItem("a", { ...item(2), id: "item-2" }))).toBe(false);
+
+      expect(await run(redis.deleteFeedItem("a", "item-1"))).toBe(true);
+      expect(await run(redis.deleteFeedItem("a", "item-1"))).toBe(false);
+      expect(await run(redis.getFeedItems("a"))).toEqual([]);
+    });
+
+    test("lists items newest first, by insertion and by date, in pages", async () => {
+      await run(redis.addFeed(makeFeed("a")));
+      for (const n of [2, 3, 1]) {
+        await run(redis.addFeedItem("a", item(n)));
+      }
+
+      const read = async (order: "insertion" | "date") => {
+        const ids: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await run(redis.listFeedItems("a", { order, cursor, limit: 2 }));
+          ids.push(...page.items.map((item) => item.id!));
+          cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+        return ids;
+      };
+
+      expect(await read("insertion")).toEqual(["item-1", "item-3", "item-2"]);
+      expect(await read("date")).toEqual(["item-3", "item-2", "item-1"]);
+    });
+
+    test("stores feed sources and settings", async () => {
+      await run(redis.addFeed(makeFeed("a")));
+      await run(redis.setFeedSource({ feedId: "a", url: "https://example.com/feed.xml", etag: "\"1\"", failureCount: 0 }));
+      await run(redis.setFeedSettings("a", { dedup: "link" }));
+
+      expect(await run(redis.getFeedSources())).toEqual([
+        { feedId: "a", url: "https://example.com/feed.xml", etag: "\"1\"", failureCount: 0 },
+      ]);
+      expect(await run(redis.getFeedSettings("a"))).toMatchObject({ dedup: "link" });
+    });
+
+    test("concurrent writers to one feed all land", async () => {
+      await run(redis.addFeed(makeFeed("a")));
+
+      await Promise.all(Array.from({ length: 20 }, (_, index) =>
+        run(redis.addFeedItem("a", item(index + 1)))
+      ));
+
+      const batch = await run(redis.getItemsSince("a", 0, 100));
+      expect(batch.entries.map((entry) => entry.sequence).sort((a, b) => a - b)).toEqual(
+        Array.from({ length: 20 }, (_, index) => index + 1)
+      );
+    });
+
+    test("publishes feed events to subscribers", async () => {
+      const events: FeedEvent[] = [];
+      const unsubscribe = await run(redis.subscribeFeedEvents((event) => events.push(event)));
+
+      await run(redis.addFeed(makeFeed("a")));
+      await run(redis.addFeedItem("a", item(1)));
+      // Delivery is asynchronous on a real connection
+      for (let attempt = 0; attempt < 50 && !events.some((event) => event.type === "items-added"); attempt++) {
+        await Bun.sleep(10);
+      }
+      unsubscribe();
+
+      expect(events).toContainEqual(expect.objectContaining({ type: "items-added", feedId: "a", itemIds: ["item-1"] }));
+    });
+
+    describe("transactions", () => {
+      test("EXEC replies null when a watched key changed", async () => {
+        await backend.client.send("WATCH", ["watched"]);
+        await backend.client.send("SET", ["watched", "changed"]);
+        await backend.client.send("MULTI", []);
+        await backend.client.send("SET", ["other", "1"]);
+
+        expect(await backend.client.send("EXEC", [])).toBeNull();
+        expect(await backend.client.send("GET", ["other"])).toBeNull();
+      });
+
+      test("EXEC runs everything queued when nothing watched changed", async () => {
+        await backend.client.send("WATCH", ["watched"]);
+        await backend.client.send("MULTI", []);
+        await backend.client.send("SET", ["watched", "1"]);
+        await backend.client.send("INCR", ["watched"]);
+
+        expect(await backend.client.send("EXEC", [])).toEqual(["OK", 2]);
+      });
+
+      test("a failing command inside EXEC is an error reply, not a rejection", async () => {
+        await backend.client.send("MULTI", []);
+        await backend.client.send("SET", ["text", "not a number"]);
+        await backend.client.send("INCR", ["text"]);
+
+        const replies = await backend.client.send("EXEC", []) as unknown[];
+        expect(replies[0]).toBe("OK");
+        expect(replies[1]).toBeInstanceOf(Error);
+      });
+    });
+  });
+}
+
+describe("MemoryRedisClient persistence", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "memory-redis-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("closing writes the data out and a new client reads it back", async () => {
+    const file = join(directory, "store.json");
+    const first = new MemoryRedisClient(file);
+    await Effect.runPromise(makeRedisService(first, first).addFeed(makeFeed("a", [item(1)])));
+    first.close();
+
+    const second = new MemoryRedisClient(file);
+    const feed = await Effect.runPromise(makeRedisService(second, second).getFeed("a"));
+    second.close();
+
+    expect(feed?.items.map((item) => item.id)).toEqual(["item-1"]);
+  });
+});
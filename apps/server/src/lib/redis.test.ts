@@ -0,0 +1,360 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { Feed, FeedItem } from "../schemas/feed";
+import { makeRedisService, type RedisConnection } from "./redis";
+import { makeFeed, makeItem, storeLegacyFeed, useMemoryRedis } from "./testing";
+
+const store = useMemoryRedis();
+const { run } = store;
+
+describe("addFeed", () => {
+  test("keeps items added through addFeedItem when the feed is submitted again", async () => {
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1)])));
+    await run(store.redis.addFeedItem("feed", { ...makeItem(2), id: "separate" }));
+
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1)], { title: "Renamed" })));
+
+    const feed = await run(store.redis.getFeed("feed"));
+    expect(feed?.options.title).toBe("Renamed");
+    expect(feed?.items.map((item) => item.guid)).toEqual(["guid-2", "guid-1"]);
+    expect(await run(store.redis.getFeedItem("feed", "separate"))).toMatchObject({ guid: "guid-2" });
+  });
+
+  test("matches resubmitted items by guid or link and keeps their ids", async () => {
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1), makeItem(2, { guid: undefined })])));
+    const before = await run(store.redis.getFeedItems("feed"));
+
+    await run(store.redis.addFeed(makeFeed("feed", [
+      makeItem(1, { id: "ignored", title: "Item 1, corrected" }),
+      makeItem(2, { guid: undefined, description: "Now with a summary" }),
+    ])));
+
+    const after = await run(store.redis.getFeedItems("feed"));
+    expect(after).toHaveLength(2);
+    expect(after.map((item) => item.id).sort()).toEqual(before.map((item) => item.id).sort());
+    const byLink = new Map(after.map((item) => [item.link, item]));
+    expect(byLink.get("https://example.com/1")?.title).toBe("Item 1, corrected");
+    expect(byLink.get("https://example.com/2")).toMatchObject({ title: "Item 2", description: "Now with a summary" });
+  });
+
+  test("only overwrites the fields that were submitted", async () => {
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1, { description: "Kept", copyright: "Kept too" })])));
+
+    await run(store.redis.addFeed(makeFeed("feed", [{ title: "New title", link: "https://example.com/1", date: makeItem(1).date }])));
+
+    const [item] = await run(store.redis.getFeedItems("feed"));
+    expect(item).toMatchObject({ title: "New title", guid: "guid-1", description: "Kept", copyright: "Kept too" });
+  });
+
+  test("appends items it doesn't recognise", async () => {
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1)])));
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(2), makeItem(1)])));
+
+    expect((await run(store.redis.getFeedItems("feed"))).map((item) => item.guid).sort()).toEqual(["guid-1", "guid-2"]);
+  });
+});
+
+describe("replaceFeed", () => {
+  test("drops every existing item, including separately added ones", async () => {
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1)])));
+    await run(store.redis.addFeedItem("feed", { ...makeItem(2), id: "separate" }));
+
+    await run(store.redis.replaceFeed(makeFeed("feed", [makeItem(3)])));
+
+    expect((await run(store.redis.getFeedItems("feed"))).map((item) => item.guid)).toEqual(["guid-3"]);
+    expect(await run(store.redis.getFeedItem("feed", "separate"))).toBeNull();
+    const hits = await run(store.redis.searchFeedItems(["feed"], ["item"]));
+    expect(hits.flatMap((hit) => hit.items).map((item) => item.guid)).toEqual(["guid-3"]);
+  });
+
+  test("leaves no item keys behind", async () => {
+    const itemKeys = async () =>
+      (await store.client.send("SCAN", ["0", "MATCH", "feed:feed:item:*", "COUNT", "1000"]) as [string, string[]])[1];
+
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1), makeItem(2)])));
+    expect(await itemKeys()).toHaveLength(2);
+
+    await run(store.redis.replaceFeed(makeFeed("feed", [])));
+    expect(await itemKeys()).toEqual([]);
+  });
+});
+
+// Commands sent in the same tick go out back to back, so they are counted as one round trip
+const countRoundTrips = (connection: RedisConnection) => {
+  let roundTrips = 0;
+  let inFlight = false;
+  const counted: RedisConnection = {
+    send: (command, args) => {
+      if (!inFlight) {
+        roundTrips++;
+        inFlight = true;
+        queueMicrotask(() => {
+          inFlight = false;
+        });
+      }
+      return connection.send(command, args);
+    },
+    close: () => connection.close(),
+  };
+  return {
+    connection: counted,
+    measure: async <A>(work: () => Promise<A>) => {
+      roundTrips = 0;
+      await work();
+      return roundTrips;
+    },
+  };
+};
+
+// The store as it was before reads were pipelined and writes batched: one command per item
+// key, each awaited in turn. Only what the comparison below needs.
+const perKeyStore = (connection: RedisConnection) => {
+  const readItemIds = async (feedId: string) => [
+    ...await connection.send("ZRANGE", [`feed:${feedId}:items:by-insertion`, "0", "-1", "REV"]) as string[],
+    ...await connection.send("LRANGE", [`feed:${feedId}:items`, "0", "-1"]) as string[],
+  ];
+
+  const readItems = async (feedId: string) => {
+    const items: FeedItem[] = [];
+    for (const itemId of await readItemIds(feedId)) {
+      const data = await connection.send("GET", [`feed:${feedId}:item:${itemId}`]) as string | null ??
+        await connection.send("GET", [`item:${itemId}`]) as string | null;
+      if (data) {
+        items.push(JSON.parse(data));
+      }
+    }
+    return items;
+  };
+
+  return {
+    addFeed: async (feed: Feed) => {
+      const feedId = feed.options.id;
+      await connection.send("SET", [`feed:${feedId}`, JSON.stringify({ ...feed, items: [] })]);
+      await connection.send("SADD", ["feeds:directory", feedId]);
+      const existing = new Set((await readItems(feedId)).map((item) => item.guid));
+
+      for (const item of feed.items) {
+        if (existing.has(item.guid)) {
+          continue;
+        }
+        const itemId = crypto.randomUUID();
+        await connection.send("SET", [`feed:${feedId}:item:${itemId}`, JSON.stringify({ ...item, id: itemId })]);
+        const sequence = await connection.send("INCR", [`feed:${feedId}:item-seq`]) as number;
+        await connection.send("ZADD", [`feed:${feedId}:items:by-insertion`, String(sequence), itemId]);
+        await connection.send("ZADD", [`feed:${feedId}:items:by-date`, String(Date.parse(item.date)), itemId]);
+      }
+    },
+    getFeed: async (feedId: string) => {
+      const data = await connection.send("GET", [`feed:${feedId}`]) as string | null;
+      return data ? { ...JSON.parse(data) as Feed, items: await readItems(feedId) } : null;
+    },
+    getFeedItems: readItems,
+    deleteFeed: async (feedId: string) => {
+      for (const itemId of await readItemIds(feedId)) {
+        await connection.send("DEL", [`feed:${feedId}:item:${itemId}`]);
+        await connection.send("DEL", [`item:${itemId}`]);
+      }
+      await connection.send("DEL", [`feed:${feedId}:items:by-insertion`, `feed:${feedId}:items:by-date`, `feed:${feedId}:item-seq`]);
+      await connection.send("DEL", [`feed:${feedId}`]);
+      await connection.send("SREM", ["feeds:directory", feedId]);
+    },
+  };
+};
+
+describe("round trips", () => {
+  const items = Array.from({ length: 1000 }, (_, index) => makeItem(index + 1));
+
+  // Each operation over the same 1,000-item feed, against the per-key store and the current one
+  const measureAll = async (
+    measure: (work: () => Promise<unknown>) => Promise<number>,
+    feeds: {
+      addFeed: (feed: Feed) => Promise<unknown>;
+      getFeed: (feedId: string) => Promise<unknown>;
+      getFeedItems: (feedId: string) => Promise<unknown>;
+      deleteFeed: (feedId: string) => Promise<unknown>;
+    }
+  ) => ({
+    addFeed: await measure(() => feeds.addFeed(makeFeed("feed", items))),
+    getFeed: await measure(() => feeds.getFeed("feed")),
+    getFeedItems: await measure(() => feeds.getFeedItems("feed")),
+    resubmit: await measure(() => feeds.addFeed(makeFeed("feed", items))),
+    deleteFeed: await measure(() => feeds.deleteFeed("feed")),
+  });
+
+  test("a 1,000-item feed takes a handful of round trips where one per item key took thousands", async () => {
+    const { connection, measure } = countRoundTrips(store.client);
+
+    const before = await measureAll(measure, perKeyStore(connection));
+
+    store.redis = makeRedisService(connection, store.client);
+    const after = await measureAll(measure, {
+      addFeed: (feed) => run(store.redis.addFeed(feed)),
+      getFeed: (feedId) => run(store.redis.getFeed(feedId)),
+      getFeedItems: (feedId) => run(store.redis.getFeedItems(feedId)),
+      deleteFeed: (feedId) => run(store.redis.deleteFeed(feedId)),
+    });
+
+    for (const operation of Object.keys(before) as Array<keyof typeof before>) {
+      expect(before[operation]).toBeGreaterThan(1000);
+      expect(after[operation]).toBeLessThan(before[operation] / 50);
+    }
+  });
+});
+
+describe("concurrent writes", () => {
+  test("a feed update racing item inserts loses none of them", async () => {
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1)])));
+
+    await Promise.all([
+      run(store.redis.addFeed(makeFeed("feed", [makeItem(1, { title: "Updated" }), makeItem(2)]))),
+      ...[3, 4, 5].map((n) => run(store.redis.addFeedItem("feed", makeItem(n)))),
+      run(store.redis.addFeed(makeFeed("feed", [makeItem(6)], { title: "Renamed" }))),
+    ]);
+
+    const feed = await run(store.redis.getFeed("feed"));
+    expect(feed?.options.title).toBe("Renamed");
+    expect(feed?.items.map((item) => item.guid).sort()).toEqual(["guid-1", "guid-2", "guid-3", "guid-4", "guid-5", "guid-6"]);
+    expect(feed?.items.find((item) => item.guid === "guid-1")?.title).toBe("Updated");
+  });
+
+  test("a write that conflicts with another connection is planned again", async () => {
+    await run(store.redis.addFeed(makeFeed("feed", [])));
+    const send = store.client.send.bind(store.client);
+    let interfered = false;
+
+    // Another client bumps the feed's revision right after this one starts watching it
+    const racing: RedisConnection = {
+      send: async (command, args) => {
+        const reply = await send(command, args);
+        if (command === "WATCH" && !interfered) {
+          interfered = true;
+          await send("INCR", ["feed:feed:revision"]);
+        }
+        return reply;
+      },
+      close: () => store.client.close(),
+    };
+    store.redis = makeRedisService(racing, store.client);
+
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1)])));
+
+    expect(interfered).toBe(true);
+    expect((await run(store.redis.getFeedItems("feed"))).map((item) => item.guid)).toEqual(["guid-1"]);
+  });
+});
+
+describe("deduplication", () => {
+  beforeEach(async () => {
+    await run(store.redis.addFeed(makeFeed("feed", [])));
+  });
+
+  test("returns the stored item's id instead of inserting a copy with the same guid", async () => {
+    const first = await run(store.redis.addFeedItem("feed", makeItem(1)));
+    const again = await run(store.redis.addFeedItem("feed", makeItem(1, { id: "fresh-uuid", title: "Reposted" })));
+
+    expect(first.duplicate).toBe(false);
+    expect(again).toEqual({ itemId: first.itemId, duplicate: true });
+    expect(await run(store.redis.getFeedItems("feed"))).toHaveLength(1);
+    expect(await run(store.redis.getFeedItem("feed", "fresh-uuid"))).toBeNull();
+  });
+
+  test("matches items without a guid by canonical link", async () => {
+    const first = await run(store.redis.addFeedItem("feed", makeItem(1, { guid: undefined })));
+    const again = await run(store.redis.addFeedItem("feed", makeItem(1, {
+      guid: undefined,
+      link: "https://EXAMPLE.com/1/?utm_source=newsletter#top",
+    })));
+
+    expect(again).toEqual({ itemId: first.itemId, duplicate: true });
+  });
+
+  test("uses the strategy set for the feed", async () => {
+    await run(store.redis.setFeedSettings("feed", { dedup: "content" }));
+    const first = await run(store.redis.addFeedItem("feed", makeItem(1, { content: "<p>Same body</p>" })));
+    const again = await run(store.redis.addFeedItem("feed", makeItem(2, { title: "Item 1", content: "same body" })));
+    expect(again).toEqual({ itemId: first.itemId, duplicate: true });
+
+    await run(store.redis.setFeedSettings("feed", { dedup: "off" }));
+    expect((await run(store.redis.addFeedItem("feed", makeItem(1)))).duplicate).toBe(false);
+  });
+
+  test("a deleted item no longer counts, and its copy takes the key over", async () => {
+    const first = await run(store.redis.addFeedItem("feed", makeItem(1)));
+    await run(store.redis.deleteFeedItem("feed", first.itemId));
+
+    const again = await run(store.redis.addFeedItem("feed", makeItem(1, { id: "replacement" })));
+    expect(again).toEqual({ itemId: "replacement", duplicate: false });
+    expect(await run(store.redis.findDuplicateItem("feed", makeItem(1)))).toBe("replacement");
+  });
+
+  test("concurrent copies of one item are stored once", async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, (_, index) =>
+      run(store.redis.addFeedItem("feed", makeItem(1, { id: `copy-${index}` })))
+    ));
+
+    expect(results.filter((result) => !result.duplicate)).toHaveLength(1);
+    expect(new Set(results.map((result) => result.itemId)).size).toBe(1);
+    expect(await run(store.redis.getFeedItems("feed"))).toHaveLength(1);
+  });
+
+  test("an edit that changes the guid frees the old one", async () => {
+    await run(store.redis.addFeedItem("feed", makeItem(1, { id: "edited" })));
+    await run(store.redis.updateFeedItem("feed", { ...makeItem(1, { guid: "guid-renamed" }), id: "edited" }));
+
+    expect(await run(store.redis.findDuplicateItem("feed", makeItem(1, { link: "https://example.com/other" })))).toBeNull();
+    expect(await run(store.redis.findDuplicateItem("feed", makeItem(9, { guid: "guid-renamed" })))).toBe("edited");
+  });
+});
+
+describe("migrateItemIndexes", () => {
+  const legacyItems = [1, 2, 3].map((n) => makeItem(n, { id: `item-${n}` }));
+
+  const migrate = async () => {
+    await run(store.redis.migrateItemKeys());
+    return await run(store.redis.migrateItemIndexes());
+  };
+
+  const sequences = async () =>
+    (await run(store.redis.getItemsSince("feed", 0, 100))).entries.map(({ sequence, item }) => [item.id, sequence]);
+
+  test("moves the legacy list into the insertion and date indexes, oldest first", async () => {
+    await storeLegacyFeed(store.client, makeFeed("feed", legacyItems));
+
+    expect(await migrate()).toBe(3);
+
+    expect(await sequences()).toEqual([["item-1", 1], ["item-2", 2], ["item-3", 3]]);
+    expect(await store.client.send("ZRANGE", ["feed:feed:items:by-date", "0", "-1", "REV"])).toEqual(["item-3", "item-2", "item-1"]);
+    expect(await store.client.send("LLEN", ["feed:feed:items"])).toBe(0);
+    expect((await run(store.redis.getFeedItems("feed"))).map((item) => item.id)).toEqual(["item-3", "item-2", "item-1"]);
+
+    // New items carry on from the legacy ones
+    await run(store.redis.addFeedItem("feed", makeItem(4, { id: "item-4" })));
+    expect((await sequences()).at(-1)).toEqual(["item-4", 4]);
+  });
+
+  test("records that it ran, and does nothing the next time", async () => {
+    await storeLegacyFeed(store.client, makeFeed("feed", legacyItems));
+    await migrate();
+    expect(await store.client.send("GET", ["migrations:item-indexes"])).toBeTruthy();
+
+    await store.client.send("LPUSH", ["feed:feed:items", "item-1"]);
+    expect(await run(store.redis.migrateItemIndexes())).toBe(0);
+    expect(await store.client.send("LLEN", ["feed:feed:items"])).toBe(1);
+    expect(await sequences()).toEqual([["item-1", 1], ["item-2", 2], ["item-3", 3]]);
+  });
+
+  test("items written since the upgrade move up past the legacy ones", async () => {
+    await storeLegacyFeed(store.client, makeFeed("feed", legacyItems.slice(0, 2)));
+    await run(store.redis.addFeedItem("feed", makeItem(5, { id: "raced" })));
+
+    expect(await migrate()).toBe(2);
+
+    expect(await sequences()).toEqual([["item-1", 1], ["item-2", 2], ["raced", 3]]);
+  });
+
+  test("feeds without a legacy list are left alone", async () => {
+    await run(store.redis.addFeed(makeFeed("feed", [makeItem(1)])));
+
+    expect(await migrate()).toBe(0);
+    expect((await sequences()).map(([, sequence]) => sequence)).toEqual([1]);
+  });
+});
@@ -1,206 +1,1727 @@
 import { RedisClient } from "bun";
 import { Context, Data, Effect, Layer } from "effect";
 import { Feed, FeedItem } from "../schemas/feed";
+import { FeedAcl } from "../schemas/acl";
+import { FeedEvent } from "../schemas/events";
+import { FeedSettings, type RetentionPolicy } from "../schemas/settings";
+import { FeedSource } from "../schemas/source";
+import { Submission, SubmissionStatus } from "../schemas/submission";
+import { MemoryRedisClient } from "./memory-redis";
+import { sanitizeItemContent } from "./html-sanitizer";
+import { dedupKey, itemDedupKeys, type DedupKey } from "./item-identity";
+import { itemTerms } from "./search-index";
 
 export class RedisError extends Data.TaggedError("RedisError")<{
   message: string;
   cause?: unknown;
 }> { }
 
+// Items are namespaced by feed so an item id can only be resolved through the feed it belongs to
+const itemKey = (feedId: string, itemId: string) => `feed:${feedId}:item:${itemId}`;
+
+// Pre-namespacing layout, still read as a fallback until migrateItemKeys has run
+const legacyItemKey = (itemId: string) => `item:${itemId}`;
+
+// Item indexes: insertion order (scored by a per-feed sequence) and item date (scored by epoch ms)
+const insertedIndexKey = (feedId: string) => `feed:${feedId}:items:by-insertion`;
+const datedIndexKey = (feedId: string) => `feed:${feedId}:items:by-date`;
+const sequenceKey = (feedId: string) => `feed:${feedId}:item-seq`;
+
+// Bumped by every write to a feed's items, so a transaction watching it is retried if another
+// write to the feed lands between its reads and its EXEC
+const revisionKey = (feedId: string) => `feed:${feedId}:revision`;
+
+// Pre-index layout: a plain list of item ids, newest first, until migrateItemIndexes has run
+const legacyItemListKey = (feedId: string) => `feed:${feedId}:items`;
+
+const itemDateScore = (item: FeedItem) => {
+  const time = Date.parse(item.date);
+  return Number.isNaN(time) ? 0 : time;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Items dated before this have aged out of a policy's window, or null when age doesn't matter
+const retentionCutoff = (policy: RetentionPolicy, now: number) =>
+  policy.maxAgeDays === undefined ? null : now - policy.maxAgeDays * DAY_MS;
+
+// The oldest position in the date index still inside a feed's live window; without an item id,
+// every item at that score is inside
+type LiveBound = { score: number; itemId?: string };
+
+// What readers see of a feed between retention runs: items past the policy's limits are
+// hidden before the trim job gets to them. A null bound hides nothing.
+const isLive = (bound: LiveBound | null, item: FeedItem) => {
+  if (!bound) {
+    return true;
+  }
+  const score = itemDateScore(item);
+  return score > bound.score ||
+    (score === bound.score && (bound.itemId === undefined || (item.id ?? "") >= bound.itemId));
+};
+
+// Moderation queue: one record per submitted item plus a newest-first index per status
+const submissionKey = (feedId: string, itemId: string) => `feed:${feedId}:submission:${itemId}`;
+const submissionIndexKey = (feedId: string, status: SubmissionStatus) => `feed:${feedId}:submissions:${status}`;
+
+// Search: one set of item ids per term, plus the set of terms the feed has ever indexed so
+// the postings can be dropped along with the feed's items
+const searchTermKey = (feedId: string, term: string) => `feed:${feedId}:search:${term}`;
+const searchTermsKey = (feedId: string) => `feed:${feedId}:search-terms`;
+
+// Duplicate detection: each key an item can be recognised by (see itemDedupKeys) points at the
+// first item stored with it, plus the set of keys ever written so they can be dropped with the feed
+const dedupEntryKey = (feedId: string, key: DedupKey) => `feed:${feedId}:dedup:${key}`;
+const dedupKeysKey = (feedId: string) => `feed:${feedId}:dedup-keys`;
+
+const settingsKey = (feedId: string) => `feed:${feedId}:settings`;
+
+// Every write publishes a FeedEvent here, inside the transaction that makes the change
+const feedEventsChannel = "feed-events";
+
+type RedisCommand = [command: string, args: string[]];
+
+export type FeedItemOrder = "date" | "insertion";
+
+// Items in insertion order with their sequence numbers. `after` is the sequence actually read
+// from, which is 0 when the requested one is past the end because the feed was recreated.
+export type ItemsSinceBatch = {
+  after: number;
+  // The feed's last insertion sequence, how far a consumer can get
+  latest: number;
+  // Items outside the live window are listed with `live` false so consumers can move past them
+  entries: Array<{ sequence: number; item: FeedItem; live: boolean }>;
+  // The sequence of the last index entry read, where the next batch continues from; entries
+  // whose item has gone are read past without being listed
+  next: number;
+  hasMore: boolean;
+};
+
+export type FeedItemPage = {
+  items: FeedItem[];
+  nextCursor: string | null;
+};
+
+// A place in a feed's date index. Without an item id it stands after every item at that score.
+export type DatePosition = { score: number; itemId?: string };
+
+export type DatedItemBatch = {
+  items: FeedItem[];
+  // Where to continue from, or null once the range is exhausted
+  next: DatePosition | null;
+};
+
+export type AddedFeedItem = {
+  itemId: string;
+  duplicate: boolean;
+};
+
+export type FeedSearchHits = {
+  feedId: string;
+  items: FeedItem[];
+};
+
 export class RedisService extends Context.Tag("RedisService")<
   RedisService,
   {
     readonly addFeed: (feed: Feed) => Effect.Effect<string, RedisError>;
-    readonly getFeed: (feedId: string) => Effect.Effect<Feed | null, RedisError>;
+    readonly replaceFeed: (feed: Feed) => Effect.Effect<string, RedisError>;
+    readonly getFeed: (feedId: string, options?: { includeItems?: boolean }) => Effect.Effect<Feed | null, RedisError>;
     readonly getFeeds: () => Effect.Effect<Feed[], RedisError>;
+    readonly getFeedIds: () => Effect.Effect<string[], RedisError>;
     readonly deleteFeed: (feedId: string) => Effect.Effect<void, RedisError>;
-    readonly addFeedItem: (feedId: string, item: FeedItem) => Effect.Effect<string, RedisError>;
+    readonly addFeedItem: (feedId: string, item: FeedItem) => Effect.Effect<AddedFeedItem, RedisError>;
+    readonly findDuplicateItem: (feedId: string, item: FeedItem) => Effect.Effect<string | null, RedisError>;
+    readonly updateFeedItem: (feedId: string, item: FeedItem & { id: string }) => Effect.Effect<boolean, RedisError>;
+    readonly deleteFeedItem: (feedId: string, itemId: string) => Effect.Effect<boolean, RedisError>;
+    readonly getExpiredItems: (
+      feedId: string,
+      policy: RetentionPolicy,
+      limit: number
+    ) => Effect.Effect<(FeedItem & { id: string })[], RedisError>;
+    readonly removeFeedItems: (feedId: string, itemIds: string[]) => Effect.Effect<number, RedisError>;
     readonly getFeedItems: (feedId: string) => Effect.Effect<FeedItem[], RedisError>;
+    readonly getItemsByDate: (
+      feedId: string,
+      options: { from: number; to: number | DatePosition; limit: number }
+    ) => Effect.Effect<DatedItemBatch, RedisError>;
+    readonly getMatchingItemsByDate: (
+      feedId: string,
+      terms: string[],
+      options: { from: number; to: number | DatePosition; limit: number }
+    ) => Effect.Effect<DatedItemBatch, RedisError>;
+    readonly getItemsSince: (
+      feedId: string,
+      after: number,
+      limit: number
+    ) => Effect.Effect<ItemsSinceBatch, RedisError>;
     readonly getFeedItem: (feedId: string, itemId: string) => Effect.Effect<FeedItem | null, RedisError>;
+    readonly getFeedItemsById: (
+      refs: Array<{ feedId: string; itemId: string }>
+    ) => Effect.Effect<(FeedItem | null)[], RedisError>;
+    readonly listFeedItems: (
+      feedId: string,
+      options: { order: FeedItemOrder; cursor?: string; limit: number }
+    ) => Effect.Effect<FeedItemPage, RedisError>;
+    readonly getFeedSettings: (feedId: string) => Effect.Effect<FeedSettings, RedisError>;
+    readonly setFeedSettings: (feedId: string, settings: FeedSettings) => Effect.Effect<void, RedisError>;
+    readonly setFeedSource: (source: FeedSource) => Effect.Effect<void, RedisError>;
+    readonly getFeedSource: (feedId: string) => Effect.Effect<FeedSource | null, RedisError>;
+    readonly getFeedSources: () => Effect.Effect<FeedSource[], RedisError>;
+    readonly getFeedAcl: (feedId: string) => Effect.Effect<FeedAcl | null, RedisError>;
+    readonly setFeedAcl: (acl: FeedAcl) => Effect.Effect<void, RedisError>;
+    readonly claimFeedAcl: (acl: FeedAcl) => Effect.Effect<boolean, RedisError>;
+    readonly releaseFeedAcl: (acl: FeedAcl) => Effect.Effect<boolean, RedisError>;
+    readonly replaceFeedAcl: (current: FeedAcl, updated: FeedAcl) => Effect.Effect<boolean, RedisError>;
+    readonly getFeedAcls: (feedIds: string[]) => Effect.Effect<(FeedAcl | null)[], RedisError>;
+    readonly setSubmission: (submission: Submission) => Effect.Effect<void, RedisError>;
+    readonly setSubmissions: (submissions: Submission[]) => Effect.Effect<void, RedisError>;
+    readonly transitionSubmission: (
+      submission: Submission,
+      from: SubmissionStatus
+    ) => Effect.Effect<boolean, RedisError>;
+    readonly getSubmission: (feedId: string, itemId: string) => Effect.Effect<Submission | null, RedisError>;
+    readonly listSubmissions: (
+      feedId: string,
+      options: { status: SubmissionStatus; limit: number }
+    ) => Effect.Effect<Submission[], RedisError>;
+    readonly searchFeedItems: (feedIds: string[], terms: string[]) => Effect.Effect<FeedSearchHits[], RedisError>;
+    readonly migrateItemKeys: () => Effect.Effect<number, RedisError>;
+    readonly migrateItemIndexes: () => Effect.Effect<number, RedisError>;
+    readonly migrateSearchIndex: () => Effect.Effect<number, RedisError>;
+    readonly migrateDedupIndex: () => Effect.Effect<number, RedisError>;
+    readonly migrateSanitizedContent: () => Effect.Effect<number, RedisError>;
+    readonly subscribeFeedEvents: (listener: (event: FeedEvent) => void) => Effect.Effect<() => void, RedisError>;
     readonly disconnect: () => Effect.Effect<void, never>;
   }
 >() { }
 
-export const RedisServiceLive = Layer.effect(
-  RedisService,
-  Effect.gen(function* () {
-    const client = new RedisClient(
-      process.env.REDIS_URL || "redis://localhost:6379"
-    );
+// The subset of Bun's RedisClient the service relies on, so other command backends can stand in
+export type RedisConnection = {
+  // Reply shapes depend on the command, so callers narrow them
+  send: (command: string, args: string[]) => Promise<unknown>;
+  close: () => void;
+};
 
-    const addFeed = (feed: Feed) =>
-      Effect.tryPromise({
-        try: async () => {
-          const feedId = feed.options.id;
+// A subscribed connection can't run other commands, so events are received on a separate one
+export type RedisSubscriber = {
+  subscribe: (channel: string, listener: (message: string, channel: string) => void) => Promise<unknown>;
+  unsubscribe: (channel: string, listener: (message: string, channel: string) => void) => Promise<unknown>;
+  close: () => void;
+};
 
-          // Check if feed exists to determine if this is an update
-          const existingFeed = await client.get(`feed:${feedId}`);
+export const makeRedisService = (
+  client: RedisConnection,
+  subscriber?: RedisSubscriber
+): Context.Tag.Service<RedisService> => {
+  // Commands sent in the same tick are written back to back on the connection,
+  // so a pipeline costs a single round trip
+  const pipeline = (commands: RedisCommand[]) =>
+    Promise.all(commands.map(([command, args]) => client.send(command, args)));
 
-          if (existingFeed) {
-            // Update existing feed: clear old items first
-            const oldItemIds = await client.send("LRANGE", [`feed:${feedId}:items`, "0", "-1"]) as string[];
+  // WATCH and MULTI are state of the connection, which every caller shares, so transactions
+  // take turns on it. Other commands keep going out as they come.
+  let turn: Promise<unknown> = Promise.resolve();
+  const exclusive = <A>(run: () => Promise<A>) => {
+    const result = turn.then(run);
+    turn = result.catch(() => undefined);
+    return result;
+  };
 
-            // Delete old items
-            for (const itemId of oldItemIds) {
-              await client.del(`item:${itemId}`);
-            }
+  // MULTI/EXEC is queued in one tick, so no other caller's command can land inside it. Resolves
+  // to null when a watched key changed and nothing ran; a command that failed inside is raised.
+  const exec = async (commands: RedisCommand[]) => {
+    const replies = await pipeline([["MULTI", []], ...commands, ["EXEC", []]]);
+    const results = replies[replies.length - 1] as unknown[] | null;
+    const failed = results?.find((reply) => reply instanceof Error);
+    if (failed) {
+      throw failed;
+    }
+    return results;
+  };
+
+  const transaction = (commands: RedisCommand[]) =>
+    commands.length === 0
+      ? Promise.resolve([])
+      : exclusive(async () => {
+        const results = await exec(commands);
+        if (!results) {
+          throw new Error("Transaction was aborted");
+        }
+        return results;
+      });
+
+  const WATCH_ATTEMPTS = 10;
+
+  // Optimistic transaction: `plan` watches the keys its writes depend on before reading them, and
+  // is planned again from fresh reads when one of them changed before the writes went in.
+  // It must not start transactions of its own.
+  const watchedTransaction = <A>(
+    plan: (watch: (...keys: string[]) => Promise<void>) => Promise<{ commands: RedisCommand[]; result: A }>
+  ) =>
+    exclusive(async () => {
+      const watch = async (...keys: string[]) => {
+        await client.send("WATCH", keys);
+      };
 
-            // Clear the items list
-            await client.del(`feed:${feedId}:items`);
+      for (let attempt = 0; attempt < WATCH_ATTEMPTS; attempt++) {
+        try {
+          const { commands, result } = await plan(watch);
+          if (commands.length === 0 || await exec(commands)) {
+            return result;
           }
+        } finally {
+          // EXEC has already dropped the watches unless planning failed or wrote nothing
+          await client.send("UNWATCH", []);
+        }
+      }
+      throw new Error(`Transaction still conflicting after ${WATCH_ATTEMPTS} attempts`);
+    });
+
+  const bumpRevisionCommand = (feedId: string): RedisCommand => ["INCR", [revisionKey(feedId)]];
+
+  const mget = async (keys: string[]) =>
+    keys.length > 0 ? await client.send("MGET", keys) as (string | null)[] : [];
+
+  // The feed's last insertion sequence. Writers read it under WATCH and store the next one in
+  // the transaction that indexes their items, so sequences are committed in order: a reader
+  // that has seen sequence N can't later find an item below N appear.
+  const readSequence = async (feedId: string) =>
+    Number(await client.send("GET", [sequenceKey(feedId)])) || 0;
+
+  // The `limit` members after (score, member) in descending order, as a REV ZRANGE lists them:
+  // lower scores, and on the same score lower members. Paging by position instead would skip
+  // or repeat members when the set changes between pages.
+  const zrangeAfter = async (key: string, score: string, member: string, limit: number) => {
+    const members: string[] = [];
+
+    for (let offset = 0; members.length < limit; offset += limit) {
+      const tied = await client.send("ZRANGE", [key, score, score, "BYSCORE", "REV", "LIMIT", String(offset), String(limit)]) as string[];
+      members.push(...tied.filter((other) => other < member));
+      if (tied.length < limit) {
+        break;
+      }
+    }
+
+    if (members.length < limit) {
+      members.push(...await client.send("ZRANGE", [
+        key, `(${score}`, "-inf", "BYSCORE", "REV", "LIMIT", "0", String(limit - members.length),
+      ]) as string[]);
+    }
+    return members.slice(0, limit);
+  };
+
+  const publishCommand = (event: FeedEvent): RedisCommand =>
+    ["PUBLISH", [feedEventsChannel, JSON.stringify(event)]];
+
+  // The sanitised HTML is derived again from the raw fields on every write
+  const storeItemCommand = (feedId: string, item: FeedItem & { id: string }): RedisCommand =>
+    ["SET", [itemKey(feedId, item.id), JSON.stringify({ ...item, sanitized: sanitizeItemContent(item) })]];
+
+  const indexItemCommands = (feedId: string, item: FeedItem & { id: string }, sequence: number): RedisCommand[] => [
+    ["ZADD", [insertedIndexKey(feedId), String(sequence), item.id]],
+    ["ZADD", [datedIndexKey(feedId), String(itemDateScore(item)), item.id]],
+  ];
+
+  // Adds the item to the postings of its terms, and drops it from those only `previous` had
+  const indexSearchCommands = (feedId: string, item: FeedItem & { id: string }, previous?: FeedItem): RedisCommand[] => {
+    const terms = itemTerms(item);
+    const staleTerms = previous ? [...itemTerms(previous)].filter((term) => !terms.has(term)) : [];
 
-          // Store the complete feed (overwrites if exists)
-          await client.set(`feed:${feedId}`, JSON.stringify(feed));
+    return [
+      ...staleTerms.map((term): RedisCommand => ["SREM", [searchTermKey(feedId, term), item.id]]),
+      ...[...terms].map((term): RedisCommand => ["SADD", [searchTermKey(feedId, term), item.id]]),
+      ...(terms.size > 0 ? [["SADD", [searchTermsKey(feedId), ...terms]] as RedisCommand] : []),
+    ];
+  };
 
-          // Add to feeds directory (SADD handles duplicates)
-          await client.send("SADD", ["feeds:directory", feedId]);
+  const readSearchTerms = async (feedId: string) =>
+    await client.send("SMEMBERS", [searchTermsKey(feedId)]) as string[];
+
+  const readSettings = async (feedId: string) => {
+    const data = await client.send("GET", [settingsKey(feedId)]) as string | null;
+    return FeedSettings.parse(data ? JSON.parse(data) : {});
+  };
+
+  // Ranks items by the date index like the trim job does, so what is hidden is what it removes next
+  const readLiveBound = async (feedId: string, settings?: FeedSettings): Promise<LiveBound | null> => {
+    const policy = (settings ?? await readSettings(feedId)).retention;
+    if (!policy) {
+      return null;
+    }
+
+    const cutoff = retentionCutoff(policy, Date.now());
+    const ageBound = cutoff === null ? null : { score: cutoff };
+    if (policy.maxItems === undefined) {
+      return ageBound;
+    }
+
+    const rank = String(policy.maxItems - 1);
+    const [itemId] = await client.send("ZRANGE", [datedIndexKey(feedId), rank, rank, "REV"]) as string[];
+    if (!itemId) {
+      return ageBound;
+    }
+    const score = Number(await client.send("ZSCORE", [datedIndexKey(feedId), itemId]));
+    return ageBound && ageBound.score > score ? ageBound : { score, itemId };
+  };
+
+  const readLiveItems = async (feedId: string, itemIds: string[]) => {
+    const [items, bound] = await Promise.all([readItems(feedId, itemIds), readLiveBound(feedId)]);
+    return items.filter((item) => isLive(bound, item));
+  };
+
+  // The first item stored under a key keeps it
+  const indexDedupCommands = (feedId: string, item: FeedItem & { id: string }): RedisCommand[] => {
+    const keys = itemDedupKeys(item);
+    return [
+      ...keys.map((key): RedisCommand => ["SET", [dedupEntryKey(feedId, key), item.id, "NX"]]),
+      ["SADD", [dedupKeysKey(feedId), ...keys]],
+    ];
+  };
+
+  // Releases the keys `previous` was recognised by that still point at it and `item` no longer has
+  const unindexDedupCommands = async (feedId: string, previous: FeedItem & { id: string }, item?: FeedItem) => {
+    const current = new Set(item ? itemDedupKeys(item) : []);
+    const keys = itemDedupKeys(previous).filter((key) => !current.has(key));
+    const owners = await mget(keys.map((key) => dedupEntryKey(feedId, key)));
+    const owned = keys.filter((_, index) => owners[index] === previous.id);
+    return owned.length > 0 ? [["DEL", owned.map((key) => dedupEntryKey(feedId, key))] as RedisCommand] : [];
+  };
+
+  const readDedupKeys = async (feedId: string) =>
+    await client.send("SMEMBERS", [dedupKeysKey(feedId)]) as DedupKey[];
+
+  // The stored item an incoming one duplicates under the feed's strategy. Keys left behind by
+  // an item that is gone don't count.
+  const readDuplicateId = async (feedId: string, item: FeedItem, settings: FeedSettings) => {
+    const key = dedupKey(item, settings.dedup);
+    if (!key) {
+      return null;
+    }
+    const existingId = await client.send("GET", [dedupEntryKey(feedId, key)]) as string | null;
+    if (!existingId || !(await client.send("EXISTS", [itemKey(feedId, existingId)]))) {
+      return null;
+    }
+    return existingId;
+  };
+
+  const mergeIds = (indexedIds: string[], legacyIds: string[]) => {
+    const indexed = new Set(indexedIds);
+    return [...indexedIds, ...legacyIds.filter((itemId) => !indexed.has(itemId))];
+  };
+
+  const itemIdsCommands = (feedId: string): RedisCommand[] => [
+    ["ZRANGE", [insertedIndexKey(feedId), "0", "-1", "REV"]],
+    ["LRANGE", [legacyItemListKey(feedId), "0", "-1"]],
+  ];
+
+  // Newest first, including ids still only listed in the legacy list
+  const readItemIds = async (feedId: string) => {
+    const [indexedIds, legacyIds] = await pipeline(itemIdsCommands(feedId)) as [string[], string[]];
+    return mergeIds(indexedIds, legacyIds);
+  };
+
+  // Raw item JSON in the order requested, falling back to legacy keys for unmigrated items
+  const readItemData = async (feedId: string, itemIds: string[]) => {
+    const itemData = await mget(itemIds.map((itemId) => itemKey(feedId, itemId)));
+    const missing = itemIds.filter((_, index) => !itemData[index]);
+
+    if (missing.length > 0) {
+      const legacyData = await mget(missing.map(legacyItemKey));
+      const legacyById = new Map(missing.map((itemId, index) => [itemId, legacyData[index]]));
+      return itemIds.map((itemId, index) => itemData[index] ?? legacyById.get(itemId) ?? null);
+    }
+
+    return itemData;
+  };
+
+  const readItems = async (feedId: string, itemIds: string[]) => {
+    const itemData = await readItemData(feedId, itemIds);
+    return itemData
+      .filter((data): data is string => !!data)
+      .map((data) => JSON.parse(data) as FeedItem);
+  };
+
+  // Every stored item, including those past the live window that writers still match against
+  const readFeedItems = async (feedId: string) =>
+    readItems(feedId, await readItemIds(feedId));
+
+  const deleteFeedItemsCommands = (
+    feedId: string,
+    itemIds: string[],
+    searchTerms: string[],
+    dedupKeys: DedupKey[]
+  ): RedisCommand[] => [
+    ["DEL", [
+      ...itemIds.flatMap((itemId) => [itemKey(feedId, itemId), legacyItemKey(itemId)]),
+      insertedIndexKey(feedId),
+      datedIndexKey(feedId),
+      sequenceKey(feedId),
+      revisionKey(feedId),
+      legacyItemListKey(feedId),
+      ...searchTerms.map((term) => searchTermKey(feedId, term)),
+      searchTermsKey(feedId),
+      ...dedupKeys.map((key) => dedupEntryKey(feedId, key)),
+      dedupKeysKey(feedId),
+    ]],
+  ];
+
+  // Takes one item out of every index it is in
+  const removeItemCommands = async (feedId: string, item: FeedItem & { id: string }): Promise<RedisCommand[]> => [
+    ["DEL", [itemKey(feedId, item.id), legacyItemKey(item.id)]],
+    ...await unindexDedupCommands(feedId, item),
+    ["ZREM", [insertedIndexKey(feedId), item.id]],
+    ["ZREM", [datedIndexKey(feedId), item.id]],
+    ["LREM", [legacyItemListKey(feedId), "0", item.id]],
+    ...[...itemTerms(item)].map(
+      (term): RedisCommand => ["SREM", [searchTermKey(feedId, term), item.id]]
+    ),
+  ];
+
+  // Feed metadata is stored without items, which live in the feed's item indexes
+  const writeFeedMetadataCommands = (feed: Feed): RedisCommand[] => [
+    ["SET", [`feed:${feed.options.id}`, JSON.stringify({ ...feed, items: [] })]],
+    // Add to feeds directory (SADD handles duplicates)
+    ["SADD", ["feeds:directory", feed.options.id]],
+  ];
+
+  // Stamps FeedOptions.updated on the stored metadata after an item-level change
+  const touchFeedCommands = (feedData: string, updated: string): RedisCommand[] => {
+    const feed = JSON.parse(feedData) as Feed;
+    return [["SET", [`feed:${feed.options.id}`, JSON.stringify({ ...feed, options: { ...feed.options, updated } })]]];
+  };
+
+  // A few round trips however many feeds and items are read. Items are limited to each feed's
+  // live window.
+  const readFeeds = async (feedIds: string[], includeItems: boolean) => {
+    const feedData = await mget(feedIds.map((feedId) => `feed:${feedId}`));
+    const found = feedIds
+      .map((feedId, index) => ({ feedId, data: feedData[index] }))
+      .filter((entry): entry is { feedId: string; data: string } => !!entry.data);
+
+    const feeds = found.map(({ data }) => JSON.parse(data) as Feed);
+    if (!includeItems || found.length === 0) {
+      return feeds;
+    }
+
+    const replies = await pipeline(found.flatMap(({ feedId }): RedisCommand[] => [
+      ...itemIdsCommands(feedId),
+      ["GET", [settingsKey(feedId)]],
+    ]));
+    const itemIdsByFeed = found.map((_, index) =>
+      mergeIds((replies[index * 3] ?? []) as string[], (replies[index * 3 + 1] ?? []) as string[])
+    );
+    const settingsByFeed = found.map((_, index) => {
+      const data = replies[index * 3 + 2] as string | null;
+      return FeedSettings.parse(data ? JSON.parse(data) : {});
+    });
+
+    const [itemData, bounds] = await Promise.all([
+      Promise.all(found.map(({ feedId }, index) => readItemData(feedId, itemIdsByFeed[index] ?? []))),
+      Promise.all(found.map(({ feedId }, index) => readLiveBound(feedId, settingsByFeed[index]))),
+    ]);
+
+    return feeds.map((feed, index) => ({
+      ...feed,
+      items: (itemData[index] ?? [])
+        .filter((data): data is string => !!data)
+        .map((data) => JSON.parse(data) as FeedItem)
+        .filter((item) => isLive(bounds[index] ?? null, item)),
+    }));
+  };
+
+  const readFeed = async (feedId: string, includeItems = true) =>
+    (await readFeeds([feedId], includeItems))[0] ?? null;
+
+  const addFeed = (feed: Feed) =>
+    Effect.tryPromise({
+      try: async () => {
+        const feedId = feed.options.id;
+
+        await watchedTransaction(async (watch) => {
+          await watch(revisionKey(feedId), settingsKey(feedId), sequenceKey(feedId));
+
+          // Merge submitted items into the existing ones, matching by id, guid or link, and by
+          // the feed's dedup key
+          const [existingItems, settings] = await Promise.all([readFeedItems(feedId), readSettings(feedId)]);
+          const matchKeys = (item: FeedItem) => [item.id, item.guid, item.link, dedupKey(item, settings.dedup)];
+          const existingByKey = new Map<string, FeedItem>();
+          for (const item of existingItems) {
+            for (const key of matchKeys(item)) {
+              if (key && !existingByKey.has(key)) {
+                existingByKey.set(key, item);
+              }
+            }
+          }
+
+          const commands: RedisCommand[] = writeFeedMetadataCommands(feed);
+          const newItems: Array<FeedItem & { id: string }> = [];
 
-          // Store each item individually and maintain item list
           for (const item of feed.items) {
+            const match = matchKeys(item)
+              .map((key) => key && existingByKey.get(key))
+              .find((existing) => !!existing);
+
+            if (match) {
+              // Keep the stored id stable and only overwrite the submitted fields
+              const merged = { ...match, ...item, id: match.id! };
+              if (JSON.stringify(merged) !== JSON.stringify(match)) {
+                commands.push(
+                  storeItemCommand(feedId, merged),
+                  ["ZADD", [datedIndexKey(feedId), String(itemDateScore(merged)), merged.id]],
+                  ...indexSearchCommands(feedId, merged, match),
+                  ...await unindexDedupCommands(feedId, { ...match, id: merged.id }, merged),
+                  ...indexDedupCommands(feedId, merged)
+                );
+              }
+              continue;
+            }
+
             const itemId = item.id || crypto.randomUUID();
             const itemWithId = { ...item, id: itemId };
+            newItems.push(itemWithId);
 
-            await client.set(`item:${itemId}`, JSON.stringify(itemWithId));
-            await client.send("LPUSH", [`feed:${feedId}:items`, itemId]);
+            for (const key of matchKeys(itemWithId)) {
+              if (key) {
+                existingByKey.set(key, itemWithId);
+              }
+            }
           }
 
-          return feedId;
-        },
-        catch: (error) => new RedisError({
-          message: `Failed to add feed ${feed.options.id}`,
-          cause: error
-        }),
-      });
+          const firstSequence = (await readSequence(feedId)) + 1;
+          newItems.forEach((item, index) => {
+            commands.push(
+              storeItemCommand(feedId, item),
+              ...indexItemCommands(feedId, item, firstSequence + index),
+              ...indexSearchCommands(feedId, item),
+              ...indexDedupCommands(feedId, item)
+            );
+          });
+          if (newItems.length > 0) {
+            commands.push(["SET", [sequenceKey(feedId), String(firstSequence + newItems.length - 1)]]);
+          }
 
-    const getFeed = (feedId: string) =>
-      Effect.tryPromise({
-        try: async () => {
-          const feedData = await client.get(`feed:${feedId}`);
-          return feedData ? JSON.parse(feedData) as Feed : null;
-        },
-        catch: (error) => new RedisError({
-          message: `Failed to get feed ${feedId}`,
-          cause: error
-        }),
-      });
+          const at = new Date().toISOString();
+          commands.push(bumpRevisionCommand(feedId));
+          commands.push(publishCommand({ type: "feed-changed", feedId, change: "updated", at }));
+          if (newItems.length > 0) {
+            commands.push(publishCommand({ type: "items-added", feedId, itemIds: newItems.map((item) => item.id), at }));
+          }
 
-    const getFeeds = () =>
-      Effect.tryPromise({
-        try: async () => {
-          // Get all feed IDs from directory
-          const feedIds = await client.send("SMEMBERS", ["feeds:directory"]) as string[];
-          const feeds: Feed[] = [];
-
-          for (const feedId of feedIds) {
-            const feedData = await client.get(`feed:${feedId}`);
-            if (feedData) {
-              feeds.push(JSON.parse(feedData));
-            }
+          return { commands, result: undefined };
+        });
+
+        return feedId;
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to add feed ${feed.options.id}`,
+        cause: error
+      }),
+    });
+
+  const replaceFeed = (feed: Feed) =>
+    Effect.tryPromise({
+      try: async () => {
+        const feedId = feed.options.id;
+        const items = feed.items.map((item) => ({ ...item, id: item.id || crypto.randomUUID() }));
+
+        await watchedTransaction(async (watch) => {
+          await watch(revisionKey(feedId), sequenceKey(feedId));
+          const [oldItemIds, oldTerms, oldDedupKeys, lastSequence] = await Promise.all([
+            readItemIds(feedId),
+            readSearchTerms(feedId),
+            readDedupKeys(feedId),
+            readSequence(feedId),
+          ]);
+          const firstSequence = lastSequence + 1;
+
+          // Drop every existing item, including ones added through addFeedItem, then store the
+          // submitted ones. The sequence carries on from where it was, so items-since cursors
+          // handed out before the replace still only see the new items.
+          const commands: RedisCommand[] = [
+            ...deleteFeedItemsCommands(feedId, oldItemIds, oldTerms, oldDedupKeys),
+            ...writeFeedMetadataCommands(feed),
+            ...items.flatMap((item, index): RedisCommand[] => [
+              storeItemCommand(feedId, item),
+              ...indexItemCommands(feedId, item, firstSequence + index),
+              ...indexSearchCommands(feedId, item),
+              ...indexDedupCommands(feedId, item),
+            ]),
+            ["SET", [sequenceKey(feedId), String(firstSequence + items.length - 1)]],
+            bumpRevisionCommand(feedId),
+            publishCommand({ type: "feed-changed", feedId, change: "replaced", at: new Date().toISOString() }),
+          ];
+          return { commands, result: undefined };
+        });
+
+        return feedId;
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to replace feed ${feed.options.id}`,
+        cause: error
+      }),
+    });
+
+  const getFeed = (feedId: string, { includeItems = true }: { includeItems?: boolean } = {}) =>
+    Effect.tryPromise({
+      try: () => readFeed(feedId, includeItems),
+      catch: (error) => new RedisError({
+        message: `Failed to get feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const getFeeds = () =>
+    Effect.tryPromise({
+      try: async () => {
+        // Get all feed IDs from directory
+        const feedIds = await client.send("SMEMBERS", ["feeds:directory"]) as string[];
+        return readFeeds(feedIds, true);
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to get feeds",
+        cause: error
+      }),
+    });
+
+  const getFeedIds = () =>
+    Effect.tryPromise({
+      try: async () => await client.send("SMEMBERS", ["feeds:directory"]) as string[],
+      catch: (error) => new RedisError({
+        message: "Failed to get feed ids",
+        cause: error
+      }),
+    });
+
+  const deleteFeed = (feedId: string) =>
+    Effect.tryPromise({
+      try: async () => {
+        await watchedTransaction(async (watch) => {
+          await watch(
+            revisionKey(feedId),
+            ...SubmissionStatus.options.map((status) => submissionIndexKey(feedId, status))
+          );
+          const [itemIds, searchTerms, dedupKeys, ...submissionIds] = await Promise.all([
+            readItemIds(feedId),
+            readSearchTerms(feedId),
+            readDedupKeys(feedId),
+            ...SubmissionStatus.options.map((status) =>
+              client.send("ZRANGE", [submissionIndexKey(feedId, status), "0", "-1"]) as Promise<string[]>
+            ),
+          ]);
+
+          const commands: RedisCommand[] = [
+            // Delete all items and their indexes
+            ...deleteFeedItemsCommands(feedId, itemIds, searchTerms, dedupKeys),
+            // Drop the moderation queue along with its history
+            ["DEL", [
+              ...submissionIds.flat().map((itemId) => submissionKey(feedId, itemId)),
+              ...SubmissionStatus.options.map((status) => submissionIndexKey(feedId, status)),
+            ]],
+            // Delete feed itself and remove it from the directory
+            ["DEL", [`feed:${feedId}`]],
+            ["SREM", ["feeds:directory", feedId]],
+            // Stop polling the upstream source, if any
+            ["DEL", [`feed:${feedId}:source`]],
+            ["SREM", ["feeds:sources", feedId]],
+            // Forget its owner and collaborators
+            ["DEL", [`feed:${feedId}:acl`]],
+            ["DEL", [settingsKey(feedId)]],
+            publishCommand({ type: "feed-changed", feedId, change: "deleted", at: new Date().toISOString() }),
+          ];
+          return { commands, result: undefined };
+        });
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to delete feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const addFeedItem = (feedId: string, item: FeedItem) =>
+    Effect.tryPromise({
+      try: async () => {
+        const itemId = item.id || crypto.randomUUID();
+        const itemWithId = { ...item, id: itemId };
+
+        // The duplicate check and the write are one transaction: of two concurrent copies, the
+        // second is planned again once the first is stored, and finds it
+        return watchedTransaction(async (watch): Promise<{ commands: RedisCommand[]; result: AddedFeedItem }> => {
+          await watch(revisionKey(feedId), settingsKey(feedId), sequenceKey(feedId));
+          const settings = await readSettings(feedId);
+          const key = dedupKey(itemWithId, settings.dedup);
+          if (key) {
+            await watch(dedupEntryKey(feedId, key));
           }
 
-          return feeds;
-        },
-        catch: (error) => new RedisError({
-          message: "Failed to get feeds",
-          cause: error
-        }),
-      });
+          const existingId = await readDuplicateId(feedId, itemWithId, settings);
+          if (existingId) {
+            return { commands: [], result: { itemId: existingId, duplicate: true } };
+          }
+
+          // Store the item and add it to the feed's item, search and dedup indexes together. The
+          // dedup key is taken over if it was left behind by an item that has since been deleted.
+          const sequence = (await readSequence(feedId)) + 1;
+          const commands: RedisCommand[] = [
+            ...(key ? [["SET", [dedupEntryKey(feedId, key), itemId]] as RedisCommand] : []),
+            storeItemCommand(feedId, itemWithId),
+            ...indexItemCommands(feedId, itemWithId, sequence),
+            ["SET", [sequenceKey(feedId), String(sequence)]],
+            ...indexSearchCommands(feedId, itemWithId),
+            ...indexDedupCommands(feedId, itemWithId),
+            bumpRevisionCommand(feedId),
+            publishCommand({ type: "items-added", feedId, itemIds: [itemId], at: new Date().toISOString() }),
+          ];
+          return { commands, result: { itemId, duplicate: false } };
+        });
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to add item to feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const findDuplicateItem = (feedId: string, item: FeedItem) =>
+    Effect.tryPromise({
+      try: async () => readDuplicateId(feedId, item, await readSettings(feedId)),
+      catch: (error) => new RedisError({
+        message: `Failed to look up duplicates in feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  // Resolves to false when the feed or the item doesn't exist
+  const updateFeedItem = (feedId: string, item: FeedItem & { id: string }) =>
+    Effect.tryPromise({
+      try: async () => {
+        return watchedTransaction(async (watch) => {
+          await watch(revisionKey(feedId), `feed:${feedId}`);
+          const [feedData, [previousData]] = await Promise.all([
+            client.send("GET", [`feed:${feedId}`]) as Promise<string | null>,
+            readItemData(feedId, [item.id]),
+          ]);
+          if (!feedData || !previousData) {
+            return { commands: [], result: false };
+          }
+
+          const previous = { ...JSON.parse(previousData) as FeedItem, id: item.id };
+          const updated = new Date().toISOString();
+          // The insertion position is kept, only the date, search and dedup indexes can move
+          const commands: RedisCommand[] = [
+            storeItemCommand(feedId, item),
+            ["ZADD", [datedIndexKey(feedId), String(itemDateScore(item)), item.id]],
+            ...indexSearchCommands(feedId, item, previous),
+            ...await unindexDedupCommands(feedId, previous, item),
+            ...indexDedupCommands(feedId, item),
+            ...touchFeedCommands(feedData, updated),
+            bumpRevisionCommand(feedId),
+            publishCommand({ type: "item-updated", feedId, itemId: item.id, at: updated }),
+          ];
+          return { commands, result: true };
+        });
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to update item ${item.id} in feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  // Resolves to false when the feed or the item doesn't exist
+  const deleteFeedItem = (feedId: string, itemId: string) =>
+    Effect.tryPromise({
+      try: async () => {
+        return watchedTransaction(async (watch) => {
+          await watch(revisionKey(feedId), `feed:${feedId}`);
+          const [feedData, [previousData]] = await Promise.all([
+            client.send("GET", [`feed:${feedId}`]) as Promise<string | null>,
+            readItemData(feedId, [itemId]),
+          ]);
+          if (!feedData || !previousData) {
+            return { commands: [], result: false };
+          }
+
+          const updated = new Date().toISOString();
+          const commands: RedisCommand[] = [
+            ...await removeItemCommands(feedId, { ...JSON.parse(previousData) as FeedItem, id: itemId }),
+            ...touchFeedCommands(feedData, updated),
+            bumpRevisionCommand(feedId),
+            publishCommand({ type: "item-deleted", feedId, itemId, at: updated }),
+          ];
+          return { commands, result: true };
+        });
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to delete item ${itemId} from feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  // Oldest first, at most `limit`: items beyond maxItems by date, and those older than maxAgeDays
+  const getExpiredItems = (feedId: string, policy: RetentionPolicy, limit: number) =>
+    Effect.tryPromise({
+      try: async () => {
+        const cutoff = retentionCutoff(policy, Date.now());
+        const commands: RedisCommand[] = [
+          ...(policy.maxItems !== undefined
+            ? [["ZRANGE", [datedIndexKey(feedId), "0", String(-policy.maxItems - 1)]] as RedisCommand]
+            : []),
+          ...(cutoff !== null
+            ? [["ZRANGE", [datedIndexKey(feedId), "-inf", `(${cutoff}`, "BYSCORE"]] as RedisCommand]
+            : []),
+        ];
+        if (commands.length === 0) {
+          return [];
+        }
 
-    const deleteFeed = (feedId: string) =>
-      Effect.tryPromise({
-        try: async () => {
-          // Get all item IDs for this feed
-          const itemIds = await client.send("LRANGE", [`feed:${feedId}:items`, "0", "-1"]) as string[];
+        // Both ranges start at the oldest item, so the longer one covers the other
+        const replies = await pipeline(commands) as string[][];
+        const itemIds = replies
+          .reduce((longest, ids) => ids.length > longest.length ? ids : longest, [])
+          .slice(0, limit);
+        const itemData = await readItemData(feedId, itemIds);
+        return itemIds.flatMap((itemId, index) => {
+          const data = itemData[index];
+          return data ? [{ ...JSON.parse(data) as FeedItem, id: itemId }] : [];
+        });
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to read expired items of feed ${feedId}`,
+        cause: error
+      }),
+    });
 
-          // Delete all items
-          for (const itemId of itemIds) {
-            await client.del(`item:${itemId}`);
+  // Drops items the feed's retention policy has expired. Unlike deleteFeedItem this leaves
+  // FeedOptions.updated alone: the feed lost old items, it didn't change.
+  const removeFeedItems = (feedId: string, itemIds: string[]) =>
+    Effect.tryPromise({
+      try: async () => {
+        return watchedTransaction(async (watch) => {
+          await watch(revisionKey(feedId));
+          const itemData = await readItemData(feedId, itemIds);
+          const items = itemIds.flatMap((itemId, index) => {
+            const data = itemData[index];
+            return data ? [{ ...JSON.parse(data) as FeedItem, id: itemId }] : [];
+          });
+          if (items.length === 0) {
+            return { commands: [], result: 0 };
           }
 
-          // Delete feed items list
-          await client.del(`feed:${feedId}:items`);
+          const at = new Date().toISOString();
+          const removals = await Promise.all(items.map((item) => removeItemCommands(feedId, item)));
+          const commands: RedisCommand[] = [
+            ...removals.flat(),
+            bumpRevisionCommand(feedId),
+            ...items.map((item) => publishCommand({ type: "item-deleted", feedId, itemId: item.id, at })),
+          ];
+          return { commands, result: items.length };
+        });
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to remove items from feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const getItemsSince = (feedId: string, requestedAfter: number, limit: number) =>
+    Effect.tryPromise({
+      try: async (): Promise<ItemsSinceBatch> => {
+        const lastSequence = await readSequence(feedId);
+        const after = requestedAfter > lastSequence ? 0 : requestedAfter;
+
+        // One past the limit tells whether there is more to come
+        const itemIds = await client.send(
+          "ZRANGE",
+          [insertedIndexKey(feedId), `(${after}`, "+inf", "BYSCORE", "LIMIT", "0", String(limit + 1)]
+        ) as string[];
+        const pageIds = itemIds.slice(0, limit);
+        const [itemData, scores, bound] = await Promise.all([
+          readItemData(feedId, pageIds),
+          pipeline(pageIds.map((itemId): RedisCommand => ["ZSCORE", [insertedIndexKey(feedId), itemId]])),
+          readLiveBound(feedId),
+        ]);
+        const sequences = scores.map(Number);
+
+        return {
+          after,
+          latest: lastSequence,
+          entries: pageIds.flatMap((_, index) => {
+            const data = itemData[index];
+            if (!data) {
+              return [];
+            }
+            const item = JSON.parse(data) as FeedItem;
+            return [{ sequence: sequences[index]!, item, live: isLive(bound, item) }];
+          }),
+          next: sequences[sequences.length - 1] ?? after,
+          hasMore: itemIds.length > limit,
+        };
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to read new items of feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  // Newest first, at most `limit` index entries dated from `from` epoch ms on. `to` is either the
+  // newest date to include or a position to continue after.
+  const getItemsByDate = (
+    feedId: string,
+    { from, to, limit }: { from: number; to: number | DatePosition; limit: number }
+  ) =>
+    Effect.tryPromise({
+      try: async (): Promise<DatedItemBatch> => {
+        const key = datedIndexKey(feedId);
+        const bound = (time: number) => Number.isFinite(time) ? String(time) : time > 0 ? "+inf" : "-inf";
+        const read = typeof to === "object" && to.itemId !== undefined
+          ? await zrangeAfter(key, String(to.score), to.itemId, limit)
+          : await client.send("ZRANGE", [
+            key,
+            typeof to === "number" ? bound(to) : `(${to.score}`,
+            bound(from),
+            "BYSCORE", "REV", "LIMIT", "0", String(limit),
+          ]) as string[];
+
+        const scores = (await pipeline(read.map((itemId): RedisCommand => ["ZSCORE", [key, itemId]]))).map(Number);
+        // Continuing after a tied item isn't bounded below by ZRANGE
+        const inRange = read.filter((_, index) => scores[index]! >= from);
+        const last = inRange.length === limit ? inRange.length - 1 : -1;
+
+        return {
+          items: await readLiveItems(feedId, inRange),
+          next: last === -1 ? null : { score: scores[last]!, itemId: inRange[last]! },
+        };
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to read items of feed ${feedId} by date`,
+        cause: error
+      }),
+    });
+
+  // getItemsByDate over only the items matching every search term. The postings are ordered
+  // by the date index, and only the items of the batch are read.
+  const getMatchingItemsByDate = (
+    feedId: string,
+    terms: string[],
+    { from, to, limit }: { from: number; to: number | DatePosition; limit: number }
+  ) =>
+    Effect.tryPromise({
+      try: async (): Promise<DatedItemBatch> => {
+        const postings = await pipeline(
+          terms.map((term): RedisCommand => ["SMEMBERS", [searchTermKey(feedId, term)]])
+        ) as string[][];
+        const itemIds = intersectPostings(postings);
+        const scores = await pipeline(
+          itemIds.map((itemId): RedisCommand => ["ZSCORE", [datedIndexKey(feedId), itemId]])
+        ) as (string | null)[];
+
+        const before = ({ score, itemId }: { score: number; itemId: string }) =>
+          typeof to === "number"
+            ? score <= to
+            : score < to.score || (score === to.score && to.itemId !== undefined && itemId < to.itemId);
+        const batch = itemIds
+          .flatMap((itemId, index) => {
+            const score = scores[index];
+            return score === null || score === undefined ? [] : [{ score: Number(score), itemId }];
+          })
+          .filter((entry) => entry.score >= from && before(entry))
+          .sort((a, b) => b.score - a.score || (a.itemId > b.itemId ? -1 : a.itemId < b.itemId ? 1 : 0))
+          .slice(0, limit);
+        const last = batch.length === limit ? batch[batch.length - 1] : undefined;
+
+        return {
+          items: await readLiveItems(feedId, batch.map(({ itemId }) => itemId)),
+          next: last ? { score: last.score, itemId: last.itemId } : null,
+        };
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to read matching items of feed ${feedId} by date`,
+        cause: error
+      }),
+    });
+
+  const getFeedItems = (feedId: string) =>
+    Effect.tryPromise({
+      try: async () => readLiveItems(feedId, await readItemIds(feedId)),
+      catch: (error) => new RedisError({
+        message: `Failed to get items for feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const getFeedItem = (feedId: string, itemId: string) =>
+    Effect.tryPromise({
+      try: async () => {
+        const [[itemData, score, position, legacyData], bound] = await Promise.all([
+          pipeline([
+            ["GET", [itemKey(feedId, itemId)]],
+            ["ZSCORE", [insertedIndexKey(feedId), itemId]],
+            ["LPOS", [legacyItemListKey(feedId), itemId]],
+            ["GET", [legacyItemKey(itemId)]],
+          ]) as Promise<[string | null, unknown, unknown, string | null]>,
+          readLiveBound(feedId),
+        ]);
+
+        // Not migrated yet: only resolve the legacy key if the item is listed under this feed
+        const data = itemData ?? (score === null && position === null ? null : legacyData);
+        const item = data ? JSON.parse(data) as FeedItem : null;
+        return item && isLive(bound, item) ? item : null;
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to get item ${itemId} from feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  // Cursors are "{score}:{itemId}" of the last item returned. The item's current rank is used
+  // when it still exists, otherwise paging resumes strictly below its score.
+  // Items from any number of feeds in one go, in the order asked for; null where an item is gone
+  // or outside its feed's live window
+  const getFeedItemsById = (refs: Array<{ feedId: string; itemId: string }>) =>
+    Effect.tryPromise({
+      try: async () => {
+        const feedIds = [...new Set(refs.map(({ feedId }) => feedId))];
+        const [itemData, bounds] = await Promise.all([
+          mget(refs.map(({ feedId, itemId }) => itemKey(feedId, itemId))),
+          Promise.all(feedIds.map((feedId) => readLiveBound(feedId))),
+        ]);
+        const boundByFeed = new Map(feedIds.map((feedId, index) => [feedId, bounds[index] ?? null]));
+
+        return refs.map(({ feedId }, index) => {
+          const data = itemData[index];
+          const item = data ? JSON.parse(data) as FeedItem : null;
+          return item && isLive(boundByFeed.get(feedId) ?? null, item) ? item : null;
+        });
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to get ${refs.length} items`,
+        cause: error
+      }),
+    });
 
-          // Delete feed itself
-          await client.del(`feed:${feedId}`);
+  const listFeedItems = (
+    feedId: string,
+    { order, cursor, limit }: { order: FeedItemOrder; cursor?: string; limit: number }
+  ) =>
+    Effect.tryPromise({
+      try: async (): Promise<FeedItemPage> => {
+        const indexKey = order === "date" ? datedIndexKey(feedId) : insertedIndexKey(feedId);
+        let itemIds: string[];
 
-          // Remove from feeds directory
-          await client.send("SREM", ["feeds:directory", feedId]);
-        },
-        catch: (error) => new RedisError({
-          message: `Failed to delete feed ${feedId}`,
-          cause: error
+        if (!cursor) {
+          itemIds = await client.send("ZRANGE", [indexKey, "0", String(limit - 1), "REV"]) as string[];
+        } else {
+          const separator = cursor.indexOf(":");
+          itemIds = await zrangeAfter(indexKey, cursor.slice(0, separator), cursor.slice(separator + 1), limit);
+        }
+
+        const lastItemId = itemIds.length === limit ? itemIds[itemIds.length - 1] : undefined;
+        const [itemData, lastScore, bound] = await Promise.all([
+          readItemData(feedId, itemIds),
+          lastItemId ? client.send("ZSCORE", [indexKey, lastItemId]) : null,
+          readLiveBound(feedId),
+        ]);
+
+        const items = itemData
+          .filter((data): data is string => !!data)
+          .map((data) => JSON.parse(data) as FeedItem);
+        const live = items.filter((item) => isLive(bound, item));
+        // By date, everything past the first hidden item is older and hidden too. By insertion
+        // hidden items are spread out, so a page can come back short.
+        const exhausted = order === "date" && live.length < items.length;
+
+        return {
+          items: live,
+          nextCursor: lastItemId && !exhausted ? `${lastScore}:${lastItemId}` : null,
+        };
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to list items for feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const getFeedSettings = (feedId: string) =>
+    Effect.tryPromise({
+      try: () => readSettings(feedId),
+      catch: (error) => new RedisError({
+        message: `Failed to get settings for feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const setFeedSettings = (feedId: string, settings: FeedSettings) =>
+    Effect.tryPromise({
+      try: async () => {
+        await client.send("SET", [settingsKey(feedId), JSON.stringify(settings)]);
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to set settings for feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const setFeedSource = (source: FeedSource) =>
+    Effect.tryPromise({
+      try: async () => {
+        await transaction([
+          ["SET", [`feed:${source.feedId}:source`, JSON.stringify(source)]],
+          ["SADD", ["feeds:sources", source.feedId]],
+        ]);
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to set source for feed ${source.feedId}`,
+        cause: error
+      }),
+    });
+
+  const getFeedSource = (feedId: string) =>
+    Effect.tryPromise({
+      try: async () => {
+        const sourceData = await client.send("GET", [`feed:${feedId}:source`]) as string | null;
+        return sourceData ? FeedSource.parse(JSON.parse(sourceData)) : null;
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to get source for feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const getFeedSources = () =>
+    Effect.tryPromise({
+      try: async () => {
+        const feedIds = await client.send("SMEMBERS", ["feeds:sources"]) as string[];
+        const sourceData = await mget(feedIds.map((feedId) => `feed:${feedId}:source`));
+
+        return sourceData
+          .filter((data): data is string => !!data)
+          .map((data) => FeedSource.parse(JSON.parse(data)));
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to get feed sources",
+        cause: error
+      }),
+    });
+
+  const getFeedAcl = (feedId: string) =>
+    Effect.tryPromise({
+      try: async () => {
+        const aclData = await client.send("GET", [`feed:${feedId}:acl`]) as string | null;
+        return aclData ? FeedAcl.parse(JSON.parse(aclData)) : null;
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to get access list for feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const setFeedAcl = (acl: FeedAcl) =>
+    Effect.tryPromise({
+      try: async () => {
+        await client.send("SET", [`feed:${acl.feedId}:acl`, JSON.stringify(acl)]);
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to set access list for feed ${acl.feedId}`,
+        cause: error
+      }),
+    });
+
+  // Stores the access list only if the feed has none yet; resolves to whether it was stored
+  const claimFeedAcl = (acl: FeedAcl) =>
+    Effect.tryPromise({
+      try: async () => {
+        const reply = await client.send("SET", [`feed:${acl.feedId}:acl`, JSON.stringify(acl), "NX"]);
+        return reply !== null;
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to claim feed ${acl.feedId}`,
+        cause: error
+      }),
+    });
+
+  // Drops an access list claimed for a feed whose creation then failed, unless the feed exists
+  // after all or the list has changed since
+  const releaseFeedAcl = (acl: FeedAcl) =>
+    Effect.tryPromise({
+      try: () =>
+        watchedTransaction(async (watch) => {
+          const aclKey = `feed:${acl.feedId}:acl`;
+          await watch(aclKey, `feed:${acl.feedId}`);
+          const [aclData, feedData] = await mget([aclKey, `feed:${acl.feedId}`]);
+          const released = !feedData && aclData === JSON.stringify(acl);
+          return { commands: released ? [["DEL", [aclKey]] as RedisCommand] : [], result: released };
         }),
-      });
+      catch: (error) => new RedisError({
+        message: `Failed to release feed ${acl.feedId}`,
+        cause: error
+      }),
+    });
+
+  // Saves `updated` only while the stored access list is still `current`; resolves to whether it
+  // was saved. Of two concurrent changes read from the same list, only the first goes in.
+  const replaceFeedAcl = (current: FeedAcl, updated: FeedAcl) =>
+    Effect.tryPromise({
+      try: () =>
+        watchedTransaction(async (watch) => {
+          const aclKey = `feed:${current.feedId}:acl`;
+          await watch(aclKey);
+          const aclData = await client.send("GET", [aclKey]) as string | null;
+          const stored = aclData ? FeedAcl.parse(JSON.parse(aclData)) : null;
+          const unchanged = !!stored && JSON.stringify(stored) === JSON.stringify(current);
+          return {
+            commands: unchanged ? [["SET", [aclKey, JSON.stringify(updated)]] as RedisCommand] : [],
+            result: unchanged,
+          };
+        }),
+      catch: (error) => new RedisError({
+        message: `Failed to update access list for feed ${current.feedId}`,
+        cause: error
+      }),
+    });
 
-    const addFeedItem = (feedId: string, item: FeedItem) =>
-      Effect.tryPromise({
-        try: async () => {
-          const itemId = item.id || crypto.randomUUID();
-          const itemWithId = { ...item, id: itemId };
+  const getFeedAcls = (feedIds: string[]) =>
+    Effect.tryPromise({
+      try: async () => {
+        const aclData = await mget(feedIds.map((feedId) => `feed:${feedId}:acl`));
+        return aclData.map((data) => data ? FeedAcl.parse(JSON.parse(data)) : null);
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to get feed access lists",
+        cause: error
+      }),
+    });
 
-          // Store the item
-          await client.set(`item:${itemId}`, JSON.stringify(itemWithId));
+  // Writes the record and moves it to the index for its current status in one step
+  const submissionCommands = (submission: Submission): RedisCommand[] => {
+    const { feedId, itemId, status } = submission;
+    const score = Date.parse(submission.decidedAt ?? submission.submittedAt) || Date.now();
 
-          // Add to feed's item list
-          await client.send("LPUSH", [`feed:${feedId}:items`, itemId]);
+    return [
+      ["SET", [submissionKey(feedId, itemId), JSON.stringify(submission)]],
+      ...SubmissionStatus.options
+        .filter((other) => other !== status)
+        .map((other): RedisCommand => ["ZREM", [submissionIndexKey(feedId, other), itemId]]),
+      ["ZADD", [submissionIndexKey(feedId, status), String(score), itemId]],
+    ];
+  };
 
-          return itemId;
-        },
-        catch: (error) => new RedisError({
-          message: `Failed to add item to feed ${feedId}`,
-          cause: error
+  const setSubmission = (submission: Submission) =>
+    Effect.tryPromise({
+      try: async () => {
+        await transaction(submissionCommands(submission));
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to save submission ${submission.itemId} to feed ${submission.feedId}`,
+        cause: error
+      }),
+    });
+
+  // All or nothing, across feeds
+  const setSubmissions = (submissions: Submission[]) =>
+    Effect.tryPromise({
+      try: async () => {
+        await transaction(submissions.flatMap(submissionCommands));
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to save ${submissions.length} submissions`,
+        cause: error
+      }),
+    });
+
+  // Saves the submission only while the stored one still has status `from`; resolves to whether
+  // it was saved. Of two moderators deciding at once, only one sees true.
+  const transitionSubmission = (submission: Submission, from: SubmissionStatus) =>
+    Effect.tryPromise({
+      try: () =>
+        watchedTransaction(async (watch) => {
+          const key = submissionKey(submission.feedId, submission.itemId);
+          await watch(key);
+          const stored = await client.send("GET", [key]) as string | null;
+          const current = stored ? Submission.parse(JSON.parse(stored)) : null;
+          const allowed = current?.status === from;
+          return { commands: allowed ? submissionCommands(submission) : [], result: allowed };
         }),
-      });
+      catch: (error) => new RedisError({
+        message: `Failed to update submission ${submission.itemId} in feed ${submission.feedId}`,
+        cause: error
+      }),
+    });
+
+  const getSubmission = (feedId: string, itemId: string) =>
+    Effect.tryPromise({
+      try: async () => {
+        const submissionData = await client.send("GET", [submissionKey(feedId, itemId)]) as string | null;
+        return submissionData ? Submission.parse(JSON.parse(submissionData)) : null;
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to get submission ${itemId} from feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  const listSubmissions = (
+    feedId: string,
+    { status, limit }: { status: SubmissionStatus; limit: number }
+  ) =>
+    Effect.tryPromise({
+      try: async () => {
+        const itemIds = await client.send("ZRANGE", [submissionIndexKey(feedId, status), "0", String(limit - 1), "REV"]) as string[];
+        const submissionData = await mget(itemIds.map((itemId) => submissionKey(feedId, itemId)));
+
+        return submissionData
+          .filter((data): data is string => !!data)
+          .map((data) => Submission.parse(JSON.parse(data)));
+      },
+      catch: (error) => new RedisError({
+        message: `Failed to list ${status} submissions for feed ${feedId}`,
+        cause: error
+      }),
+    });
+
+  // Items containing every term, per feed. Postings are intersected here rather than with
+  // SINTER so the in-memory store needs no extra commands.
+  // The item ids listed in every one of a feed's postings, smallest first
+  const intersectPostings = (postings: string[][]) => {
+    const [first = [], ...rest] = [...postings].sort((a, b) => a.length - b.length);
+    const others = rest.map((itemIds) => new Set(itemIds));
+    return first.filter((itemId) => others.every((itemIds) => itemIds.has(itemId)));
+  };
+
+  const searchFeedItems = (feedIds: string[], terms: string[]) =>
+    Effect.tryPromise({
+      try: async (): Promise<FeedSearchHits[]> => {
+        if (feedIds.length === 0 || terms.length === 0) {
+          return [];
+        }
+
+        const postings = await pipeline(
+          feedIds.flatMap((feedId) => terms.map((term): RedisCommand => ["SMEMBERS", [searchTermKey(feedId, term)]]))
+        ) as string[][];
+
+        const matches = feedIds.map((feedId, feedIndex) => ({
+          feedId,
+          itemIds: intersectPostings(postings.slice(feedIndex * terms.length, (feedIndex + 1) * terms.length)),
+        })).filter(({ itemIds }) => itemIds.length > 0);
+
+        return Promise.all(matches.map(async ({ feedId, itemIds }) => ({
+          feedId,
+          items: await readLiveItems(feedId, itemIds),
+        })));
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to search feed items",
+        cause: error
+      }),
+    });
+
+  // One-shot rewrite of item:{id} keys into feed:{feedId}:item:{id}. Safe to run while
+  // serving traffic: reads fall back to the legacy key and copies never overwrite newer writes.
+  const migrateItemKeys = () =>
+    Effect.tryPromise({
+      try: async () => {
+        if (await client.send("GET", ["migrations:item-keys"])) {
+          return 0;
+        }
+
+        let migrated = 0;
+        const feedIds = await client.send("SMEMBERS", ["feeds:directory"]) as string[];
+
+        for (const feedId of feedIds) {
+          const itemIds = await readItemIds(feedId);
+          const legacyData = await mget(itemIds.map(legacyItemKey));
+
+          const copies = itemIds
+            .map((itemId, index) => ({ itemId, data: legacyData[index] }))
+            .filter((entry): entry is { itemId: string; data: string } => !!entry.data);
+
+          await pipeline(copies.map(({ itemId, data }): RedisCommand =>
+            ["SET", [itemKey(feedId, itemId), data, "NX"]]
+          ));
+          migrated += copies.length;
+        }
+
+        // Legacy keys are removed only once every feed has its own copy, which also drops
+        // items that never belonged to any feed
+        let cursor = "0";
+        do {
+          const [nextCursor, keys] = await client.send("SCAN", [cursor, "MATCH", "item:*", "COUNT", "500"]) as [string, string[]];
+          if (keys.length > 0) {
+            await client.send("DEL", keys);
+          }
+          cursor = nextCursor;
+        } while (cursor !== "0");
+
+        await client.send("SET", ["migrations:item-keys", new Date().toISOString()]);
+
+        return migrated;
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to migrate item keys",
+        cause: error
+      }),
+    });
+
+  // One-shot move of the feed:{id}:items lists into the insertion and date sorted sets. Legacy
+  // items take the first sequences, oldest lowest, so cursors from "0" walk them before anything
+  // newer. Items indexed since the upgrade, by writes that raced this, move up past them.
+  const migrateItemIndexes = () =>
+    Effect.tryPromise({
+      try: async () => {
+        if (await client.send("GET", ["migrations:item-indexes"])) {
+          return 0;
+        }
+
+        let migrated = 0;
+        const feedIds = await client.send("SMEMBERS", ["feeds:directory"]) as string[];
+
+        for (const feedId of feedIds) {
+          migrated += await watchedTransaction(async (watch) => {
+            await watch(revisionKey(feedId), sequenceKey(feedId), insertedIndexKey(feedId), legacyItemListKey(feedId));
+
+            const [legacyIds, indexedIds] = await pipeline([
+              ["LRANGE", [legacyItemListKey(feedId), "0", "-1"]],
+              ["ZRANGE", [insertedIndexKey(feedId), "0", "-1"]],
+            ]) as [string[], string[]];
+            if (legacyIds.length === 0) {
+              return { commands: [], result: 0 };
+            }
+
+            const indexed = new Set(indexedIds);
+            const unindexedIds = legacyIds.filter((itemId) => !indexed.has(itemId)).reverse();
+            const [itemData, indexedScores, lastSequence] = await Promise.all([
+              readItemData(feedId, unindexedIds),
+              pipeline(indexedIds.map((itemId): RedisCommand => ["ZSCORE", [insertedIndexKey(feedId), itemId]])),
+              readSequence(feedId),
+            ]);
+            const legacyItems = unindexedIds.flatMap((itemId, index) => {
+              const data = itemData[index];
+              return data ? [{ itemId, item: JSON.parse(data) as FeedItem }] : [];
+            });
 
-    const getFeedItems = (feedId: string) =>
-      Effect.tryPromise({
-        try: async () => {
-          const itemIds = await client.send("LRANGE", [`feed:${feedId}:items`, "0", "-1"]) as string[];
-          const items: FeedItem[] = [];
+            const shift = legacyItems.length;
+            const insertedArgs = [
+              ...legacyItems.flatMap(({ itemId }, index) => [String(index + 1), itemId]),
+              ...indexedIds.flatMap((itemId, index) => [String(Number(indexedScores[index]) + shift), itemId]),
+            ];
+            const datedArgs = legacyItems.flatMap(({ itemId, item }) => [String(itemDateScore(item)), itemId]);
 
-          for (const itemId of itemIds) {
-            const itemData = await client.get(`item:${itemId}`);
-            if (itemData) {
-              items.push(JSON.parse(itemData));
+            const commands: RedisCommand[] = [
+              ...(shift > 0
+                ? [
+                  ["ZADD", [insertedIndexKey(feedId), ...insertedArgs]],
+                  ["ZADD", [datedIndexKey(feedId), "NX", ...datedArgs]],
+                  ["SET", [sequenceKey(feedId), String(lastSequence + shift)]],
+                  bumpRevisionCommand(feedId),
+                ] as RedisCommand[]
+                : []),
+              ["DEL", [legacyItemListKey(feedId)]],
+            ];
+            return { commands, result: shift };
+          });
+        }
+
+        await client.send("SET", ["migrations:item-indexes", new Date().toISOString()]);
+
+        return migrated;
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to migrate item indexes",
+        cause: error
+      }),
+    });
+
+  // One-shot indexing of items stored before search existed
+  const migrateSearchIndex = () =>
+    Effect.tryPromise({
+      try: async () => {
+        if (await client.send("GET", ["migrations:search-index"])) {
+          return 0;
+        }
+
+        let migrated = 0;
+        const feedIds = await client.send("SMEMBERS", ["feeds:directory"]) as string[];
+
+        for (const feedId of feedIds) {
+          const items = await readFeedItems(feedId);
+          await pipeline(items.flatMap((item) =>
+            item.id ? indexSearchCommands(feedId, { ...item, id: item.id }) : []
+          ));
+          migrated += items.length;
+        }
+
+        await client.send("SET", ["migrations:search-index", new Date().toISOString()]);
+
+        return migrated;
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to build search index",
+        cause: error
+      }),
+    });
+
+  // Indexes items stored before duplicate detection existed; the first item with a key keeps it
+  const migrateDedupIndex = () =>
+    Effect.tryPromise({
+      try: async () => {
+        if (await client.send("GET", ["migrations:dedup-index"])) {
+          return 0;
+        }
+
+        let migrated = 0;
+        const feedIds = await client.send("SMEMBERS", ["feeds:directory"]) as string[];
+
+        for (const feedId of feedIds) {
+          // Oldest first, so the original rather than a later copy keeps each key
+          const items = (await readFeedItems(feedId)).reverse();
+          await pipeline(items.flatMap((item) =>
+            item.id ? indexDedupCommands(feedId, { ...item, id: item.id }) : []
+          ));
+          migrated += items.length;
+        }
+
+        await client.send("SET", ["migrations:dedup-index", new Date().toISOString()]);
+
+        return migrated;
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to build dedup index",
+        cause: error
+      }),
+    });
+
+  // Items written before sanitisation existed are stored again, which derives their sanitised HTML
+  const migrateSanitizedContent = () =>
+    Effect.tryPromise({
+      try: async () => {
+        if (await client.send("GET", ["migrations:sanitized-content"])) {
+          return 0;
+        }
+
+        let migrated = 0;
+        const feedIds = await client.send("SMEMBERS", ["feeds:directory"]) as string[];
+
+        for (const feedId of feedIds) {
+          const items = (await readFeedItems(feedId)).filter((item) => item.id && !item.sanitized);
+          await pipeline(items.map((item) => storeItemCommand(feedId, { ...item, id: item.id! })));
+          migrated += items.length;
+        }
+
+        await client.send("SET", ["migrations:sanitized-content", new Date().toISOString()]);
+
+        return migrated;
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to sanitise stored item content",
+        cause: error
+      }),
+    });
+
+  // Resolves to a function that removes the listener again
+  const subscribeFeedEvents = (listener: (event: FeedEvent) => void) =>
+    Effect.tryPromise({
+      try: async () => {
+        if (!subscriber) {
+          throw new Error("No subscriber connection configured");
+        }
+
+        const onMessage = (message: string) => {
+          try {
+            const event = FeedEvent.safeParse(JSON.parse(message));
+            if (event.success) {
+              listener(event.data);
             }
+          } catch {
+            // Not one of ours
           }
+        };
 
-          return items;
-        },
-        catch: (error) => new RedisError({
-          message: `Failed to get items for feed ${feedId}`,
-          cause: error
-        }),
-      });
+        await subscriber.subscribe(feedEventsChannel, onMessage);
+        return () => {
+          subscriber.unsubscribe(feedEventsChannel, onMessage).catch(() => undefined);
+        };
+      },
+      catch: (error) => new RedisError({
+        message: "Failed to subscribe to feed events",
+        cause: error
+      }),
+    });
 
-    const getFeedItem = (feedId: string, itemId: string) =>
-      Effect.tryPromise({
-        try: async () => {
-          const itemData = await client.get(`item:${itemId}`);
-          return itemData ? JSON.parse(itemData) as FeedItem : null;
-        },
-        catch: (error) => new RedisError({
-          message: `Failed to get item ${itemId} from feed ${feedId}`,
-          cause: error
-        }),
-      });
+  const disconnect = () =>
+    Effect.sync(() => {
+      client.close();
+      subscriber?.close();
+    });
 
-    const disconnect = () =>
-      Effect.sync(() => {
-        client.close();
-      });
+  return {
+    addFeed,
+    replaceFeed,
+    getFeed,
+    getFeeds,
+    getFeedIds,
+    deleteFeed,
+    addFeedItem,
+    findDuplicateItem,
+    updateFeedItem,
+    deleteFeedItem,
+    getExpiredItems,
+    removeFeedItems,
+    getFeedItems,
+    getItemsByDate,
+    getMatchingItemsByDate,
+    getItemsSince,
+    getFeedItem,
+    getFeedItemsById,
+    listFeedItems,
+    getFeedSettings,
+    setFeedSettings,
+    setFeedSource,
+    getFeedSource,
+    getFeedSources,
+    getFeedAcl,
+    setFeedAcl,
+    claimFeedAcl,
+    releaseFeedAcl,
+    replaceFeedAcl,
+    getFeedAcls,
+    setSubmission,
+    setSubmissions,
+    transitionSubmission,
+    getSubmission,
+    listSubmissions,
+    searchFeedItems,
+    migrateItemKeys,
+    migrateItemIndexes,
+    migrateSearchIndex,
+    migrateDedupIndex,
+    migrateSanitizedContent,
+    subscribeFeedEvents,
+    disconnect,
+  };
+};
 
-    return {
-      addFeed,
-      getFeed,
-      getFeeds,
-      deleteFeed,
-      addFeedItem,
-      getFeedItems,
-      getFeedItem,
-      disconnect,
-    };
-  })
+// Connections are closed when the runtime is disposed
+export const RedisServiceLive = Layer.scoped(
+  RedisService,
+  Effect.acquireRelease(
+    Effect.sync(() => {
+      const url = process.env.REDIS_URL || "redis://localhost:6379";
+      return makeRedisService(new RedisClient(url), new RedisClient(url));
+    }),
+    (redis) => redis.disconnect()
+  )
+);
+
+// Same service over an in-process store, for local development without a Redis server.
+// Set REDIS_STORE_FILE to keep the data in a JSON file across restarts.
+// Closing the client on release writes out any snapshot still waiting on its debounce.
+export const RedisServiceMemory = Layer.scoped(
+  RedisService,
+  Effect.acquireRelease(
+    Effect.sync(() => {
+      const client = new MemoryRedisClient(process.env.REDIS_STORE_FILE || undefined);
+      return makeRedisService(client, client);
+    }),
+    (redis) => redis.disconnect()
+  )
 );
 
 export const addFeed = (feed: Feed) =>
@@ -209,10 +1730,16 @@ export const addFeed = (feed: Feed) =>
     return yield* redis.addFeed(feed);
   });
 
-export const getFeed = (feedId: string) =>
+export const replaceFeed = (feed: Feed) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.replaceFeed(feed);
+  });
+
+export const getFeed = (feedId: string, options?: { includeItems?: boolean }) =>
   Effect.gen(function* () {
     const redis = yield* RedisService;
-    return yield* redis.getFeed(feedId);
+    return yield* redis.getFeed(feedId, options);
   });
 
 export const getFeeds = () =>
@@ -221,6 +1748,12 @@ export const getFeeds = () =>
     return yield* redis.getFeeds();
   });
 
+export const getFeedIds = () =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getFeedIds();
+  });
+
 export const deleteFeed = (feedId: string) =>
   Effect.gen(function* () {
     const redis = yield* RedisService;
@@ -233,6 +1766,61 @@ export const addFeedItem = (feedId: string, item: FeedItem) =>
     return yield* redis.addFeedItem(feedId, item);
   });
 
+export const findDuplicateItem = (feedId: string, item: FeedItem) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.findDuplicateItem(feedId, item);
+  });
+
+export const updateFeedItem = (feedId: string, item: FeedItem & { id: string }) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.updateFeedItem(feedId, item);
+  });
+
+export const deleteFeedItem = (feedId: string, itemId: string) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.deleteFeedItem(feedId, itemId);
+  });
+
+export const getExpiredItems = (feedId: string, policy: RetentionPolicy, limit: number) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getExpiredItems(feedId, policy, limit);
+  });
+
+export const removeFeedItems = (feedId: string, itemIds: string[]) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.removeFeedItems(feedId, itemIds);
+  });
+
+export const getItemsSince = (feedId: string, after: number, limit: number) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getItemsSince(feedId, after, limit);
+  });
+
+export const getItemsByDate = (
+  feedId: string,
+  options: { from: number; to: number | DatePosition; limit: number }
+) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getItemsByDate(feedId, options);
+  });
+
+export const getMatchingItemsByDate = (
+  feedId: string,
+  terms: string[],
+  options: { from: number; to: number | DatePosition; limit: number }
+) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getMatchingItemsByDate(feedId, terms, options);
+  });
+
 export const getFeedItems = (feedId: string) =>
   Effect.gen(function* () {
     const redis = yield* RedisService;
@@ -244,3 +1832,159 @@ export const getFeedItem = (feedId: string, itemId: string) =>
     const redis = yield* RedisService;
     return yield* redis.getFeedItem(feedId, itemId);
   });
+
+export const getFeedItemsById = (refs: Array<{ feedId: string; itemId: string }>) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getFeedItemsById(refs);
+  });
+
+export const listFeedItems = (
+  feedId: string,
+  options: { order: FeedItemOrder; cursor?: string; limit: number }
+) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.listFeedItems(feedId, options);
+  });
+
+export const getFeedSettings = (feedId: string) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getFeedSettings(feedId);
+  });
+
+export const setFeedSettings = (feedId: string, settings: FeedSettings) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.setFeedSettings(feedId, settings);
+  });
+
+export const setFeedSource = (source: FeedSource) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.setFeedSource(source);
+  });
+
+export const getFeedSource = (feedId: string) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getFeedSource(feedId);
+  });
+
+export const getFeedSources = () =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getFeedSources();
+  });
+
+export const getFeedAcl = (feedId: string) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getFeedAcl(feedId);
+  });
+
+export const setFeedAcl = (acl: FeedAcl) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.setFeedAcl(acl);
+  });
+
+export const claimFeedAcl = (acl: FeedAcl) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.claimFeedAcl(acl);
+  });
+
+export const releaseFeedAcl = (acl: FeedAcl) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.releaseFeedAcl(acl);
+  });
+
+export const replaceFeedAcl = (current: FeedAcl, updated: FeedAcl) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.replaceFeedAcl(current, updated);
+  });
+
+export const getFeedAcls = (feedIds: string[]) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getFeedAcls(feedIds);
+  });
+
+export const setSubmission = (submission: Submission) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.setSubmission(submission);
+  });
+
+export const setSubmissions = (submissions: Submission[]) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.setSubmissions(submissions);
+  });
+
+export const transitionSubmission = (submission: Submission, from: SubmissionStatus) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.transitionSubmission(submission, from);
+  });
+
+export const getSubmission = (feedId: string, itemId: string) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.getSubmission(feedId, itemId);
+  });
+
+export const listSubmissions = (
+  feedId: string,
+  options: { status: SubmissionStatus; limit: number }
+) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.listSubmissions(feedId, options);
+  });
+
+export const searchFeedItems = (feedIds: string[], terms: string[]) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.searchFeedItems(feedIds, terms);
+  });
+
+export const migrateItemKeys = () =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.migrateItemKeys();
+  });
+
+export const migrateItemIndexes = () =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.migrateItemIndexes();
+  });
+
+export const migrateSearchIndex = () =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.migrateSearchIndex();
+  });
+
+export const migrateDedupIndex = () =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.migrateDedupIndex();
+  });
+
+export const migrateSanitizedContent = () =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.migrateSanitizedContent();
+  });
+
+export const subscribeFeedEvents = (listener: (event: FeedEvent) => void) =>
+  Effect.gen(function* () {
+    const redis = yield* RedisService;
+    return yield* redis.subscribeFeedEvents(listener);
+  });
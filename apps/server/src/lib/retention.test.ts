@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { eq } from "drizzle-orm";
+import { getTestDatabase } from "../db/testing";
+import { archivedItem } from "../db/schema/archive";
+import type { RetentionPolicy } from "../schemas/settings";
+import { deleteArchivedItems, getArchivedItems, runRetentionTick, trimFeed } from "./retention";
+import { makeFeed, makeItem, useMemoryRedis } from "./testing";
+
+const database = await getTestDatabase();
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const item = (n: number, fields = {}) => makeItem(n, { id: `item-${n}`, ...fields });
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+const setRetention = (feedId: string, retention: RetentionPolicy) =>
+  run(store.redis.setFeedSettings(feedId, { dedup: "guid", retention }));
+
+const ids = (items: Array<{ id?: string }>) => items.map(({ id }) => id);
+const storedIds = async (feedId: string) =>
+  ids((await run(store.redis.listFeedItems(feedId, { order: "date", limit: 100 }))).items);
+const archivedIds = async () =>
+  (await database.db.select().from(archivedItem)).map(({ itemId }) => itemId).sort();
+
+beforeEach(async () => {
+  await database.reset();
+  await run(store.redis.addFeed(makeFeed("feed", [1, 2, 3, 4, 5].map((n) => item(n)))));
+});
+
+describe("live window", () => {
+  test("readers stop seeing items past the policy before the trim job removes them", async () => {
+    await setRetention("feed", { maxItems: 2, archive: false });
+
+    expect(ids(await run(store.redis.getFeedItems("feed")))).toEqual(["item-5", "item-4"]);
+    expect(ids((await run(store.redis.getFeed("feed")))!.items)).toEqual(["item-5", "item-4"]);
+    expect(await storedIds("feed")).toEqual(["item-5", "item-4"]);
+    expect(await run(store.redis.getFeedItem("feed", "item-1"))).toBeNull();
+  });
+});
+
+describe("trimFeed", () => {
+  test("leaves feeds without a policy alone", async () => {
+    expect(await run(trimFeed("feed"))).toBe(0);
+    expect(await run(store.redis.getFeedItems("feed"))).toHaveLength(5);
+  });
+
+  test("removes the oldest items past maxItems, without archiving unless asked", async () => {
+    await setRetention("feed", { maxItems: 2, archive: false });
+
+    expect(await run(trimFeed("feed"))).toBe(3);
+    expect(await storedIds("feed")).toEqual(["item-5", "item-4"]);
+    expect(await archivedIds()).toEqual([]);
+    expect(await run(trimFeed("feed"))).toBe(0);
+  });
+
+  test("archives what it removes when the policy says so", async () => {
+    await setRetention("feed", { maxItems: 3, archive: true });
+
+    expect(await run(trimFeed("feed"))).toBe(2);
+    expect(await archivedIds()).toEqual(["item-1", "item-2"]);
+    const [archived] = await database.db.select().from(archivedItem).where(eq(archivedItem.itemId, "item-1"));
+    expect(archived).toMatchObject({ feedId: "feed", itemDate: new Date(item(1).date!) });
+    expect(archived?.item).toMatchObject(item(1));
+  });
+
+  test("removes items older than maxAgeDays", async () => {
+    await run(store.redis.addFeed(makeFeed("recent", [
+      item(1, { date: daysAgo(10) }),
+      item(2, { date: daysAgo(3) }),
+      item(3, { date: daysAgo(1) }),
+    ])));
+    await setRetention("recent", { maxAgeDays: 5, archive: true });
+
+    expect(await run(trimFeed("recent"))).toBe(1);
+    expect(await storedIds("recent")).toEqual(["item-3", "item-2"]);
+    expect(await archivedIds()).toEqual(["item-1"]);
+  });
+});
+
+describe("runRetentionTick", () => {
+  test("trims every feed, carrying on past one that fails", async () => {
+    await run(store.redis.addFeed(makeFeed("other", [item(1), item(2)])));
+    await run(store.redis.addFeed(makeFeed("broken", [item(1), item(2)])));
+    await setRetention("feed", { maxItems: 1, archive: false });
+    await setRetention("other", { maxItems: 1, archive: false });
+    await store.client.send("SET", ["feed:broken:settings", "not json"]);
+
+    await run(runRetentionTick);
+
+    expect(await storedIds("feed")).toEqual(["item-5"]);
+    expect(await storedIds("other")).toEqual(["item-2"]);
+  });
+});
+
+describe("getArchivedItems", () => {
+  beforeEach(async () => {
+    await setRetention("feed", { maxItems: 1, archive: true });
+    await run(trimFeed("feed"));
+  });
+
+  test("pages newest first through the archive", async () => {
+    const first = await run(getArchivedItems("feed", { limit: 3 }));
+    expect(ids(first.items)).toEqual(["item-4", "item-3", "item-2"]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await run(getArchivedItems("feed", { cursor: first.nextCursor!, limit: 3 }));
+    expect(ids(second.items)).toEqual(["item-1"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  test("pages through items archived with the same date by id", async () => {
+    await run(store.redis.addFeed(makeFeed("tied", ["a", "b", "c", "d"].map((key) => makeItem(key, { id: key })))));
+    await setRetention("tied", { maxItems: 1, archive: true });
+    await run(trimFeed("tied"));
+
+    const first = await run(getArchivedItems("tied", { limit: 2 }));
+    const second = await run(getArchivedItems("tied", { cursor: first.nextCursor!, limit: 2 }));
+
+    expect(ids(first.items)).toEqual(["c", "b"]);
+    expect(ids(second.items)).toEqual(["a"]);
+  });
+
+  test("only returns the feed's own items", async () => {
+    expect((await run(getArchivedItems("other", { limit: 10 }))).items).toEqual([]);
+  });
+
+  test("a feed created again after being deleted doesn't inherit the old archive", async () => {
+    await run(store.redis.deleteFeed("feed"));
+    await run(deleteArchivedItems("feed"));
+    await run(store.redis.addFeed(makeFeed("feed")));
+
+    expect((await run(getArchivedItems("feed", { limit: 10 }))).items).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { and, desc, eq, lt, or } from "drizzle-orm";
+import { Data, Duration, Effect, Layer, Schedule } from "effect";
+import { db } from "../db";
+import { archivedItem } from "../db/schema/archive";
+import type { FeedItem } from "../schemas/feed";
+import { getExpiredItems, getFeedIds, getFeedSettings, removeFeedItems } from "./redis";
+
+export class ArchiveError extends Data.TaggedError("ArchiveError")<{
+  message: string;
+  cause?: unknown;
+}> { }
+
+const RETENTION_TICK = Duration.minutes(Number(process.env.RETENTION_TICK_MINUTES) || 15);
+// Items trimmed from one feed per tick; a feed over its limit by more catches up on later ticks
+const TRIM_BATCH = 500;
+const TRIM_CONCURRENCY = 2;
+
+export type ArchivedItemPage = {
+  items: FeedItem[];
+  nextCursor: string | null;
+};
+
+const query = <A>(message: string, run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (error) => new ArchiveError({ message, cause: error }),
+  });
+
+const itemDate = (item: FeedItem) => {
+  const date = new Date(item.date);
+  return Number.isNaN(date.getTime()) ? new Date(0) : date;
+};
+
+// Applies the feed's retention policy. Archived items are written to Postgres before they are
+// removed from Redis, so a failure in between leaves them in both rather than in neither.
+export const trimFeed = (feedId: string) =>
+  Effect.gen(function* () {
+    const { retention } = yield* getFeedSettings(feedId);
+    if (!retention) {
+      return 0;
+    }
+
+    const expired = yield* getExpiredItems(feedId, retention, TRIM_BATCH);
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    if (retention.archive) {
+      const archivedAt = new Date();
+      yield* query(`Failed to archive ${expired.length} items of feed ${feedId}`, () =>
+        db.insert(archivedItem)
+          .values(expired.map((item) => ({
+            feedId,
+            itemId: item.id,
+            item,
+            itemDate: itemDate(item),
+            archivedAt,
+          })))
+          .onConflictDoNothing()
+      );
+    }
+
+    return yield* removeFeedItems(feedId, expired.map((item) => item.id));
+  });
+
+export const runRetentionTick = Effect.gen(function* () {
+  const feedIds = yield* getFeedIds();
+
+  yield* Effect.forEach(
+    feedIds,
+    (feedId) =>
+      trimFeed(feedId).pipe(
+        Effect.tap((trimmed) =>
+          trimmed > 0 ? Effect.logInfo(`Trimmed ${trimmed} items from feed ${feedId}`) : Effect.void
+        ),
+        Effect.catchAll((error) => Effect.logError(`Retention for feed ${feedId} failed: ${error.message}`))
+      ),
+    { concurrency: TRIM_CONCURRENCY, discard: true }
+  );
+});
+
+// Newest first. Cursors are "{epoch ms}:{itemId}" of the last item returned, as for listFeedItems.
+export const getArchivedItems = (
+  feedId: string,
+  { cursor, limit }: { cursor?: string; limit: number }
+) =>
+  Effect.gen(function* () {
+    const separator = cursor ? cursor.indexOf(":") : -1;
+    const after = cursor && separator > 0
+      ? { date: new Date(Number(cursor.slice(0, separator))), itemId: cursor.slice(separator + 1) }
+      : null;
+
+    const rows = yield* query(`Failed to read archived items of feed ${feedId}`, () =>
+      db.select({ item: archivedItem.item, itemId: archivedItem.itemId, itemDate: archivedItem.itemDate })
+        .from(archivedItem)
+        .where(and(
+          eq(archivedItem.feedId, feedId),
+          after
+            ? or(
+              lt(archivedItem.itemDate, after.date),
+              and(eq(archivedItem.itemDate, after.date), lt(archivedItem.itemId, after.itemId))
+            )
+            : undefined
+        ))
+        .orderBy(desc(archivedItem.itemDate), desc(archivedItem.itemId))
+        .limit(limit)
+    );
+
+    const last = rows.length === limit ? rows[rows.length - 1] : undefined;
+    return {
+      items: rows.map((row) => row.item),
+      nextCursor: last ? `${last.itemDate.getTime()}:${last.itemId}` : null,
+    } satisfies ArchivedItemPage;
+  });
+
+// Drops everything archived for a feed, so one created later under the same id starts empty
+export const deleteArchivedItems = (feedId: string) =>
+  query(`Failed to delete archived items of feed ${feedId}`, () =>
+    db.delete(archivedItem).where(eq(archivedItem.feedId, feedId))
+  );
+
+// Background fiber scoped to the runtime, alongside the poller and the WebSub hub
+export const RetentionLive = Layer.scopedDiscard(
+  runRetentionTick.pipe(
+    Effect.catchAll((error) => Effect.logError(`Retention run failed: ${error.message}`)),
+    Effect.repeat(Schedule.spaced(RETENTION_TICK)),
+    Effect.forkScoped
+  )
+);
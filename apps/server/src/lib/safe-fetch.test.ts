@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { assertPublicUrl, UnsafeUrlError } from "./safe-fetch";
+
+// Only literal addresses, so no test depends on DNS
+describe("assertPublicUrl", () => {
+  test.each([
+    "http://127.0.0.1/feed",
+    "http://127.1.2.3:8080/feed",
+    "http://10.0.0.5/",
+    "http://172.16.0.1/",
+    "http://192.168.1.1/",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://100.64.0.1/",
+    "http://0.0.0.0/",
+    "http://[::1]/",
+    "http://[fe80::1]/",
+    "http://[fd00::1]/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://2130706433/",
+    "http://0x7f000001/",
+  ])("refuses %s", async (url) => {
+    await expect(assertPublicUrl(new URL(url))).rejects.toBeInstanceOf(UnsafeUrlError);
+  });
+
+  test.each([
+    "file:///etc/passwd",
+    "ftp://93.184.216.34/feed.xml",
+    "gopher://93.184.216.34/",
+  ])("refuses the non-http URL %s", async (url) => {
+    await expect(assertPublicUrl(new URL(url))).rejects.toThrow("Only http and https URLs can be fetched");
+  });
+
+  test.each([
+    "http://93.184.216.34/feed.xml",
+    "https://[2606:2800:220:1:248:1893:25c8:1946]/feed.xml",
+  ])("allows the public address %s", async (url) => {
+    await expect(assertPublicUrl(new URL(url))).resolves.toBeUndefined();
+  });
+
+  describe("with SAFE_FETCH_ALLOWED_HOSTS", () => {
+    afterEach(() => {
+      delete process.env.SAFE_FETCH_ALLOWED_HOSTS;
+    });
+
+    test("lets the listed hosts through, by host or host and port", async () => {
+      process.env.SAFE_FETCH_ALLOWED_HOSTS = "127.0.0.1:8080, localhost";
+
+      await expect(assertPublicUrl(new URL("http://127.0.0.1:8080/callback"))).resolves.toBeUndefined();
+      await expect(assertPublicUrl(new URL("http://localhost:3000/callback"))).resolves.toBeUndefined();
+      await expect(assertPublicUrl(new URL("http://127.0.0.1:9090/callback"))).rejects.toBeInstanceOf(UnsafeUrlError);
+    });
+
+    test("still refuses non-http URLs", async () => {
+      process.env.SAFE_FETCH_ALLOWED_HOSTS = "localhost";
+
+      await expect(assertPublicUrl(new URL("ftp://localhost/feed.xml"))).rejects.toBeInstanceOf(UnsafeUrlError);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { Data } from "effect";
+
+export class UnsafeUrlError extends Data.TaggedError("UnsafeUrlError")<{
+  message: string;
+}> { }
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, shared and reserved ranges: nothing a public feed or WebSub
+// subscriber lives on, but where this server's own neighbours do
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// Hosts an operator trusts despite their address, as host or host:port, comma-separated. Meant
+// for local WebSub subscribers and feed servers in development and tests.
+const allowedHosts = () =>
+  (process.env.SAFE_FETCH_ALLOWED_HOSTS ?? "").split(",").map((host) => host.trim()).filter(Boolean);
+
+// Fails unless the URL is http(s) and every address its host resolves to is public
+export const assertPublicUrl = async (url: URL) => {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new UnsafeUrlError({ message: `Only http and https URLs can be fetched, not ${url.protocol}` });
+  }
+  if (allowedHosts().some((host) => host === url.hostname || host === url.host)) {
+    return;
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true });
+
+  const blocked = addresses.find(({ address, family }) =>
+    blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  if (blocked) {
+    throw new UnsafeUrlError({ message: `${url.host} resolves to ${blocked.address}, which is not a public address` });
+  }
+};
+
+const isRedirect = (status: number) => [301, 302, 303, 307, 308].includes(status);
+
+// fetch for URLs that come from users: feed sources, OPML entries, WebSub callbacks. The URL
+// and every redirect on the way are checked with assertPublicUrl before they are requested.
+export const safeFetch = async (input: string | URL, init: RequestInit = {}) => {
+  let url = new URL(input);
+  let request = init;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url);
+    const response = await fetch(url, { ...request, redirect: "manual" });
+    const location = response.headers.get("location");
+
+    if (!isRedirect(response.status) || !location) {
+      return response;
+    }
+    if (redirects === MAX_REDIRECTS) {
+      throw new UnsafeUrlError({ message: `Gave up on ${input} after ${MAX_REDIRECTS} redirects` });
+    }
+
+    url = new URL(location, url);
+    // As browsers do, a 303, or a 301/302 answering a POST, is followed with a plain GET
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && request.method === "POST")) {
+      const { body: _body, ...rest } = request;
+      request = { ...rest, method: "GET" };
+    }
+  }
+};
@@ -0,0 +1,61 @@
+import type { FeedItem } from "../schemas/feed";
+
+// Words too common to narrow a search down, skipped both when indexing and querying
+const stopWords = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "in",
+  "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was", "were", "will", "with",
+]);
+
+const wordPattern = /[\p{L}\p{N}]+/gu;
+
+export const normalizeWord = (word: string) =>
+  word.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+
+const isTerm = (word: string) => word.length > 1 && !stopWords.has(word);
+
+export const tokenize = (text: string) =>
+  (text.match(wordPattern) ?? []).map(normalizeWord).filter(isTerm);
+
+// Every word in `text` that is a search term, with its offsets in the original string
+export const findWords = (text: string) =>
+  Array.from(text.matchAll(wordPattern), (match) => ({
+    term: normalizeWord(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  })).filter(({ term }) => isTerm(term));
+
+export const stripHtml = (html: string) =>
+  html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export type SearchField = "title" | "description" | "content" | "author" | "category";
+
+// Matches in the title count most, then names and categories, then body text
+export const fieldWeights: Record<SearchField, number> = {
+  title: 5,
+  author: 3,
+  category: 3,
+  description: 2,
+  content: 1,
+};
+
+export const itemFieldText = (item: FeedItem): Record<SearchField, string> => ({
+  title: item.title,
+  description: stripHtml(item.description ?? ""),
+  content: stripHtml(item.content ?? ""),
+  author: (item.author ?? []).map((author) => author.name ?? "").join(" "),
+  category: (item.category ?? []).flatMap((category) => [category.name ?? "", category.term ?? ""]).join(" "),
+});
+
+// The distinct terms an item is indexed under
+export const itemTerms = (item: FeedItem) =>
+  new Set(Object.values(itemFieldText(item)).flatMap(tokenize));
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import type { FeedItem } from "../schemas/feed";
+import { searchItems, type SearchOptions } from "./search";
+import { tokenize } from "./search-index";
+import { makeFeed, makeItem, useMemoryRedis } from "./testing";
+
+const store = useMemoryRedis();
+const { run } = store;
+
+const item = (id: string, fields: Partial<FeedItem>): FeedItem => makeItem(id, { id, title: id, ...fields });
+
+const search = (query: string, options: Partial<SearchOptions> = {}) =>
+  run(searchItems({ query, limit: 10, offset: 0, ...options }));
+
+const ids = (result: { results: Array<{ item: FeedItem }> }) => result.results.map(({ item }) => item.id);
+
+beforeEach(async () => {
+  await run(store.redis.addFeed(makeFeed("tech", [
+    item("title-match", { title: "Rust compiler released", date: "2024-03-01T00:00:00.000Z" }),
+    item("body-match", {
+      title: "Weekly roundup",
+      description: "<p>Notes on the <b>Rust</b> compiler and more</p>",
+      date: "2024-02-01T00:00:00.000Z",
+      category: [{ name: "Languages", term: "lang" }],
+    }),
+    item("author-match", {
+      title: "Interview",
+      content: "<p>All about compilers</p>",
+      author: [{ name: "Rust Evangelist" }],
+      date: "2024-01-15T00:00:00.000Z",
+    }),
+  ], { title: "tech news" })));
+  await run(store.redis.addFeed(makeFeed("cooking", [
+    item("recipe", {
+      title: "Café crème",
+      description: "Rust-coloured crust on the compiler of pastries",
+      date: "2024-01-10T00:00:00.000Z",
+      category: [{ name: "Desserts" }],
+    }),
+  ], { title: "cooking news" })));
+});
+
+describe("tokenize", () => {
+  test("folds case and accents and drops stop words and single letters", () => {
+    expect(tokenize("The Café CRÈME of a Rust-y x")).toEqual(["cafe", "creme", "rust"]);
+  });
+});
+
+describe("searchItems", () => {
+  test("needs every word of the query to match", async () => {
+    expect(ids(await search("rust compiler")).sort()).toEqual(["body-match", "recipe", "title-match"]);
+    expect(ids(await search("compiler interview"))).toEqual([]);
+  });
+
+  test("ranks title matches above body matches", async () => {
+    const result = await search("rust compiler");
+
+    expect(result.results[0]?.item.id).toBe("title-match");
+    expect(result.results[0]!.score).toBeGreaterThan(result.results[1]!.score);
+  });
+
+  test("indexes author names and category terms", async () => {
+    expect(ids(await search("evangelist"))).toEqual(["author-match"]);
+    expect(ids(await search("lang"))).toEqual(["body-match"]);
+  });
+
+  test("matches regardless of accents", async () => {
+    expect(ids(await search("cafe"))).toEqual(["recipe"]);
+  });
+
+  test("filters by feed, category and date range", async () => {
+    expect(ids(await search("rust", { feedIds: ["cooking"] }))).toEqual(["recipe"]);
+    expect(ids(await search("rust", { category: "languages" }))).toEqual(["body-match"]);
+    expect(ids(await search("rust", {
+      since: "2024-01-12T00:00:00.000Z",
+      until: "2024-02-15T00:00:00.000Z",
+    })).sort()).toEqual(["author-match", "body-match"]);
+  });
+
+  test("pages through results and reports the total", async () => {
+    const first = await search("rust", { limit: 2 });
+    const second = await search("rust", { limit: 2, offset: 2 });
+
+    expect(first.total).toBe(4);
+    expect([...ids(first), ...ids(second)].sort()).toEqual(["author-match", "body-match", "recipe", "title-match"]);
+  });
+
+  test("highlights matches in snippets of the stripped text", async () => {
+    const [result] = (await search("compiler", { feedIds: ["tech"], category: "lang" })).results;
+
+    expect(result?.feedTitle).toBe("tech news");
+    const body = result?.snippets.find((snippet) => snippet.field === "description");
+    expect(body?.text).toBe("Notes on the Rust compiler and more");
+    expect(body?.highlights.map(({ start, end }) => body.text.slice(start, end))).toEqual(["compiler"]);
+  });
+
+  test("stops finding items once they are deleted or edited", async () => {
+    await run(store.redis.deleteFeedItem("tech", "title-match"));
+    await run(store.redis.updateFeedItem("cooking", { ...item("recipe", { title: "Plain bread" }), id: "recipe" }));
+
+    expect(ids(await search("rust compiler"))).toEqual(["body-match"]);
+    expect(ids(await search("bread"))).toEqual(["recipe"]);
+  });
+
+  test("finds nothing for a query of only stop words", async () => {
+    expect(await search("the and of")).toEqual({ results: [], total: 0 });
+  });
+});
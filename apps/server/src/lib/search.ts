@@ -0,0 +1,138 @@
+import { Effect } from "effect";
+import type { FeedItem } from "../schemas/feed";
+import type { SearchResult, SearchSnippet } from "../schemas/search";
+import { getFeed, getFeedIds, searchFeedItems } from "./redis";
+import { fieldWeights, findWords, itemFieldText, tokenize, type SearchField } from "./search-index";
+
+export type SearchOptions = {
+  query: string;
+  feedIds?: string[];
+  category?: string;
+  since?: string;
+  until?: string;
+  limit: number;
+  offset: number;
+};
+
+const snippetLength = 200;
+const snippetLead = 60;
+
+const itemTime = (item: FeedItem) => Date.parse(item.date) || 0;
+
+// Weighted by field, with repeats of a term in one field counting less and less
+const scoreItem = (item: FeedItem, terms: Set<string>) => {
+  const fields = itemFieldText(item);
+  let score = 0;
+
+  for (const field of Object.keys(fields) as SearchField[]) {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(fields[field])) {
+      if (terms.has(term)) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+    }
+    for (const count of counts.values()) {
+      score += fieldWeights[field] * (1 + Math.log(count));
+    }
+  }
+
+  return Math.round(score * 100) / 100;
+};
+
+export const matchesCategory = (item: FeedItem, category: string) => {
+  const wanted = category.toLowerCase();
+  return (item.category ?? []).some((entry) =>
+    entry.name?.toLowerCase() === wanted || entry.term?.toLowerCase() === wanted
+  );
+};
+
+// Up to snippetLength characters of `text` starting a little before its first match
+const snippetOf = (field: SearchSnippet["field"], text: string, terms: Set<string>): SearchSnippet | null => {
+  const words = findWords(text).filter(({ term }) => terms.has(term));
+  const first = words[0];
+  if (!first) {
+    return null;
+  }
+
+  let start = 0;
+  if (text.length > snippetLength && first.start > snippetLead) {
+    const boundary = text.lastIndexOf(" ", first.start - snippetLead);
+    start = boundary === -1 ? 0 : boundary + 1;
+  }
+  let end = Math.min(text.length, start + snippetLength);
+  if (end < text.length) {
+    const boundary = text.lastIndexOf(" ", end);
+    end = boundary > first.end ? boundary : end;
+  }
+
+  const prefix = start > 0 ? "… " : "";
+  const suffix = end < text.length ? " …" : "";
+
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: words
+      .filter((word) => word.start >= start && word.end <= end)
+      .map((word) => ({ start: word.start - start + prefix.length, end: word.end - start + prefix.length })),
+  };
+};
+
+const snippetsOf = (item: FeedItem, terms: Set<string>) => {
+  const fields = itemFieldText(item);
+  const title: SearchSnippet = {
+    field: "title",
+    text: item.title,
+    highlights: findWords(item.title)
+      .filter(({ term }) => terms.has(term))
+      .map(({ start, end }) => ({ start, end })),
+  };
+  const body = snippetOf("description", fields.description, terms) ?? snippetOf("content", fields.content, terms);
+
+  return body ? [title, body] : [title];
+};
+
+// Items matching every word of the query, best matches first and newest first among equals
+export const searchItems = (options: SearchOptions) =>
+  Effect.gen(function* () {
+    const terms = new Set(tokenize(options.query));
+    if (terms.size === 0) {
+      return { results: [] as SearchResult[], total: 0 };
+    }
+
+    const feedIds = options.feedIds?.length ? options.feedIds : yield* getFeedIds();
+    const hits = yield* searchFeedItems(feedIds, [...terms]);
+
+    const since = options.since ? Date.parse(options.since) : -Infinity;
+    const until = options.until ? Date.parse(options.until) : Infinity;
+
+    const matches = hits
+      .flatMap(({ feedId, items }) => items.map((item) => ({ feedId, item })))
+      .filter(({ item }) => {
+        const time = Date.parse(item.date);
+        if ((options.since || options.until) && (Number.isNaN(time) || time < since || time > until)) {
+          return false;
+        }
+        return !options.category || matchesCategory(item, options.category);
+      })
+      .map((match) => ({ ...match, score: scoreItem(match.item, terms) }))
+      .sort((a, b) => b.score - a.score || itemTime(b.item) - itemTime(a.item));
+
+    const page = matches.slice(options.offset, options.offset + options.limit);
+    const feeds = yield* Effect.forEach(
+      [...new Set(page.map(({ feedId }) => feedId))],
+      (feedId) => getFeed(feedId, { includeItems: false }),
+      { concurrency: "unbounded" }
+    );
+    const titles = new Map(feeds.flatMap((feed) => feed ? [[feed.options.id, feed.options.title] as const] : []));
+
+    return {
+      results: page.map(({ feedId, item, score }): SearchResult => ({
+        feedId,
+        feedTitle: titles.get(feedId) ?? feedId,
+        item,
+        score,
+        snippets: snippetsOf(item, terms),
+      })),
+      total: matches.length,
+    };
+  });
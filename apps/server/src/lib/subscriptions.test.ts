@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import { getTestDatabase } from "../db/testing";
+import type { FeedItem } from "../schemas/feed";
+import { FeedNotFoundError } from "./feed-acl";
+import {
+  getRiver,
+  listStarredItems,
+  listSubscriptions,
+  markFeedsRead,
+  markItemsRead,
+  setItemStarred,
+  subscribeFeed,
+  unsubscribeFeed
+} from "./subscriptions";
+import { makeFeed, makeItem, useMemoryRedis } from "./testing";
+
+const database = await getTestDatabase();
+
+const store = useMemoryRedis();
+const { run } = store;
+
+// Numbered by day, so a higher number is newer
+const item = (feedId: string, n: number, fields: Partial<FeedItem> = {}) =>
+  makeItem(n, { id: `${feedId}${n}`, ...fields });
+
+const riverIds = (page: { items: Array<{ item: FeedItem }> }) => page.items.map(({ item }) => item.id);
+
+// Every page of the river from the start, following the cursor
+const drainRiver = async (limit: number) => {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await run(getRiver("reader", { cursor, limit }));
+    pages.push(riverIds(page) as string[]);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor && pages.length < 50);
+  return pages;
+};
+
+beforeEach(async () => {
+  await database.reset();
+  await database.createUser("reader");
+  await run(store.redis.addFeed(makeFeed("a", [1, 3, 5].map((n) => item("a", n)), { title: "Feed A" })));
+  await run(store.redis.addFeed(makeFeed("b", [2, 3, 4].map((n) => item("b", n)), { title: "Feed B" })));
+  await run(store.redis.addFeed(makeFeed("c", [6].map((n) => item("c", n)))));
+});
+
+describe("subscribeFeed and unsubscribeFeed", () => {
+  test("list subscriptions in the order they were made, with feed titles", async () => {
+    await run(subscribeFeed("reader", "b"));
+    await run(subscribeFeed("reader", "a"));
+    await run(subscribeFeed("reader", "b"));
+
+    const subscriptions = await run(listSubscriptions("reader"));
+    expect(subscriptions.map(({ feedId, feedTitle, readBefore }) => [feedId, feedTitle, readBefore])).toEqual([
+      ["b", "Feed B", null],
+      ["a", "Feed A", null],
+    ]);
+  });
+
+  test("only existing feeds can be subscribed to", async () => {
+    const error = await run(Effect.flip(subscribeFeed("reader", "missing")));
+
+    expect(error).toBeInstanceOf(FeedNotFoundError);
+    expect(await run(listSubscriptions("reader"))).toEqual([]);
+  });
+
+  test("unsubscribing drops the feed from the river but keeps its starred items", async () => {
+    await run(subscribeFeed("reader", "a"));
+    await run(subscribeFeed("reader", "b"));
+    await run(setItemStarred("reader", "a", "a3", true));
+
+    await run(unsubscribeFeed("reader", "a"));
+
+    expect((await run(listSubscriptions("reader"))).map(({ feedId }) => feedId)).toEqual(["b"]);
+    expect(riverIds(await run(getRiver("reader", { limit: 10 })))).toEqual(["b4", "b3", "b2"]);
+    expect((await run(listStarredItems("reader", 10))).map(({ item }) => item.id)).toEqual(["a3"]);
+  });
+});
+
+describe("getRiver", () => {
+  beforeEach(async () => {
+    await run(subscribeFeed("reader", "a"));
+    await run(subscribeFeed("reader", "b"));
+  });
+
+  test("is empty without subscriptions", async () => {
+    await run(unsubscribeFeed("reader", "a"));
+    await run(unsubscribeFeed("reader", "b"));
+
+    expect(await run(getRiver("reader", { limit: 10 }))).toEqual({ items: [], nextCursor: null });
+  });
+
+  test("merges subscribed feeds newest first, breaking ties by feed", async () => {
+    const river = await run(getRiver("reader", { limit: 10 }));
+
+    expect(riverIds(river)).toEqual(["a5", "b4", "a3", "b3", "b2", "a1"]);
+    expect(river.items[0]).toMatchObject({ feedId: "a", feedTitle: "Feed A", starred: false });
+    expect(river.nextCursor).toBeNull();
+  });
+
+  test("pages through the same order with the cursor, whatever the page size", async () => {
+    for (const limit of [1, 2, 4]) {
+      const pages = await drainRiver(limit);
+      expect(pages.flat()).toEqual(["a5", "b4", "a3", "b3", "b2", "a1"]);
+      expect(pages.every((page) => page.length <= limit)).toBe(true);
+    }
+  });
+
+  test("a busy feed's newer items don't push another feed's out of order", async () => {
+    await run(store.redis.addFeed(makeFeed("a", Array.from({ length: 20 }, (_, index) => item("a", index + 10)))));
+
+    const pages = await drainRiver(3);
+
+    expect(pages.flat().slice(-6)).toEqual(["a5", "b4", "a3", "b3", "b2", "a1"]);
+    expect(pages.flat()).toHaveLength(26);
+  });
+
+  test("leaves out read items and marks starred ones", async () => {
+    await run(markItemsRead("reader", "a", ["a3"], true));
+    await run(setItemStarred("reader", "b", "b4", true));
+
+    const river = await run(getRiver("reader", { limit: 10 }));
+
+    expect(riverIds(river)).toEqual(["a5", "b4", "b3", "b2", "a1"]);
+    expect(river.items.find(({ item }) => item.id === "b4")?.starred).toBe(true);
+  });
+
+  test("marking a feed read hides what is older, except items marked unread again afterwards", async () => {
+    await run(markFeedsRead("reader", { feedIds: ["a"], before: new Date(item("a", 4).date!) }));
+    await run(markItemsRead("reader", "a", ["a1"], false));
+
+    expect(riverIds(await run(getRiver("reader", { limit: 10 })))).toEqual(["a5", "b4", "b3", "b2", "a1"]);
+  });
+});
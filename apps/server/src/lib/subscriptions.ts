@@ -0,0 +1,333 @@
+import { and, desc, eq, inArray, isNull, lt, or } from "drizzle-orm";
+import { Data, Effect } from "effect";
+import { db } from "../db";
+import { feedSubscription, itemState } from "../db/schema/reader";
+import type { FeedItem } from "../schemas/feed";
+import { FeedNotFoundError } from "./feed-acl";
+import { getFeed, getFeedItemsById, listFeedItems } from "./redis";
+
+export class ReaderStateError extends Data.TaggedError("ReaderStateError")<{
+  message: string;
+  cause?: unknown;
+}> { }
+
+export type RiverItem = {
+  feedId: string;
+  feedTitle: string;
+  item: FeedItem;
+  starred: boolean;
+};
+
+const query = <A>(message: string, run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (error) => new ReaderStateError({ message, cause: error }),
+  });
+
+// Same score the feed's date index uses, so river positions line up with its cursors
+const itemScore = (item: FeedItem) => Date.parse(item.date) || 0;
+
+const feedTitles = (feedIds: string[]) =>
+  Effect.gen(function* () {
+    const feeds = yield* Effect.forEach(
+      feedIds,
+      (feedId) => getFeed(feedId, { includeItems: false }),
+      { concurrency: "unbounded" }
+    );
+    return new Map(feeds.flatMap((feed) => feed ? [[feed.options.id, feed.options.title] as const] : []));
+  });
+
+export const subscribeFeed = (userId: string, feedId: string) =>
+  Effect.gen(function* () {
+    const feed = yield* getFeed(feedId, { includeItems: false });
+    if (!feed) {
+      return yield* Effect.fail(new FeedNotFoundError({ message: `Feed ${feedId} not found` }));
+    }
+
+    yield* query(`Failed to subscribe to feed ${feedId}`, () =>
+      db.insert(feedSubscription)
+        .values({ userId, feedId, createdAt: new Date() })
+        .onConflictDoNothing()
+    );
+  });
+
+// Starred items stay starred after unsubscribing
+export const unsubscribeFeed = (userId: string, feedId: string) =>
+  query(`Failed to unsubscribe from feed ${feedId}`, () =>
+    db.delete(feedSubscription)
+      .where(and(eq(feedSubscription.userId, userId), eq(feedSubscription.feedId, feedId)))
+  );
+
+export const listSubscriptions = (userId: string) =>
+  Effect.gen(function* () {
+    const rows = yield* query("Failed to list subscriptions", () =>
+      db.select()
+        .from(feedSubscription)
+        .where(eq(feedSubscription.userId, userId))
+        .orderBy(feedSubscription.createdAt)
+    );
+    const titles = yield* feedTitles(rows.map((row) => row.feedId));
+
+    return rows.map((row) => ({
+      feedId: row.feedId,
+      feedTitle: titles.get(row.feedId) ?? row.feedId,
+      subscribedAt: row.createdAt.toISOString(),
+      readBefore: row.readBefore?.toISOString() ?? null,
+    }));
+  });
+
+export const markItemsRead = (userId: string, feedId: string, itemIds: string[], read: boolean) =>
+  query(`Failed to mark items of feed ${feedId} as ${read ? "read" : "unread"}`, async () => {
+    if (itemIds.length === 0) {
+      return;
+    }
+
+    const updatedAt = new Date();
+    await db.insert(itemState)
+      .values(itemIds.map((itemId) => ({ userId, feedId, itemId, read, updatedAt })))
+      .onConflictDoUpdate({
+        target: [itemState.userId, itemState.feedId, itemState.itemId],
+        set: { read, updatedAt },
+      });
+  });
+
+// Moves the read watermark of the given subscriptions (all of them by default) up to `before`.
+// Explicit unread flags are dropped too: older items become read and newer ones stay unread anyway.
+export const markFeedsRead = (userId: string, { feedIds, before }: { feedIds?: string[]; before: Date }) =>
+  query("Failed to mark feeds as read", () =>
+    db.transaction(async (tx) => {
+      const feedFilter = feedIds ? inArray(feedSubscription.feedId, feedIds) : undefined;
+
+      await tx.update(feedSubscription)
+        .set({ readBefore: before })
+        .where(and(
+          eq(feedSubscription.userId, userId),
+          feedFilter,
+          or(isNull(feedSubscription.readBefore), lt(feedSubscription.readBefore, before))
+        ));
+
+      await tx.update(itemState)
+        .set({ read: null, updatedAt: new Date() })
+        .where(and(
+          eq(itemState.userId, userId),
+          eq(itemState.read, false),
+          feedIds ? inArray(itemState.feedId, feedIds) : undefined
+        ));
+    })
+  );
+
+export const setItemStarred = (userId: string, feedId: string, itemId: string, starred: boolean) =>
+  query(`Failed to ${starred ? "star" : "unstar"} item ${itemId}`, async () => {
+    const updatedAt = new Date();
+    await db.insert(itemState)
+      .values({ userId, feedId, itemId, starred, updatedAt })
+      .onConflictDoUpdate({
+        target: [itemState.userId, itemState.feedId, itemState.itemId],
+        set: { starred, updatedAt },
+      });
+  });
+
+export const listStarredItems = (userId: string, limit: number) =>
+  Effect.gen(function* () {
+    const rows = yield* query("Failed to list starred items", () =>
+      db.select()
+        .from(itemState)
+        .where(and(eq(itemState.userId, userId), eq(itemState.starred, true)))
+        .orderBy(desc(itemState.updatedAt))
+        .limit(limit)
+    );
+
+    const items = yield* getFeedItemsById(rows);
+    const titles = yield* feedTitles([...new Set(rows.map((row) => row.feedId))]);
+
+    return rows.flatMap((row, index): RiverItem[] => {
+      const item = items[index];
+      return item
+        ? [{ feedId: row.feedId, feedTitle: titles.get(row.feedId) ?? row.feedId, item, starred: true }]
+        : [];
+    });
+  });
+
+// River order: newest first, then by feed id, then by item id the way the date index breaks ties
+type RiverPosition = [score: number, feedId: string, itemId: string];
+
+type RiverCursor = {
+  at: RiverPosition | null;
+  // listFeedItems cursor per feed, or null once the feed has nothing unread left
+  feeds: Record<string, string | null>;
+};
+
+const compareText = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const compareRiver = (a: RiverPosition, b: RiverPosition) =>
+  b[0] - a[0] || compareText(a[1], b[1]) || compareText(b[2], a[2]);
+
+const encodeRiverCursor = (cursor: RiverCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeRiverCursor = (cursor: string): RiverCursor => {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString()) as RiverCursor;
+  } catch {
+    return { at: null, feeds: {} };
+  }
+};
+
+type RiverCandidate = {
+  feedId: string;
+  item: FeedItem & { id: string };
+  position: RiverPosition;
+  // Read through the feed's date index, as opposed to an old item explicitly marked unread
+  streamed: boolean;
+};
+
+const maxRiverRounds = 5;
+
+// Unread items across the user's subscriptions, merged newest first. Each round pages every
+// feed forward by `limit` and only emits items no later than the earliest last item among feeds
+// with more to come, so nothing from a feed can be skipped by another feed's newer items.
+export const getRiver = (userId: string, { cursor, limit }: { cursor?: string; limit: number }) =>
+  Effect.gen(function* () {
+    const subscriptions = yield* query("Failed to read subscriptions", () =>
+      db.select().from(feedSubscription).where(eq(feedSubscription.userId, userId))
+    );
+    if (subscriptions.length === 0) {
+      return { items: [] as RiverItem[], nextCursor: null };
+    }
+
+    const feedIds = subscriptions.map((subscription) => subscription.feedId);
+    const watermarks = new Map(subscriptions.map((subscription) =>
+      [subscription.feedId, subscription.readBefore?.getTime() ?? -Infinity]
+    ));
+
+    const stateKey = (feedId: string, itemId: string) => `${feedId}\n${itemId}`;
+    const stateByItem = new Map<string, typeof itemState.$inferSelect>();
+
+    // Items explicitly marked unread below their feed's watermark are never reached by paging
+    const unreadStates = yield* query("Failed to read item states", () =>
+      db.select()
+        .from(itemState)
+        .where(and(eq(itemState.userId, userId), inArray(itemState.feedId, feedIds), eq(itemState.read, false)))
+    );
+    unreadStates.forEach((state) => stateByItem.set(stateKey(state.feedId, state.itemId), state));
+    const unreadItems = yield* getFeedItemsById(unreadStates);
+    const markedUnread = unreadStates.flatMap((state, index): RiverCandidate[] => {
+      const item = unreadItems[index];
+      return item && itemScore(item) <= watermarks.get(state.feedId)!
+        ? [{
+          feedId: state.feedId,
+          item: { ...item, id: state.itemId },
+          position: [itemScore(item), state.feedId, state.itemId],
+          streamed: false,
+        }]
+        : [];
+    });
+
+    // States of the items a round is about to walk, read once per round rather than for every
+    // item the user ever touched
+    const loadStates = (candidates: RiverCandidate[]) =>
+      Effect.gen(function* () {
+        const unknown = candidates.filter(({ feedId, item }) => !stateByItem.has(stateKey(feedId, item.id)));
+        if (unknown.length === 0) {
+          return;
+        }
+
+        const idsByFeed = new Map<string, string[]>();
+        unknown.forEach(({ feedId, item }) => idsByFeed.set(feedId, [...(idsByFeed.get(feedId) ?? []), item.id]));
+        const states = yield* query("Failed to read item states", () =>
+          db.select()
+            .from(itemState)
+            .where(and(
+              eq(itemState.userId, userId),
+              or(...[...idsByFeed].map(([feedId, itemIds]) =>
+                and(eq(itemState.feedId, feedId), inArray(itemState.itemId, itemIds))
+              ))
+            ))
+        );
+        states.forEach((state) => stateByItem.set(stateKey(state.feedId, state.itemId), state));
+      });
+
+    const state = cursor ? decodeRiverCursor(cursor) : { at: null, feeds: {} } as RiverCursor;
+    const results: RiverCandidate[] = [];
+    let exhausted = false;
+
+    for (let round = 0; round < maxRiverRounds && results.length < limit && !exhausted; round++) {
+      const pages = yield* Effect.forEach(
+        feedIds.filter((feedId) => state.feeds[feedId] !== null),
+        (feedId) => listFeedItems(feedId, { order: "date", cursor: state.feeds[feedId] ?? undefined, limit }).pipe(
+          Effect.map((page) => {
+            const watermark = watermarks.get(feedId)!;
+            const items = page.items
+              .filter((item): item is FeedItem & { id: string } => !!item.id)
+              .filter((item) => itemScore(item) > watermark);
+            return { feedId, items, done: !page.nextCursor || items.length < page.items.length };
+          })
+        ),
+        { concurrency: "unbounded" }
+      );
+
+      // The earliest point every still-open feed has been read up to
+      const horizon = pages
+        .filter((page) => !page.done && page.items.length > 0)
+        .map((page) => {
+          const last = page.items[page.items.length - 1]!;
+          return [itemScore(last), page.feedId, last.id] as RiverPosition;
+        })
+        .sort(compareRiver)[0];
+
+      const candidates = [
+        ...pages.flatMap((page) => page.items.map((item): RiverCandidate => ({
+          feedId: page.feedId,
+          item,
+          position: [itemScore(item), page.feedId, item.id],
+          streamed: true,
+        }))),
+        ...markedUnread.flat(),
+      ]
+        .filter(({ position }) => !state.at || compareRiver(position, state.at) > 0)
+        .filter(({ position }) => !horizon || compareRiver(position, horizon) <= 0)
+        .sort((a, b) => compareRiver(a.position, b.position));
+      yield* loadStates(candidates);
+
+      let walked = 0;
+      for (const candidate of candidates) {
+        walked++;
+        state.at = candidate.position;
+        if (stateByItem.get(stateKey(candidate.feedId, candidate.item.id))?.read !== true) {
+          results.push(candidate);
+          if (results.length === limit) {
+            break;
+          }
+        }
+      }
+
+      // Resume each feed after the last of its items walked past, or close it once fully walked
+      const walkedCandidates = candidates.slice(0, walked);
+      for (const page of pages) {
+        const lastWalked = walkedCandidates.filter((candidate) => candidate.streamed && candidate.feedId === page.feedId).pop();
+        const fullyWalked = page.items.every((item) =>
+          walkedCandidates.some((candidate) => candidate.streamed && candidate.item === item)
+        );
+
+        if (page.done && fullyWalked) {
+          state.feeds[page.feedId] = null;
+        } else if (lastWalked) {
+          state.feeds[page.feedId] = `${lastWalked.position[0]}:${lastWalked.item.id}`;
+        }
+      }
+
+      exhausted = feedIds.every((feedId) => state.feeds[feedId] === null) && walked === candidates.length;
+    }
+
+    const titles = yield* feedTitles(feedIds);
+
+    return {
+      items: results.map(({ feedId, item }): RiverItem => ({
+        feedId,
+        feedTitle: titles.get(feedId) ?? feedId,
+        item,
+        starred: stateByItem.get(stateKey(feedId, item.id))?.starred ?? false,
+      })),
+      nextCursor: exhausted ? null : encodeRiverCursor(state),
+    };
+  });
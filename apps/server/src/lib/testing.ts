@@ -0,0 +1,59 @@
+import { beforeEach } from "bun:test";
+import { Effect } from "effect";
+import type { Feed, FeedItem } from "../schemas/feed";
+import { MemoryRedisClient } from "./memory-redis";
+import { makeRedisService, RedisService } from "./redis";
+
+// Shared fixtures for the server's tests
+
+export const makeFeed = (feedId: string, items: FeedItem[] = [], options: Partial<Feed["options"]> = {}): Feed => ({
+  options: { id: feedId, title: `Feed ${feedId}`, copyright: "", ...options },
+  items,
+  categories: [],
+  contributors: [],
+  extensions: [],
+});
+
+// Numbered items are dated a day apart from 2024-01-01; named ones all fall on that day
+export const makeItem = (key: number | string, fields: Partial<FeedItem> = {}): FeedItem => ({
+  title: `Item ${key}`,
+  link: `https://example.com/${key}`,
+  guid: `guid-${key}`,
+  date: new Date(Date.UTC(2024, 0, typeof key === "number" ? key : 1)).toISOString(),
+  ...fields,
+});
+
+// Stores a feed the way it was kept before item keys were scoped to feeds and indexed: item:{id}
+// keys listed newest first in feed:{id}:items. `items` are given oldest first.
+export const storeLegacyFeed = async (client: MemoryRedisClient, feed: Feed) => {
+  const items = feed.items.map((item) => ({ ...item, id: item.id ?? crypto.randomUUID() }));
+  await client.send("SET", [`feed:${feed.options.id}`, JSON.stringify({ ...feed, items: [] })]);
+  await client.send("SADD", ["feeds:directory", feed.options.id]);
+  for (const item of items) {
+    await client.send("SET", [`item:${item.id}`, JSON.stringify(item)]);
+    await client.send("LPUSH", [`feed:${feed.options.id}:items`, item.id]);
+  }
+  return items;
+};
+
+export type TestRedis = {
+  client: MemoryRedisClient;
+  redis: ReturnType<typeof makeRedisService>;
+  run: <A, E>(effect: Effect.Effect<A, E, RedisService>) => Promise<A>;
+};
+
+// Gives every test in the file a fresh in-memory store. Tests may swap `redis` for one
+// built on a wrapped connection; `run` always provides the current one.
+export const useMemoryRedis = (): TestRedis => {
+  const store = {
+    run: <A, E>(effect: Effect.Effect<A, E, RedisService>) =>
+      Effect.runPromise(Effect.provideService(effect, RedisService, store.redis)),
+  } as TestRedis;
+
+  beforeEach(() => {
+    store.client = new MemoryRedisClient();
+    store.redis = makeRedisService(store.client, store.client);
+  });
+
+  return store;
+};
@@ -1,14 +1,38 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import type { Context } from "./context";
 
-export const t = initTRPC.context<Context>().create();
+// Bun drops connections idle for 10 seconds, so subscription streams ping more often than that
+export const t = initTRPC.context<Context>().create({
+  sse: {
+    ping: { enabled: true, intervalMs: 5_000 },
+    client: { reconnectAfterInactivityMs: 15_000 },
+  },
+});
 
 export const router = t.router;
 
 export const publicProcedure = t.procedure;
 
+// Accepts either a signed-in user or a valid API key
 export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
-  if (!ctx.session) {
+  if (!ctx.principal) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Authentication required",
+      cause: "No session or valid API key",
+    });
+  }
+  return next({
+    ctx: {
+      ...ctx,
+      principal: ctx.principal,
+    },
+  });
+});
+
+// Signed-in users only, for account operations an API key must not perform
+export const sessionProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.session || !ctx.principal) {
     throw new TRPCError({
       code: "UNAUTHORIZED",
       message: "Authentication required",
@@ -19,6 +43,7 @@ export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
     ctx: {
       ...ctx,
       session: ctx.session,
+      principal: ctx.principal,
     },
   });
 });
@@ -0,0 +1,47 @@
+import { eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { nearAccount, user } from "../db/schema/auth";
+
+export type UserSummary = {
+  userId: string;
+  name: string;
+  accountId: string | null;
+};
+
+// People are addressed by NEAR account in the UI, but stored by better-auth user id
+export async function findUserIdByAccountId(accountId: string) {
+  const [row] = await db
+    .select({ userId: nearAccount.userId })
+    .from(nearAccount)
+    .where(eq(nearAccount.accountId, accountId))
+    .limit(1);
+
+  return row?.userId ?? null;
+}
+
+export async function describeUsers(userIds: string[]) {
+  const users = new Map<string, UserSummary>();
+  if (userIds.length === 0) {
+    return users;
+  }
+
+  const rows = await db
+    .select({
+      userId: user.id,
+      name: user.name,
+      accountId: nearAccount.accountId,
+      isPrimary: nearAccount.isPrimary,
+    })
+    .from(user)
+    .leftJoin(nearAccount, eq(nearAccount.userId, user.id))
+    .where(inArray(user.id, userIds));
+
+  // A user may have linked several accounts; show the primary one
+  for (const { userId, name, accountId, isPrimary } of rows) {
+    if (!users.has(userId) || isPrimary) {
+      users.set(userId, { userId, name, accountId });
+    }
+  }
+
+  return users;
+}
@@ -0,0 +1,272 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { createHmac } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { getTestDatabase } from "../db/testing";
+import { websubDelivery, websubSubscription } from "../db/schema/websub";
+import * as renderer from "./feed-renderer";
+import { makeFeed, makeItem, useMemoryRedis } from "./testing";
+import { notifyHub, parseHubRequest, runHubTick, verifyIntent, type WebSubRequest } from "./websub";
+
+const database = await getTestDatabase();
+
+const store = useMemoryRedis();
+const { run } = store;
+
+type Received = { method: string; url: URL; headers: Headers; body: string };
+
+// A local subscriber: it echoes challenges and accepts deliveries unless a test says otherwise
+let received: Received[];
+let respond: (request: Received) => Response;
+const subscriber = Bun.serve({
+  hostname: "127.0.0.1",
+  port: 0,
+  fetch: async (request) => {
+    const entry = { method: request.method, url: new URL(request.url), headers: request.headers, body: await request.text() };
+    received.push(entry);
+    return respond(entry);
+  },
+});
+
+const echo = ({ method, url }: Received) =>
+  method === "GET" ? new Response(url.searchParams.get("hub.challenge")) : new Response(null, { status: 204 });
+
+const origin = "http://hub.test";
+const topic = `${origin}/feeds/podcast/rss.xml`;
+const callback = `http://127.0.0.1:${subscriber.port}/callback`;
+
+const request = (overrides: Partial<WebSubRequest> = {}): WebSubRequest => ({
+  mode: "subscribe",
+  topic,
+  callback,
+  feedId: "podcast",
+  leaseSeconds: 3600,
+  ...overrides,
+});
+
+const subscriptions = () => database.db.select().from(websubSubscription);
+const deliveries = () => database.db.select().from(websubDelivery);
+const deliveriesReceived = () => received.filter(({ method }) => method === "POST");
+
+const secondsFromNow = (date: Date) => Math.round((date.getTime() - Date.now()) / 1000);
+
+// Makes every queued delivery due now
+const makeDue = () => database.db.update(websubDelivery).set({ nextAttemptAt: new Date(Date.now() - 1000) });
+
+beforeAll(() => {
+  process.env.SAFE_FETCH_ALLOWED_HOSTS = "127.0.0.1";
+});
+
+afterAll(() => {
+  delete process.env.SAFE_FETCH_ALLOWED_HOSTS;
+  subscriber.stop(true);
+});
+
+beforeEach(async () => {
+  await database.reset();
+  received = [];
+  respond = echo;
+  await run(store.redis.addFeed(makeFeed("podcast", [makeItem(1, { id: "episode-1", title: "Episode one" })])));
+});
+
+describe("parseHubRequest", () => {
+  const form = (fields: Record<string, string>) => ({
+    "hub.mode": "subscribe",
+    "hub.topic": topic,
+    "hub.callback": "https://subscriber.example.com/callback",
+    ...fields,
+  });
+
+  test("clamps the requested lease", async () => {
+    expect(await run(parseHubRequest(form({ "hub.lease_seconds": "10" }), origin))).toMatchObject({
+      feedId: "podcast",
+      leaseSeconds: 5 * 60,
+    });
+    expect((await run(parseHubRequest(form({}), origin))).leaseSeconds).toBe(10 * 24 * 60 * 60);
+  });
+
+  test.each([
+    [{ "hub.mode": "publish" }, "hub.mode must be subscribe or unsubscribe"],
+    [{ "hub.topic": "https://elsewhere.example.com/feed.xml" }, "is not a feed published through this hub"],
+    [{ "hub.topic": `${origin}/feeds/missing/rss.xml` }, "Feed missing does not exist"],
+    [{ "hub.callback": "http://subscriber.example.com/callback", "hub.secret": "s3cret" }, "only accepted with an https"],
+  ])("refuses %o", async (fields, message) => {
+    await expect(run(parseHubRequest(form(fields), origin))).rejects.toThrow(message);
+  });
+});
+
+describe("verifyIntent", () => {
+  test("stores the subscription once the subscriber echoes the challenge", async () => {
+    expect(await run(verifyIntent(request()))).toBe(true);
+
+    const [challenge] = received;
+    expect(Object.fromEntries(challenge!.url.searchParams)).toMatchObject({
+      "hub.mode": "subscribe",
+      "hub.topic": topic,
+      "hub.lease_seconds": "3600",
+    });
+    const [stored] = await subscriptions();
+    expect(stored).toMatchObject({ feedId: "podcast", topic, callback, leaseSeconds: 3600, secret: null });
+    expect(secondsFromNow(stored!.expiresAt)).toBeWithin(3595, 3601);
+  });
+
+  test("stores nothing when the challenge comes back wrong", async () => {
+    respond = () => new Response("not the challenge");
+
+    expect(await run(verifyIntent(request()))).toBe(false);
+    expect(await subscriptions()).toEqual([]);
+  });
+
+  test("renewing replaces the lease and the secret", async () => {
+    await run(verifyIntent(request({ secret: "first" })));
+    await run(verifyIntent(request({ leaseSeconds: 7200, secret: "second" })));
+
+    const stored = await subscriptions();
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ leaseSeconds: 7200, secret: "second" });
+  });
+
+  test("an unsubscribe is verified too before the subscription goes", async () => {
+    await run(verifyIntent(request()));
+
+    respond = () => new Response("no");
+    expect(await run(verifyIntent(request({ mode: "unsubscribe" })))).toBe(false);
+    expect(await subscriptions()).toHaveLength(1);
+
+    respond = echo;
+    expect(await run(verifyIntent(request({ mode: "unsubscribe" })))).toBe(true);
+    expect(received.at(-1)?.url.searchParams.get("hub.mode")).toBe("unsubscribe");
+    expect(await subscriptions()).toEqual([]);
+  });
+});
+
+describe("content distribution", () => {
+  test("sends the rendered feed, signed with the subscriber's secret", async () => {
+    await run(verifyIntent(request({ secret: "s3cret" })));
+
+    await run(notifyHub("podcast"));
+    await run(runHubTick);
+
+    const [delivery] = deliveriesReceived();
+    expect(delivery?.headers.get("content-type")).toBe("application/rss+xml; charset=utf-8");
+    expect(delivery?.headers.get("link")).toBe(`<${origin}/websub>; rel="hub", <${topic}>; rel="self"`);
+    expect(delivery?.body).toContain("Episode one");
+    expect(delivery?.headers.get("x-hub-signature")).toBe(
+      `sha256=${createHmac("sha256", "s3cret").update(delivery!.body).digest("hex")}`
+    );
+    expect(await deliveries()).toEqual([]);
+  });
+
+  test("deliveries to subscribers without a secret are unsigned", async () => {
+    await run(verifyIntent(request()));
+
+    await run(notifyHub("podcast"));
+    await run(runHubTick);
+
+    expect(deliveriesReceived()[0]?.headers.has("x-hub-signature")).toBe(false);
+  });
+
+  test("several updates before a tick make one delivery", async () => {
+    await run(verifyIntent(request()));
+
+    await run(notifyHub("podcast"));
+    await run(notifyHub("podcast"));
+    await run(runHubTick);
+
+    expect(deliveriesReceived()).toHaveLength(1);
+  });
+
+  test("failed deliveries are retried with growing backoff", async () => {
+    await run(verifyIntent(request()));
+    respond = (entry) => entry.method === "POST" ? new Response(null, { status: 500 }) : echo(entry);
+
+    await run(notifyHub("podcast"));
+    await run(runHubTick);
+
+    let [queued] = await deliveries();
+    expect(queued).toMatchObject({ attempts: 1, lastError: "HTTP 500" });
+    expect(secondsFromNow(queued!.nextAttemptAt)).toBeWithin(28, 31);
+
+    // Not due yet
+    await run(runHubTick);
+    expect(deliveriesReceived()).toHaveLength(1);
+
+    await makeDue();
+    await run(runHubTick);
+    [queued] = await deliveries();
+    expect(queued?.attempts).toBe(2);
+    expect(secondsFromNow(queued!.nextAttemptAt)).toBeWithin(58, 61);
+
+    respond = echo;
+    await makeDue();
+    await run(runHubTick);
+    expect(deliveriesReceived()).toHaveLength(3);
+    expect(await deliveries()).toEqual([]);
+  });
+
+  test("gives up after the last attempt but keeps the subscription", async () => {
+    await run(verifyIntent(request()));
+    respond = (entry) => entry.method === "POST" ? new Response(null, { status: 503 }) : echo(entry);
+
+    await run(notifyHub("podcast"));
+    await database.db.update(websubDelivery).set({ attempts: 7 });
+    await run(runHubTick);
+
+    expect(await deliveries()).toEqual([]);
+    expect(await subscriptions()).toHaveLength(1);
+  });
+
+  test("a subscriber answering 410 Gone is unsubscribed", async () => {
+    await run(verifyIntent(request()));
+    respond = (entry) => entry.method === "POST" ? new Response(null, { status: 410 }) : echo(entry);
+
+    await run(notifyHub("podcast"));
+    await run(runHubTick);
+
+    expect(await subscriptions()).toEqual([]);
+    expect(await deliveries()).toEqual([]);
+  });
+
+  test("a feed that fails to render is retried, and the tick carries on", async () => {
+    await run(verifyIntent(request()));
+    const render = spyOn(renderer, "renderFeed").mockImplementation(() => {
+      throw new RangeError("Invalid time value");
+    });
+
+    try {
+      await run(notifyHub("podcast"));
+      await run(runHubTick);
+    } finally {
+      render.mockRestore();
+    }
+
+    expect(deliveriesReceived()).toEqual([]);
+    expect((await deliveries())[0]).toMatchObject({ attempts: 1, lastError: `Rendering ${topic} failed` });
+  });
+});
+
+describe("leases", () => {
+  test("an expired lease ends the subscription and nothing more is queued for it", async () => {
+    await run(verifyIntent(request()));
+    await database.db.update(websubSubscription)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(websubSubscription.callback, callback));
+
+    await run(notifyHub("podcast"));
+    expect(await deliveries()).toEqual([]);
+
+    await run(runHubTick);
+    expect(await subscriptions()).toEqual([]);
+    expect(deliveriesReceived()).toEqual([]);
+  });
+
+  test("deliveries already queued go with the subscription when its lease runs out", async () => {
+    await run(verifyIntent(request()));
+    await run(notifyHub("podcast"));
+    await database.db.update(websubSubscription).set({ expiresAt: new Date(Date.now() - 1000) });
+
+    await run(runHubTick);
+
+    expect(await deliveries()).toEqual([]);
+    expect(deliveriesReceived()).toEqual([]);
+  });
+});
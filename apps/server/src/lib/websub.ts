@@ -0,0 +1,332 @@
+import { createHash, createHmac, randomBytes } from "node:crypto";
+import { and, eq, inArray, lte, gt } from "drizzle-orm";
+import { Data, Duration, Effect, Layer, Schedule } from "effect";
+import { db } from "../db";
+import { websubDelivery, websubSubscription } from "../db/schema/websub";
+import { feedContentTypes, feedDocuments, getHubUrl, renderFeed } from "./feed-renderer";
+import { getFeed } from "./redis";
+import { safeFetch } from "./safe-fetch";
+
+export class WebSubRequestError extends Data.TaggedError("WebSubRequestError")<{
+  message: string;
+}> { }
+
+export class WebSubDeliveryError extends Data.TaggedError("WebSubDeliveryError")<{
+  message: string;
+  cause?: unknown;
+}> { }
+
+export class WebSubStoreError extends Data.TaggedError("WebSubStoreError")<{
+  message: string;
+  cause?: unknown;
+}> { }
+
+const HUB_TICK = Duration.seconds(Number(process.env.WEBSUB_TICK_SECONDS) || 15);
+const REQUEST_TIMEOUT = Duration.seconds(10);
+const DEFAULT_LEASE_SECONDS = 10 * 24 * 60 * 60;
+const MIN_LEASE_SECONDS = 5 * 60;
+const MAX_LEASE_SECONDS = 30 * 24 * 60 * 60;
+const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE = Duration.seconds(30);
+const DELIVERY_BATCH = 50;
+const DELIVERY_CONCURRENCY = 4;
+
+export type WebSubMode = "subscribe" | "unsubscribe";
+
+export type WebSubRequest = {
+  mode: WebSubMode;
+  topic: string;
+  callback: string;
+  feedId: string;
+  leaseSeconds: number;
+  secret?: string;
+};
+
+type WebSubSubscription = typeof websubSubscription.$inferSelect;
+
+const query = <A>(message: string, run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (error) => new WebSubStoreError({ message, cause: error }),
+  });
+
+const subscriptionId = (topic: string, callback: string) =>
+  createHash("sha256").update(`${topic}\n${callback}`).digest("hex").slice(0, 32);
+
+// Topics are the feed documents served by this instance: {origin}/feeds/{feedId}/{document}
+const parseTopic = (topic: string, origin: string) => {
+  const prefix = `${origin}/feeds/`;
+  if (!topic.startsWith(prefix)) {
+    return null;
+  }
+  const [feedId, document, ...rest] = topic.slice(prefix.length).split("/");
+  if (!feedId || !document || rest.length > 0 || !feedDocuments[document]) {
+    return null;
+  }
+  return { feedId: decodeURIComponent(feedId), format: feedDocuments[document]! };
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const fail = (message: string) => Effect.fail(new WebSubRequestError({ message }));
+
+// Validates a subscriber's form-encoded request to the hub; intent is verified separately
+export const parseHubRequest = (form: Record<string, unknown>, origin: string) =>
+  Effect.gen(function* () {
+    const field = (name: string) => typeof form[name] === "string" ? (form[name] as string).trim() : undefined;
+
+    const mode = field("hub.mode");
+    const topic = field("hub.topic");
+    const callback = field("hub.callback");
+    const secret = field("hub.secret") || undefined;
+    const requestedLease = Number(field("hub.lease_seconds"));
+
+    if (mode !== "subscribe" && mode !== "unsubscribe") {
+      return yield* fail("hub.mode must be subscribe or unsubscribe");
+    }
+    if (!callback || !isHttpUrl(callback)) {
+      return yield* fail("hub.callback must be an http(s) URL");
+    }
+    if (!topic) {
+      return yield* fail("hub.topic is required");
+    }
+    if (secret && Buffer.byteLength(secret) >= 200) {
+      return yield* fail("hub.secret must be shorter than 200 bytes");
+    }
+    // The secret would travel in the clear on every verification and signed delivery
+    if (secret && new URL(callback).protocol !== "https:") {
+      return yield* fail("hub.secret is only accepted with an https hub.callback");
+    }
+
+    const parsed = parseTopic(topic, origin);
+    if (!parsed) {
+      return yield* fail(`${topic} is not a feed published through this hub`);
+    }
+    if (mode === "subscribe" && !(yield* getFeed(parsed.feedId, { includeItems: false }))) {
+      return yield* fail(`Feed ${parsed.feedId} does not exist`);
+    }
+
+    const leaseSeconds = Number.isFinite(requestedLease) && requestedLease > 0
+      ? Math.min(Math.max(Math.round(requestedLease), MIN_LEASE_SECONDS), MAX_LEASE_SECONDS)
+      : DEFAULT_LEASE_SECONDS;
+
+    return { mode, topic, callback, feedId: parsed.feedId, leaseSeconds, secret } as WebSubRequest;
+  });
+
+// Asks the subscriber to echo a challenge before anything is stored or removed
+export const verifyIntent = (request: WebSubRequest) =>
+  Effect.gen(function* () {
+    const challenge = randomBytes(16).toString("hex");
+    const url = new URL(request.callback);
+    url.searchParams.set("hub.mode", request.mode);
+    url.searchParams.set("hub.topic", request.topic);
+    url.searchParams.set("hub.challenge", challenge);
+    if (request.mode === "subscribe") {
+      url.searchParams.set("hub.lease_seconds", String(request.leaseSeconds));
+    }
+
+    const confirmed = yield* Effect.tryPromise(async () => {
+      const response = await safeFetch(url, { signal: AbortSignal.timeout(Duration.toMillis(REQUEST_TIMEOUT)) });
+      return response.ok && (await response.text()).trim() === challenge;
+    }).pipe(Effect.orElseSucceed(() => false));
+
+    if (!confirmed) {
+      yield* Effect.logInfo(`WebSub ${request.mode} of ${request.callback} to ${request.topic} was not confirmed`);
+      return false;
+    }
+
+    const id = subscriptionId(request.topic, request.callback);
+
+    if (request.mode === "unsubscribe") {
+      yield* query(`Failed to remove subscription ${id}`, () =>
+        db.delete(websubSubscription).where(eq(websubSubscription.id, id))
+      );
+      return true;
+    }
+
+    const now = new Date();
+    const values = {
+      feedId: request.feedId,
+      secret: request.secret ?? null,
+      leaseSeconds: request.leaseSeconds,
+      expiresAt: new Date(now.getTime() + request.leaseSeconds * 1000),
+    };
+
+    // Re-subscribing renews the lease and replaces the secret
+    yield* query(`Failed to store subscription ${id}`, () =>
+      db.insert(websubSubscription)
+        .values({ id, topic: request.topic, callback: request.callback, createdAt: now, ...values })
+        .onConflictDoUpdate({ target: websubSubscription.id, set: values })
+    );
+    return true;
+  });
+
+// Queues a content distribution to every subscriber of the feed. Failures are only logged so
+// a hub problem never fails the write that triggered it.
+export const notifyHub = (feedId: string) =>
+  Effect.gen(function* () {
+    const now = new Date();
+    const subscriptions = yield* query(`Failed to read subscribers of feed ${feedId}`, () =>
+      db.select({ id: websubSubscription.id })
+        .from(websubSubscription)
+        .where(and(eq(websubSubscription.feedId, feedId), gt(websubSubscription.expiresAt, now)))
+    );
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    yield* query(`Failed to queue deliveries for feed ${feedId}`, () =>
+      db.insert(websubDelivery)
+        .values(subscriptions.map(({ id }) => ({ subscriptionId: id, attempts: 0, nextAttemptAt: now })))
+        .onConflictDoUpdate({
+          target: websubDelivery.subscriptionId,
+          set: { attempts: 0, nextAttemptAt: now, lastError: null },
+        })
+    );
+  }).pipe(
+    Effect.catchAll((error) => Effect.logWarning(`WebSub notification for feed ${feedId} failed: ${error.message}`))
+  );
+
+const signature = (secret: string, body: string) =>
+  `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+// Resolves to the HTTP status, or fails when the subscriber could not be reached
+const deliver = (subscription: WebSubSubscription) =>
+  Effect.gen(function* () {
+    const origin = new URL(subscription.topic).origin;
+    const topic = parseTopic(subscription.topic, origin);
+    const feed = topic ? yield* getFeed(topic.feedId) : null;
+
+    if (!topic || !feed) {
+      // The feed is gone, so is the topic
+      return 410;
+    }
+
+    const body = yield* Effect.try({
+      try: () => renderFeed(feed, topic.format, origin),
+      catch: (error) => new WebSubDeliveryError({ message: `Rendering ${subscription.topic} failed`, cause: error }),
+    });
+    const headers: Record<string, string> = {
+      "Content-Type": feedContentTypes[topic.format],
+      Link: `<${getHubUrl(origin)}>; rel="hub", <${subscription.topic}>; rel="self"`,
+    };
+    if (subscription.secret) {
+      headers["X-Hub-Signature"] = signature(subscription.secret, body);
+    }
+
+    return yield* Effect.tryPromise({
+      try: async () => {
+        const response = await safeFetch(subscription.callback, {
+          method: "POST",
+          headers,
+          body,
+          signal: AbortSignal.timeout(Duration.toMillis(REQUEST_TIMEOUT)),
+        });
+        return response.status;
+      },
+      catch: (error) => new WebSubDeliveryError({
+        message: error instanceof Error ? error.message : "Delivery failed",
+        cause: error,
+      }),
+    });
+  });
+
+const processDelivery = (delivery: typeof websubDelivery.$inferSelect, subscription: WebSubSubscription) =>
+  Effect.gen(function* () {
+    const status = yield* deliver(subscription).pipe(
+      Effect.catchAll((error) => Effect.succeed(error.message))
+    );
+
+    // 410 Gone means the subscriber no longer wants this topic
+    if (status === 410) {
+      yield* query(`Failed to remove subscription ${subscription.id}`, () =>
+        db.delete(websubSubscription).where(eq(websubSubscription.id, subscription.id))
+      );
+      return;
+    }
+
+    if (typeof status === "number" && status >= 200 && status < 300) {
+      yield* query(`Failed to complete delivery to ${subscription.callback}`, () =>
+        db.delete(websubDelivery).where(eq(websubDelivery.subscriptionId, subscription.id))
+      );
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const lastError = typeof status === "number" ? `HTTP ${status}` : status;
+
+    if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+      yield* Effect.logWarning(`Giving up delivering ${subscription.topic} to ${subscription.callback}: ${lastError}`);
+      yield* query(`Failed to drop delivery to ${subscription.callback}`, () =>
+        db.delete(websubDelivery).where(eq(websubDelivery.subscriptionId, subscription.id))
+      );
+      return;
+    }
+
+    // Exponential backoff: 30s, 1m, 2m... up to about an hour before giving up
+    const backoff = Duration.times(RETRY_BASE, 2 ** (attempts - 1));
+    yield* query(`Failed to reschedule delivery to ${subscription.callback}`, () =>
+      db.update(websubDelivery)
+        .set({ attempts, lastError, nextAttemptAt: new Date(Date.now() + Duration.toMillis(backoff)) })
+        .where(eq(websubDelivery.subscriptionId, subscription.id))
+    );
+  });
+
+export const runHubTick = Effect.gen(function* () {
+  const now = new Date();
+
+  // Expired leases end the subscription, along with anything still queued for it
+  yield* query("Failed to expire subscriptions", () =>
+    db.delete(websubSubscription).where(lte(websubSubscription.expiresAt, now))
+  );
+
+  const due = yield* query("Failed to read due deliveries", () =>
+    db.select()
+      .from(websubDelivery)
+      .where(lte(websubDelivery.nextAttemptAt, now))
+      .orderBy(websubDelivery.nextAttemptAt)
+      .limit(DELIVERY_BATCH)
+  );
+  if (due.length === 0) {
+    return;
+  }
+
+  const subscriptions = yield* query("Failed to read subscriptions", () =>
+    db.select()
+      .from(websubSubscription)
+      .where(inArray(websubSubscription.id, due.map((delivery) => delivery.subscriptionId)))
+  );
+  const subscriptionsById = new Map(subscriptions.map((subscription) => [subscription.id, subscription]));
+
+  yield* Effect.forEach(
+    due,
+    (delivery) => {
+      const subscription = subscriptionsById.get(delivery.subscriptionId);
+      return subscription
+        // A delivery that dies, even of a defect, must not take the rest of the batch with it
+        ? processDelivery(delivery, subscription).pipe(
+          Effect.catchAllCause((cause) => Effect.logError(`WebSub delivery to ${subscription.callback} failed`, cause))
+        )
+        : Effect.void;
+    },
+    { concurrency: DELIVERY_CONCURRENCY, discard: true }
+  );
+});
+
+// Background fiber scoped to the runtime, like the feed poller. Defects are caught as well, or
+// one would end the repeat for the life of the process.
+export const WebSubHubLive = Layer.scopedDiscard(
+  runHubTick.pipe(
+    Effect.catchAllCause((cause) => Effect.logError("WebSub hub tick failed", cause)),
+    Effect.repeat(Schedule.spaced(HUB_TICK)),
+    Effect.forkScoped
+  )
+);
@@ -1,24 +1,238 @@
 import { TRPCError } from "@trpc/server";
-import { Effect } from "effect";
+import { Cause, Effect, Exit, Stream } from "effect";
 import { z } from "zod";
 import {
   publicProcedure,
   protectedProcedure,
+  sessionProcedure,
   router
 } from "../lib/trpc";
-import { Feed, FeedItem } from "../schemas/feed";
+import { Feed, FeedId, FeedItem } from "../schemas/feed";
+import { CollaboratorRole, FeedRole } from "../schemas/acl";
+import { Submission, SubmissionStatus } from "../schemas/submission";
+import { SearchResult } from "../schemas/search";
+import { FeedSettings, RetentionPolicy } from "../schemas/settings";
+import { ItemFilter } from "../schemas/filter";
 import { 
   addFeed, 
+  replaceFeed,
   getFeed, 
   getFeeds, 
   deleteFeed,
-  addFeedItem, 
   getFeedItems, 
   getFeedItem, 
-  RedisError 
+  listFeedItems,
+  getFeedAcl,
+  getFeedSettings,
+  setFeedSettings,
+  RedisError,
+  type RedisService
 } from "../lib/redis";
+import { FeedFetchError } from "../lib/feed-fetcher";
+import { FeedParseError } from "../lib/feed-parser";
+import { importedFeedId, importFeedFromUrl } from "../lib/feed-import";
+import {
+  ApiKeyScope,
+  ApiKeySummary,
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey
+} from "../lib/api-keys";
+import {
+  authorizeFeedAction,
+  authorizeFeedMember,
+  authorizeFeedUpsert,
+  feedPermissions,
+  FeedAclConflictError,
+  FeedForbiddenError,
+  FeedNotFoundError,
+  putFeedCollaborator,
+  removeFeedCollaborator,
+  transferFeedAcl,
+  updateFeedAcl
+} from "../lib/feed-acl";
+import {
+  approveSubmission,
+  editSubmission,
+  getModerationDecisions,
+  listModerationQueue,
+  ModerationLogError,
+  rejectSubmission,
+  submitFeedItem,
+  submitFeedItems,
+  SubmissionNotFoundError
+} from "../lib/moderation";
+import { searchItems } from "../lib/search";
+import {
+  FeedItemNotFoundError,
+  FeedItemPatch,
+  InvalidFeedItemError,
+  patchFeedItem,
+  removeFeedItem
+} from "../lib/feed-items";
+import { feedEventStream } from "../lib/feed-events";
+import { notifyHub } from "../lib/websub";
+import { exportDirectoryOpml, exportSubscriptionsOpml, importOpml, OpmlParseError, OpmlTooLargeError } from "../lib/opml";
+import {
+  getRiver,
+  listStarredItems,
+  listSubscriptions,
+  markFeedsRead,
+  markItemsRead,
+  ReaderStateError,
+  setItemStarred,
+  subscribeFeed,
+  unsubscribeFeed
+} from "../lib/subscriptions";
+import { describeUsers, findUserIdByAccountId } from "../lib/users";
+import { ArchiveError, deleteArchivedItems, getArchivedItems } from "../lib/retention";
+import { getNewItems } from "../lib/items-since";
+import { filterItems, UnboundedFilterError } from "../lib/item-filter";
 import { runtime } from "../index";
 
+const FeedMember = z.object({
+  userId: z.string(),
+  name: z.string().nullable(),
+  accountId: z.string().nullable(),
+  role: FeedRole,
+});
+
+const RiverItem = z.object({
+  feedId: z.string(),
+  feedTitle: z.string(),
+  item: FeedItem,
+  starred: z.boolean(),
+});
+
+const resolveAccount = async (accountId: string) => {
+  const userId = await findUserIdByAccountId(accountId);
+  if (!userId) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No user has signed in with NEAR account ${accountId}`,
+    });
+  }
+  return userId;
+};
+
+// Shared error mapping for collaborator, moderation and reader procedures
+const toTRPCError = (action: string, error: unknown) => {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+
+  if (error instanceof FeedForbiddenError) {
+    return new TRPCError({
+      code: "FORBIDDEN",
+      message: error.message,
+    });
+  }
+
+  if (error instanceof FeedAclConflictError) {
+    return new TRPCError({
+      code: "CONFLICT",
+      message: error.message,
+    });
+  }
+
+  if (error instanceof SubmissionNotFoundError) {
+    return new TRPCError({
+      code: "NOT_FOUND",
+      message: error.message,
+    });
+  }
+
+  if (error instanceof FeedItemNotFoundError) {
+    return new TRPCError({
+      code: "NOT_FOUND",
+      message: error.message,
+    });
+  }
+
+  if (error instanceof InvalidFeedItemError) {
+    return new TRPCError({
+      code: "BAD_REQUEST",
+      message: error.message,
+      cause: error.cause,
+    });
+  }
+
+  if (error instanceof OpmlParseError) {
+    return new TRPCError({
+      code: "BAD_REQUEST",
+      message: error.message,
+      cause: error.cause,
+    });
+  }
+
+  if (error instanceof UnboundedFilterError) {
+    return new TRPCError({
+      code: "BAD_REQUEST",
+      message: error.message,
+    });
+  }
+
+  if (error instanceof OpmlTooLargeError) {
+    return new TRPCError({
+      code: "PAYLOAD_TOO_LARGE",
+      message: error.message,
+    });
+  }
+
+  if (error instanceof FeedNotFoundError) {
+    return new TRPCError({
+      code: "NOT_FOUND",
+      message: error.message,
+    });
+  }
+
+  if (error instanceof FeedFetchError) {
+    return new TRPCError({
+      code: "BAD_GATEWAY",
+      message: error.message,
+      cause: error.cause,
+    });
+  }
+
+  if (error instanceof FeedParseError) {
+    return new TRPCError({
+      code: "UNPROCESSABLE_CONTENT",
+      message: error.message,
+      cause: error.cause,
+    });
+  }
+
+  if (error instanceof ModerationLogError || error instanceof ReaderStateError || error instanceof ArchiveError) {
+    return new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: error.message,
+      cause: error.cause,
+    });
+  }
+
+  if (error instanceof RedisError) {
+    return new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: error.message,
+      cause: error.cause,
+    });
+  }
+
+  return new TRPCError({
+    code: "INTERNAL_SERVER_ERROR",
+    message: `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+  });
+};
+
+// Rejects with the effect's own failure instead of a FiberFailure so it can be matched with instanceof
+const run = <A, E>(effect: Effect.Effect<A, E, RedisService>) =>
+  runtime.runPromiseExit(effect).then((exit) => {
+    if (Exit.isFailure(exit)) {
+      throw Cause.squash(exit.cause);
+    }
+    return exit.value;
+  });
+
 export const appRouter = router({
   healthCheck: publicProcedure.query(() => {
     return "OK";
@@ -27,50 +241,32 @@ export const appRouter = router({
     .output(z.array(Feed))
     .query(async () => {
       try {
-        const feeds = await runtime.runPromise(getFeeds());
+        const feeds = await run(getFeeds());
         return feeds;
       } catch (error) {
-        if (error instanceof RedisError) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: error.message,
-            cause: error.cause,
-          });
-        }
-        
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to get feeds: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        });
+        throw toTRPCError("get feeds", error);
       }
     }),
   getFeed: publicProcedure
-    .input(z.object({ feedId: z.string() }))
+    .input(z.object({
+      feedId: FeedId,
+      // Large feeds should be paged through listFeedItems instead
+      includeItems: z.boolean().default(true),
+    }))
     .output(Feed.nullable())
     .query(async ({ input }) => {
-      const { feedId } = input;
+      const { feedId, includeItems } = input;
       
       try {
-        const feed = await runtime.runPromise(getFeed(feedId));
+        const feed = await run(getFeed(feedId, { includeItems }));
         return feed;
       } catch (error) {
-        if (error instanceof RedisError) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: error.message,
-            cause: error.cause,
-          });
-        }
-        
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to get feed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        });
+        throw toTRPCError("get feed", error);
       }
     }),
   getFeedItem: publicProcedure
     .input(z.object({
-      feedId: z.string(),
+      feedId: FeedId,
       itemId: z.string()
     }))
     .output(z.object({
@@ -81,10 +277,10 @@ export const appRouter = router({
       const { feedId, itemId } = input;
 
       try {
-        const [item, feed] = await runtime.runPromise(
+        const [item, feed] = await run(
           Effect.all([
             getFeedItem(feedId, itemId),
-            getFeed(feedId)
+            getFeed(feedId, { includeItems: false })
           ])
         );
 
@@ -95,125 +291,950 @@ export const appRouter = router({
           });
         }
 
+        if (!item) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `Item ${itemId} not found in feed ${feedId}`,
+          });
+        }
+
         return {
           item,
           feedTitle: feed.options.title
         };
       } catch (error) {
-        if (error instanceof RedisError) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: error.message,
-            cause: error.cause,
-          });
-        }
-        
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to get feed item: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        });
+        throw toTRPCError("get feed item", error);
+      }
+    }),
+  listFeedItems: publicProcedure
+    .input(z.object({
+      feedId: FeedId,
+      order: z.enum(["date", "insertion"]).default("date"),
+      cursor: z.string().nullish(),
+      limit: z.number().int().min(1).max(100).default(20),
+    }))
+    .output(z.object({
+      items: z.array(FeedItem),
+      nextCursor: z.string().nullable(),
+    }))
+    .query(async ({ input }) => {
+      const { feedId, order, cursor, limit } = input;
+
+      try {
+        return await run(
+          listFeedItems(feedId, { order, cursor: cursor ?? undefined, limit })
+        );
+      } catch (error) {
+        throw toTRPCError("list feed items", error);
+      }
+    }),
+  // Incremental polling: pass back the cursors from the previous call to get only what was
+  // added since, across a set of feeds
+  getItemsSince: publicProcedure
+    .input(z.object({
+      feeds: z.array(z.object({
+        feedId: FeedId,
+        cursor: z.string().regex(/^\d+$/, "Cursor must be an insertion sequence").nullish(),
+      })).max(1000).default([]),
+      // Poll every feed in the directory instead of only the listed ones
+      allFeeds: z.boolean().default(false),
+      limit: z.number().int().min(1).max(1000).default(100),
+    }).refine((input) => input.allFeeds || input.feeds.length > 0, {
+      message: "List the feeds to poll or set allFeeds",
+      path: ["feeds"],
+    }))
+    .output(z.array(z.object({
+      feedId: z.string(),
+      items: z.array(FeedItem),
+      cursor: z.string(),
+      latest: z.string(),
+      scanned: z.number(),
+      hasMore: z.boolean(),
+    })))
+    .query(async ({ input }) => {
+      try {
+        return await run(getNewItems(input.feeds, input.limit, { allFeeds: input.allFeeds }));
+      } catch (error) {
+        throw toTRPCError("get new items", error);
+      }
+    }),
+  search: publicProcedure
+    .input(z.object({
+      query: z.string().trim().min(1, "Search query is required").max(200),
+      feedIds: z.array(FeedId).optional(),
+      category: z.string().optional(),
+      since: z.iso.datetime({ offset: true }).optional(),
+      until: z.iso.datetime({ offset: true }).optional(),
+      limit: z.number().int().min(1).max(100).default(20),
+      offset: z.number().int().min(0).default(0),
+    }))
+    .output(z.object({
+      results: z.array(SearchResult),
+      total: z.number(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await run(searchItems(input));
+      } catch (error) {
+        throw toTRPCError("search feeds", error);
+      }
+    }),
+  // Structured listing for pipelines: no ranking, newest first, paged with an opaque cursor
+  filterItems: publicProcedure
+    .input(ItemFilter.extend({
+      cursor: z.string().nullish(),
+      limit: z.number().int().min(1).max(1000).default(100),
+    }))
+    .output(z.object({
+      items: z.array(z.object({ feedId: z.string(), item: FeedItem })),
+      nextCursor: z.string().nullable(),
+      stats: z.array(z.object({ feedId: z.string(), scanned: z.number(), matched: z.number() })),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { cursor, limit, ...filter } = input;
+
+      try {
+        return await run(filterItems(filter, { principal: ctx.principal, cursor: cursor ?? undefined, limit }));
+      } catch (error) {
+        throw toTRPCError("filter items", error);
       }
     }),
   addFeed: protectedProcedure
     .input(Feed)
     .output(z.object({
       success: z.boolean(),
-      feedId: z.string(),
+      feedId: FeedId,
       message: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        const feedId = await runtime.runPromise(addFeed(input));
+        const feedId = await run(
+          authorizeFeedUpsert(ctx.principal, input.options.id, Effect.gen(function* () {
+            const feedId = yield* addFeed(input);
+            yield* notifyHub(feedId);
+            return feedId;
+          }))
+        );
 
         return {
           success: true,
           feedId,
-          message: `Feed ${feedId} successfully created`,
+          message: `Feed ${feedId} successfully saved`,
         };
       } catch (error) {
-        if (error instanceof RedisError) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: error.message,
-            cause: error.cause,
-          });
-        }
-        
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to add feed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        });
+        throw toTRPCError("add feed", error);
+      }
+    }),
+  replaceFeed: protectedProcedure
+    .input(Feed)
+    .output(z.object({
+      success: z.boolean(),
+      feedId: FeedId,
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const feedId = await run(
+          authorizeFeedUpsert(ctx.principal, input.options.id, Effect.gen(function* () {
+            const feedId = yield* replaceFeed(input);
+            yield* notifyHub(feedId);
+            return feedId;
+          }))
+        );
+
+        return {
+          success: true,
+          feedId,
+          message: `Feed ${feedId} successfully replaced`,
+        };
+      } catch (error) {
+        throw toTRPCError("replace feed", error);
+      }
+    }),
+  importFeed: protectedProcedure
+    .input(z.object({
+      url: z.url(),
+      feedId: FeedId.optional(),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      feedId: FeedId,
+      itemCount: z.number(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { url } = input;
+      const feedId = input.feedId ?? importedFeedId(url);
+
+      try {
+        const feed = await run(importFeedFromUrl(ctx.principal, url, { feedId }));
+
+        return {
+          success: true,
+          feedId,
+          itemCount: feed.items.length,
+          message: `Feed ${feedId} successfully imported from ${url}`,
+        };
+      } catch (error) {
+        throw toTRPCError("import feed", error);
       }
     }),
   addFeedItem: protectedProcedure
     .input(z.object({
-      feedId: z.string().min(1, "Feed ID is required"),
+      feedId: FeedId,
       item: FeedItem.omit({ id: true })
     }))
     .output(z.object({
       success: z.boolean(),
       itemId: z.string(),
+      status: SubmissionStatus,
+      // The item was already published or queued; itemId is that copy's
+      duplicate: z.boolean(),
       message: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { feedId, item } = input;
 
       try {
-        const itemWithId = { ...item, id: crypto.randomUUID() };
-        
-        const itemId = await runtime.runPromise(
-          addFeedItem(feedId, itemWithId)
-        );
+        // Items are queued for a moderator and keep this id once published
+        const submission = await run(submitFeedItem(ctx.principal, feedId, item));
 
         return {
           success: true,
-          itemId,
-          message: `Item successfully added to feed ${feedId}`,
+          itemId: submission.itemId,
+          status: submission.status,
+          duplicate: submission.duplicate,
+          message: submission.duplicate
+            ? `Item is already ${submission.status === "pending" ? "awaiting review" : "published"} in feed ${feedId}`
+            : `Item submitted to feed ${feedId} for review`,
         };
       } catch (error) {
-        if (error instanceof RedisError) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: error.message,
-            cause: error.cause,
-          });
-        }
-        
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to add item to feed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        });
+        throw toTRPCError("add item to feed", error);
+      }
+    }),
+  // Many items at once, each to its own feed or to `feedId`. Entries are validated and deduplicated
+  // one by one, so a bad entry is reported in its result instead of failing the request.
+  addFeedItems: protectedProcedure
+    .input(z.object({
+      feedId: FeedId.optional(),
+      items: z.array(z.object({
+        feedId: FeedId.optional(),
+        item: z.unknown(),
+      })).min(1).max(500),
+    }).refine(
+      (input) => input.feedId || input.items.every((entry) => entry.feedId),
+      { message: "Every item needs a feed ID when no default feedId is given" }
+    ))
+    .output(z.object({
+      results: z.array(z.object({
+        index: z.number(),
+        feedId: z.string(),
+        outcome: z.enum(["submitted", "duplicate", "invalid", "forbidden", "not-found"]),
+        itemId: z.string().optional(),
+        status: SubmissionStatus.optional(),
+        message: z.string().optional(),
+      })),
+      submitted: z.number(),
+      duplicates: z.number(),
+      failed: z.number(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const entries = input.items.map((entry) => ({
+        feedId: (entry.feedId ?? input.feedId)!,
+        item: entry.item,
+      }));
+
+      try {
+        const results = await run(submitFeedItems(ctx.principal, entries));
+        const count = (outcome: string) => results.filter((result) => result.outcome === outcome).length;
+
+        return {
+          results,
+          submitted: count("submitted"),
+          duplicates: count("duplicate"),
+          failed: count("invalid") + count("forbidden") + count("not-found"),
+        };
+      } catch (error) {
+        throw toTRPCError("add items", error);
+      }
+    }),
+  updateFeedItem: protectedProcedure
+    .input(z.object({
+      feedId: FeedId,
+      itemId: z.string().min(1, "Item ID is required"),
+      patch: FeedItemPatch,
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      item: FeedItem,
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, itemId, patch } = input;
+
+      try {
+        const item = await run(patchFeedItem(ctx.principal, feedId, itemId, patch));
+
+        return {
+          success: true,
+          item,
+          message: `Item ${itemId} updated`,
+        };
+      } catch (error) {
+        throw toTRPCError("update item", error);
+      }
+    }),
+  deleteFeedItem: protectedProcedure
+    .input(z.object({
+      feedId: FeedId,
+      itemId: z.string().min(1, "Item ID is required"),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, itemId } = input;
+
+      try {
+        await run(removeFeedItem(ctx.principal, feedId, itemId));
+
+        return {
+          success: true,
+          message: `Item ${itemId} deleted from feed ${feedId}`,
+        };
+      } catch (error) {
+        throw toTRPCError("delete item", error);
       }
     }),
   deleteFeed: protectedProcedure
-    .input(z.object({ feedId: z.string() }))
+    .input(z.object({ feedId: FeedId }))
     .output(z.object({
       success: z.boolean(),
       message: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { feedId } = input;
 
       try {
-        await runtime.runPromise(deleteFeed(feedId));
+        await run(
+          Effect.gen(function* () {
+            yield* authorizeFeedAction(ctx.principal, feedId, "delete");
+            yield* deleteFeed(feedId);
+            // Only once the feed and its retention policy are gone, so no trim archives more of it
+            yield* deleteArchivedItems(feedId);
+          })
+        );
 
         return {
           success: true,
           message: `Feed ${feedId} successfully deleted`,
         };
       } catch (error) {
-        if (error instanceof RedisError) {
+        throw toTRPCError("delete feed", error);
+      }
+    }),
+  getFeedSettings: publicProcedure
+    .input(z.object({ feedId: FeedId }))
+    .output(FeedSettings)
+    .query(async ({ input }) => {
+      try {
+        return await run(getFeedSettings(input.feedId));
+      } catch (error) {
+        throw toTRPCError("get feed settings", error);
+      }
+    }),
+  updateFeedSettings: protectedProcedure
+    .input(z.object({
+      feedId: FeedId,
+      // A null retention policy removes it and keeps every item from then on
+      settings: FeedSettings.partial().extend({ retention: RetentionPolicy.nullish() }),
+    }))
+    .output(FeedSettings)
+    .mutation(async ({ ctx, input }) => {
+      const { feedId } = input;
+      const { retention, ...changes } = input.settings;
+
+      try {
+        return await run(
+          Effect.gen(function* () {
+            if (!(yield* getFeed(feedId, { includeItems: false }))) {
+              return yield* Effect.fail(new FeedNotFoundError({ message: `Feed ${feedId} not found` }));
+            }
+            yield* authorizeFeedAction(ctx.principal, feedId, "edit");
+
+            const settings: FeedSettings = { ...(yield* getFeedSettings(feedId)), ...changes };
+            if (retention !== undefined) {
+              settings.retention = retention ?? undefined;
+            }
+            yield* setFeedSettings(feedId, settings);
+            return settings;
+          })
+        );
+      } catch (error) {
+        throw toTRPCError("update feed settings", error);
+      }
+    }),
+  getArchivedItems: publicProcedure
+    .input(z.object({
+      feedId: FeedId,
+      cursor: z.string().nullish(),
+      limit: z.number().int().min(1).max(100).default(20),
+    }))
+    .output(z.object({
+      items: z.array(FeedItem),
+      nextCursor: z.string().nullable(),
+    }))
+    .query(async ({ input }) => {
+      const { feedId, cursor, limit } = input;
+
+      try {
+        return await run(getArchivedItems(feedId, { cursor: cursor ?? undefined, limit }));
+      } catch (error) {
+        throw toTRPCError("get archived items", error);
+      }
+    }),
+  getFeedPermissions: publicProcedure
+    .input(z.object({ feedId: FeedId }))
+    .output(z.object({
+      role: FeedRole.nullable(),
+      canEdit: z.boolean(),
+      canSubmit: z.boolean(),
+      canModerate: z.boolean(),
+      canDelete: z.boolean(),
+      canManage: z.boolean(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { feedId } = input;
+
+      try {
+        const acl = await run(getFeedAcl(feedId));
+        return feedPermissions(feedId, acl, ctx.principal);
+      } catch (error) {
+        throw toTRPCError("get feed permissions", error);
+      }
+    }),
+  getFeedCollaborators: protectedProcedure
+    .input(z.object({ feedId: FeedId }))
+    .output(z.object({
+      owner: FeedMember.nullable(),
+      collaborators: z.array(FeedMember.extend({ addedAt: z.string() })),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { feedId } = input;
+
+      try {
+        // Only the feed's own members get to see who else is on it
+        const acl = await run(authorizeFeedMember(ctx.principal, feedId));
+        const users = await describeUsers([acl.ownerId, ...acl.collaborators.map((collaborator) => collaborator.userId)]);
+        const describe = (userId: string) => ({
+          userId,
+          name: users.get(userId)?.name ?? null,
+          accountId: users.get(userId)?.accountId ?? null,
+        });
+
+        return {
+          owner: { ...describe(acl.ownerId), role: "owner" as const },
+          collaborators: acl.collaborators.map((collaborator) => ({
+            ...describe(collaborator.userId),
+            role: collaborator.role,
+            addedAt: collaborator.addedAt,
+          })),
+        };
+      } catch (error) {
+        throw toTRPCError("get feed collaborators", error);
+      }
+    }),
+  transferFeedOwnership: sessionProcedure
+    .input(z.object({
+      feedId: FeedId,
+      accountId: z.string().min(1, "NEAR account is required"),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, accountId } = input;
+
+      try {
+        const newOwnerId = await resolveAccount(accountId);
+
+        await run(
+          updateFeedAcl(ctx.principal, feedId, (acl) => Effect.succeed(transferFeedAcl(acl, newOwnerId)))
+        );
+
+        return {
+          success: true,
+          message: `Feed ${feedId} successfully transferred to ${accountId}`,
+        };
+      } catch (error) {
+        throw toTRPCError("transfer feed", error);
+      }
+    }),
+  addFeedCollaborator: sessionProcedure
+    .input(z.object({
+      feedId: FeedId,
+      accountId: z.string().min(1, "NEAR account is required"),
+      role: CollaboratorRole,
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, accountId, role } = input;
+
+      try {
+        const userId = await resolveAccount(accountId);
+
+        await run(
+          updateFeedAcl(ctx.principal, feedId, (acl) =>
+            acl.ownerId === userId
+              ? Effect.fail(new TRPCError({
+                code: "BAD_REQUEST",
+                message: `${accountId} already owns feed ${feedId}`,
+              }))
+              : Effect.succeed(putFeedCollaborator(acl, userId, role))
+          )
+        );
+
+        return {
+          success: true,
+          message: `${accountId} is now ${role} of feed ${feedId}`,
+        };
+      } catch (error) {
+        throw toTRPCError("add feed collaborator", error);
+      }
+    }),
+  removeFeedCollaborator: sessionProcedure
+    .input(z.object({
+      feedId: FeedId,
+      userId: z.string(),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, userId } = input;
+
+      try {
+        await run(
+          updateFeedAcl(ctx.principal, feedId, (acl) => Effect.succeed(removeFeedCollaborator(acl, userId)))
+        );
+
+        return {
+          success: true,
+          message: `Collaborator successfully removed from feed ${feedId}`,
+        };
+      } catch (error) {
+        throw toTRPCError("remove feed collaborator", error);
+      }
+    }),
+  listSubmissions: protectedProcedure
+    .input(z.object({
+      feedId: FeedId.optional(),
+      status: SubmissionStatus.default("pending"),
+      limit: z.number().int().min(1).max(100).default(50),
+    }))
+    .output(z.array(Submission))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await run(listModerationQueue(ctx.principal, input));
+      } catch (error) {
+        throw toTRPCError("list submissions", error);
+      }
+    }),
+  editSubmission: protectedProcedure
+    .input(z.object({
+      feedId: FeedId,
+      itemId: z.string(),
+      item: FeedItem.omit({ id: true }),
+    }))
+    .output(Submission)
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, itemId, item } = input;
+
+      try {
+        return await run(editSubmission(ctx.principal, feedId, itemId, item));
+      } catch (error) {
+        throw toTRPCError("edit submission", error);
+      }
+    }),
+  approveSubmission: protectedProcedure
+    .input(z.object({
+      feedId: FeedId,
+      itemId: z.string(),
+      item: FeedItem.omit({ id: true }).optional(),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      itemId: z.string(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, itemId, item } = input;
+
+      try {
+        const approved = await run(approveSubmission(ctx.principal, feedId, itemId, item));
+
+        return {
+          success: true,
+          itemId: approved.publishedItemId ?? itemId,
+          message: approved.publishedItemId
+            ? `Feed ${feedId} already has this item as ${approved.publishedItemId}`
+            : `Item ${itemId} published to feed ${feedId}`,
+        };
+      } catch (error) {
+        throw toTRPCError("approve submission", error);
+      }
+    }),
+  rejectSubmission: protectedProcedure
+    .input(z.object({
+      feedId: FeedId,
+      itemId: z.string(),
+      reason: z.string().min(1, "A reason is required"),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, itemId, reason } = input;
+
+      try {
+        await run(rejectSubmission(ctx.principal, feedId, itemId, reason));
+
+        return {
+          success: true,
+          message: `Item ${itemId} rejected`,
+        };
+      } catch (error) {
+        throw toTRPCError("reject submission", error);
+      }
+    }),
+  getModerationDecisions: protectedProcedure
+    .input(z.object({
+      feedId: FeedId,
+      limit: z.number().int().min(1).max(100).default(50),
+    }))
+    .output(z.array(z.object({
+      id: z.string(),
+      feedId: z.string(),
+      itemId: z.string(),
+      decision: z.enum(["approved", "rejected"]),
+      reason: z.string().nullable(),
+      edited: z.boolean(),
+      itemTitle: z.string(),
+      submittedBy: z.string(),
+      moderatorId: z.string(),
+      createdAt: z.string(),
+    })))
+    .query(async ({ ctx, input }) => {
+      const { feedId, limit } = input;
+
+      try {
+        return await run(getModerationDecisions(ctx.principal, feedId, limit));
+      } catch (error) {
+        throw toTRPCError("get moderation decisions", error);
+      }
+    }),
+  subscribeFeed: protectedProcedure
+    .input(z.object({ feedId: FeedId }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId } = input;
+
+      try {
+        await run(subscribeFeed(ctx.principal.userId, feedId));
+
+        return {
+          success: true,
+          message: `Subscribed to feed ${feedId}`,
+        };
+      } catch (error) {
+        throw toTRPCError("subscribe to feed", error);
+      }
+    }),
+  unsubscribeFeed: protectedProcedure
+    .input(z.object({ feedId: FeedId }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId } = input;
+
+      try {
+        await run(unsubscribeFeed(ctx.principal.userId, feedId));
+
+        return {
+          success: true,
+          message: `Unsubscribed from feed ${feedId}`,
+        };
+      } catch (error) {
+        throw toTRPCError("unsubscribe from feed", error);
+      }
+    }),
+  listSubscriptions: protectedProcedure
+    .output(z.array(z.object({
+      feedId: FeedId,
+      feedTitle: z.string(),
+      subscribedAt: z.string(),
+      readBefore: z.string().nullable(),
+    })))
+    .query(async ({ ctx }) => {
+      try {
+        return await run(listSubscriptions(ctx.principal.userId));
+      } catch (error) {
+        throw toTRPCError("list subscriptions", error);
+      }
+    }),
+  markItemsRead: protectedProcedure
+    .input(z.object({
+      feedId: FeedId,
+      itemIds: z.array(z.string()).min(1).max(500),
+      read: z.boolean().default(true),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, itemIds, read } = input;
+
+      try {
+        await run(markItemsRead(ctx.principal.userId, feedId, itemIds, read));
+
+        return {
+          success: true,
+          message: `Marked ${itemIds.length} items as ${read ? "read" : "unread"}`,
+        };
+      } catch (error) {
+        throw toTRPCError("mark items", error);
+      }
+    }),
+  markFeedsRead: protectedProcedure
+    .input(z.object({
+      // Every subscription when omitted
+      feedIds: z.array(FeedId).optional(),
+      // Items dated at or before this are marked read; defaults to now
+      before: z.iso.datetime({ offset: true }).optional(),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedIds, before } = input;
+
+      try {
+        await run(markFeedsRead(ctx.principal.userId, {
+          feedIds,
+          before: before ? new Date(before) : new Date(),
+        }));
+
+        return {
+          success: true,
+          message: "Marked items as read",
+        };
+      } catch (error) {
+        throw toTRPCError("mark feeds read", error);
+      }
+    }),
+  setItemStarred: protectedProcedure
+    .input(z.object({
+      feedId: FeedId,
+      itemId: z.string(),
+      starred: z.boolean(),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { feedId, itemId, starred } = input;
+
+      try {
+        await run(setItemStarred(ctx.principal.userId, feedId, itemId, starred));
+
+        return {
+          success: true,
+          message: `Item ${itemId} ${starred ? "starred" : "unstarred"}`,
+        };
+      } catch (error) {
+        throw toTRPCError("star item", error);
+      }
+    }),
+  listStarredItems: protectedProcedure
+    .input(z.object({
+      limit: z.number().int().min(1).max(100).default(50),
+    }))
+    .output(z.array(RiverItem))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await run(listStarredItems(ctx.principal.userId, input.limit));
+      } catch (error) {
+        throw toTRPCError("list starred items", error);
+      }
+    }),
+  getRiver: protectedProcedure
+    .input(z.object({
+      cursor: z.string().nullish(),
+      limit: z.number().int().min(1).max(100).default(20),
+    }))
+    .output(z.object({
+      items: z.array(RiverItem),
+      nextCursor: z.string().nullable(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { cursor, limit } = input;
+
+      try {
+        return await run(getRiver(ctx.principal.userId, { cursor: cursor ?? undefined, limit }));
+      } catch (error) {
+        throw toTRPCError("get river", error);
+      }
+    }),
+  exportOpml: publicProcedure
+    .input(z.object({
+      scope: z.enum(["directory", "subscriptions"]).default("directory"),
+    }))
+    .output(z.string())
+    .query(async ({ ctx, input }) => {
+      const { principal } = ctx;
+
+      try {
+        if (input.scope === "directory") {
+          return await run(exportDirectoryOpml(ctx.origin));
+        }
+
+        if (!principal) {
           throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: error.message,
-            cause: error.cause,
+            code: "UNAUTHORIZED",
+            message: "Sign in to export your subscriptions",
           });
         }
-        
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to delete feed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        });
+        return await run(exportSubscriptionsOpml(principal.userId, ctx.origin));
+      } catch (error) {
+        throw toTRPCError("export OPML", error);
+      }
+    }),
+  importOpml: protectedProcedure
+    .input(z.object({
+      opml: z.string().min(1, "OPML document is required").max(1_000_000),
+      // Also subscribe the caller to every feed listed, new or existing
+      subscribe: z.boolean().default(true),
+    }))
+    .output(z.object({
+      imported: z.number(),
+      duplicates: z.number(),
+      failed: z.number(),
+      entries: z.array(z.object({
+        url: z.string(),
+        title: z.string().optional(),
+        category: z.string().optional(),
+        status: z.enum(["imported", "duplicate", "failed"]),
+        feedId: FeedId.optional(),
+        subscribed: z.boolean(),
+        error: z.string().optional(),
+      })),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { opml, subscribe } = input;
+
+      try {
+        const entries = await run(importOpml(ctx.principal, opml, { origin: ctx.origin, subscribe }));
+        const count = (status: string) => entries.filter((entry) => entry.status === status).length;
+
+        return {
+          imported: count("imported"),
+          duplicates: count("duplicate"),
+          failed: count("failed"),
+          entries,
+        };
+      } catch (error) {
+        throw toTRPCError("import OPML", error);
+      }
+    }),
+  // Server-sent stream of feed changes; without a feedId it covers the whole directory
+  onFeedEvents: publicProcedure
+    .input(z.object({ feedId: FeedId.optional() }))
+    .subscription(async function* ({ input }) {
+      const events = Stream.toAsyncIterableRuntime(feedEventStream(input.feedId), await runtime.runtime());
+
+      try {
+        for await (const event of events) {
+          yield event;
+        }
+      } catch (error) {
+        throw toTRPCError("stream feed events", error);
+      }
+    }),
+  createApiKey: sessionProcedure
+    .input(z.object({
+      name: z.string().min(1).max(32),
+      scopes: z.array(ApiKeyScope).min(1, "At least one scope is required"),
+      expiresInDays: z.number().int().min(1).max(365).optional(),
+    }))
+    .output(z.object({
+      success: z.boolean(),
+      keyId: z.string(),
+      key: z.string(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { id, key } = await issueApiKey(ctx.session.user.id, input);
+
+        return {
+          success: true,
+          keyId: id,
+          key,
+          message: "Store this key now, it will not be shown again",
+        };
+      } catch (error) {
+        throw toTRPCError("create API key", error);
+      }
+    }),
+  listApiKeys: sessionProcedure
+    .output(z.array(ApiKeySummary))
+    .query(async ({ ctx }) => {
+      try {
+        return await listApiKeys(ctx.session.user.id);
+      } catch (error) {
+        throw toTRPCError("list API keys", error);
+      }
+    }),
+  revokeApiKey: sessionProcedure
+    .input(z.object({ keyId: z.string() }))
+    .output(z.object({
+      success: z.boolean(),
+      message: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { keyId } = input;
+
+      try {
+        const revoked = await revokeApiKey(ctx.session.user.id, keyId);
+
+        if (!revoked) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `API key ${keyId} not found`,
+          });
+        }
+
+        return {
+          success: true,
+          message: `API key ${keyId} successfully revoked`,
+        };
+      } catch (error) {
+        throw toTRPCError("revoke API key", error);
       }
     })
 });
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+export const FeedRole = z.enum(["owner", "editor", "moderator"]);
+
+export const CollaboratorRole = FeedRole.exclude(["owner"]);
+
+export const FeedCollaborator = z.object({
+  userId: z.string(),
+  role: CollaboratorRole,
+  addedAt: z.string(),
+});
+
+// Who may change a feed: its owner plus any editors and moderators they added
+export const FeedAcl = z.object({
+  feedId: z.string(),
+  ownerId: z.string(),
+  collaborators: z.array(FeedCollaborator).default([]),
+});
+
+export type FeedRole = z.infer<typeof FeedRole>;
+export type CollaboratorRole = z.infer<typeof CollaboratorRole>;
+export type FeedCollaborator = z.infer<typeof FeedCollaborator>;
+export type FeedAcl = z.infer<typeof FeedAcl>;
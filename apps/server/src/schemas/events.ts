@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+// Change notifications published on every feed write, so open pages can update without polling
+export const FeedEvent = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("items-added"),
+    feedId: z.string(),
+    itemIds: z.array(z.string()),
+    at: z.iso.datetime(),
+  }),
+  z.object({
+    type: z.literal("item-updated"),
+    feedId: z.string(),
+    itemId: z.string(),
+    at: z.iso.datetime(),
+  }),
+  z.object({
+    type: z.literal("item-deleted"),
+    feedId: z.string(),
+    itemId: z.string(),
+    at: z.iso.datetime(),
+  }),
+  z.object({
+    type: z.literal("feed-changed"),
+    feedId: z.string(),
+    change: z.enum(["updated", "replaced", "deleted"]),
+    at: z.iso.datetime(),
+  }),
+]);
+
+export type FeedEvent = z.infer<typeof FeedEvent>;
@@ -27,6 +27,15 @@ export const FeedExtension = z.object({
   objects: z.any(),
 });
 
+// Derived by the server from the raw HTML whenever an item is written; anything submitted
+// here is replaced
+export const SanitizedContent = z.object({
+  content: z.string().optional(),
+  description: z.string().optional(),
+  excerpt: z.string(),
+  image: z.string().optional(),
+});
+
 export const FeedItem = z.object({
   title: z.string(),
   id: z.string().optional(),
@@ -45,10 +54,14 @@ export const FeedItem = z.object({
   published: z.string().optional(),
   copyright: z.string().optional(),
   extensions: z.array(FeedExtension).optional(),
+  sanitized: SanitizedContent.optional(),
 });
 
+// Feed IDs are embedded in the feed's Redis keys, where ':' separates the parts
+export const FeedId = z.string().min(1, "Feed ID is required").regex(/^[^:]+$/, "Feed IDs can't contain ':'");
+
 export const FeedOptions = z.object({
-  id: z.string(),
+  id: FeedId,
   title: z.string(),
   updated: z.string().optional(),
   generator: z.string().optional(),
@@ -80,6 +93,7 @@ export type FeedAuthor = z.infer<typeof FeedAuthor>;
 export type FeedEnclosure = z.infer<typeof FeedEnclosure>;
 export type FeedCategory = z.infer<typeof FeedCategory>;
 export type FeedExtension = z.infer<typeof FeedExtension>;
+export type SanitizedContent = z.infer<typeof SanitizedContent>;
 export type FeedItem = z.infer<typeof FeedItem>;
 export type FeedOptions = z.infer<typeof FeedOptions>;
 export type Feed = z.infer<typeof Feed>;
\ No newline at end of file
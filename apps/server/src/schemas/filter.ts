@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { FeedId } from "./feed";
+
+// Every given criterion must hold; list criteria match when any of their values does
+export const ItemFilter = z.object({
+  feedIds: z.array(FeedId).optional(),
+  // Category name or term, case-insensitive
+  categories: z.array(z.string().trim().min(1)).optional(),
+  // Author name or email, case-insensitive
+  authors: z.array(z.string().trim().min(1)).optional(),
+  // Every word must appear in the item, as with search
+  query: z.string().trim().min(1).max(200).optional(),
+  since: z.iso.datetime({ offset: true }).optional(),
+  until: z.iso.datetime({ offset: true }).optional(),
+  // A MIME type ("audio/mpeg") or a whole family ("audio", "audio/*"), matched against the
+  // enclosure and any audio, video or image attachment
+  enclosureType: z.string().trim().min(1).optional(),
+});
+
+export type ItemFilter = z.infer<typeof ItemFilter>;
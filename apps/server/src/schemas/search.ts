@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { FeedItem } from "./feed";
+
+export const SearchHighlight = z.object({
+  start: z.number(),
+  end: z.number(),
+});
+
+// A piece of a matching field, with the offsets of the matched words within `text`
+export const SearchSnippet = z.object({
+  field: z.enum(["title", "description", "content"]),
+  text: z.string(),
+  highlights: z.array(SearchHighlight),
+});
+
+export const SearchResult = z.object({
+  feedId: z.string(),
+  feedTitle: z.string(),
+  item: FeedItem,
+  score: z.number(),
+  snippets: z.array(SearchSnippet),
+});
+
+export type SearchHighlight = z.infer<typeof SearchHighlight>;
+export type SearchSnippet = z.infer<typeof SearchSnippet>;
+export type SearchResult = z.infer<typeof SearchResult>;
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+// How an incoming item is recognised as one the feed already has:
+// "guid" falls back to the canonical link for items without a guid, like the source plugin does
+export const DedupStrategy = z.enum(["guid", "link", "content", "off"]);
+
+// Items past either limit fall out of the feed's live window and are trimmed in the background,
+// optionally into the Postgres archive
+export const RetentionPolicy = z.object({
+  maxItems: z.number().int().min(1).optional(),
+  maxAgeDays: z.number().positive().optional(),
+  archive: z.boolean().default(false),
+});
+
+// Per-feed behaviour editors can tune, stored beside the feed's metadata
+export const FeedSettings = z.object({
+  dedup: DedupStrategy.default("guid"),
+  retention: RetentionPolicy.optional(),
+});
+
+export type DedupStrategy = z.infer<typeof DedupStrategy>;
+export type RetentionPolicy = z.infer<typeof RetentionPolicy>;
+export type FeedSettings = z.infer<typeof FeedSettings>;
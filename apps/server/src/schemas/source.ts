@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+// Upstream document a feed mirrors, plus the HTTP cache validators and poll bookkeeping
+export const FeedSource = z.object({
+  feedId: z.string(),
+  url: z.string(),
+  etag: z.string().optional(),
+  lastModified: z.string().optional(),
+  lastFetchedAt: z.string().optional(),
+  nextFetchAt: z.string().optional(),
+  failureCount: z.number().default(0),
+  lastError: z.string().optional(),
+});
+
+export type FeedSource = z.infer<typeof FeedSource>;
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { FeedItem } from "./feed";
+
+export const SubmissionStatus = z.enum(["pending", "approved", "rejected"]);
+
+// An item waiting for, or decided by, a feed moderator. The item keeps the id it will be
+// published under, so approving it twice cannot publish a duplicate.
+export const Submission = z.object({
+  feedId: z.string(),
+  itemId: z.string(),
+  item: FeedItem,
+  status: SubmissionStatus,
+  submittedBy: z.string(),
+  submittedAt: z.string(),
+  edited: z.boolean().default(false),
+  decidedBy: z.string().optional(),
+  decidedAt: z.string().optional(),
+  reason: z.string().optional(),
+  // Set on approval when the feed already had the item: the id of the copy that is live
+  publishedItemId: z.string().optional(),
+});
+
+export type SubmissionStatus = z.infer<typeof SubmissionStatus>;
+export type Submission = z.infer<typeof Submission>;
@@ -0,0 +1,151 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc, trpcClient } from "@/utils/trpc";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+
+type CollaboratorRole = "editor" | "moderator";
+
+// Only rendered for feed owners; the server enforces the same rule
+export function FeedCollaborators({ feedId }: { feedId: string }) {
+  const queryClient = useQueryClient();
+  const collaboratorsQuery = useQuery(trpc.getFeedCollaborators.queryOptions({ feedId }));
+
+  const [accountId, setAccountId] = useState("");
+  const [role, setRole] = useState<CollaboratorRole>("editor");
+  const [newOwner, setNewOwner] = useState("");
+
+  const refresh = () => {
+    queryClient.invalidateQueries(trpc.getFeedCollaborators.pathFilter());
+    queryClient.invalidateQueries(trpc.getFeedPermissions.pathFilter());
+  };
+
+  const addCollaboratorMutation = useMutation({
+    mutationFn: async () => {
+      return trpcClient.addFeedCollaborator.mutate({ feedId, accountId, role });
+    },
+    onSuccess: (result) => {
+      toast.success(result.message ?? "Collaborator added");
+      setAccountId("");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to add collaborator: ${error.message}`);
+    },
+  });
+
+  const removeCollaboratorMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return trpcClient.removeFeedCollaborator.mutate({ feedId, userId });
+    },
+    onSuccess: () => {
+      toast.success("Collaborator removed");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to remove collaborator: ${error.message}`);
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      return trpcClient.transferFeedOwnership.mutate({ feedId, accountId: newOwner });
+    },
+    onSuccess: (result) => {
+      toast.success(result.message ?? "Ownership transferred");
+      setNewOwner("");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to transfer feed: ${error.message}`);
+    },
+  });
+
+  const owner = collaboratorsQuery.data?.owner;
+  const collaborators = collaboratorsQuery.data?.collaborators ?? [];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+        Collaborators
+      </h2>
+
+      {owner && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Owned by {owner.accountId ?? owner.name ?? owner.userId}
+        </p>
+      )}
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {collaborators.map((collaborator) => (
+          <li key={collaborator.userId} className="flex items-center justify-between py-2">
+            <span className="text-sm text-gray-900 dark:text-white">
+              {collaborator.accountId ?? collaborator.name ?? collaborator.userId}
+              <span className="ml-2 text-gray-600 dark:text-gray-400">{collaborator.role}</span>
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => removeCollaboratorMutation.mutate(collaborator.userId)}
+              disabled={removeCollaboratorMutation.isPending}
+            >
+              Remove
+            </Button>
+          </li>
+        ))}
+        {collaborators.length === 0 && (
+          <li className="py-2 text-sm text-gray-600 dark:text-gray-400">No collaborators yet</li>
+        )}
+      </ul>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addCollaboratorMutation.mutate();
+        }}
+      >
+        <Input
+          required
+          placeholder="alice.near"
+          value={accountId}
+          onChange={(e) => setAccountId(e.target.value)}
+        />
+        <select
+          className="border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 text-sm"
+          value={role}
+          onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+        >
+          <option value="editor">Editor</option>
+          <option value="moderator">Moderator</option>
+        </select>
+        <Button type="submit" disabled={addCollaboratorMutation.isPending || !accountId}>
+          {addCollaboratorMutation.isPending ? "Adding..." : "Add"}
+        </Button>
+      </form>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          transferMutation.mutate();
+        }}
+      >
+        <Input
+          required
+          placeholder="New owner, e.g. bob.near"
+          value={newOwner}
+          onChange={(e) => setNewOwner(e.target.value)}
+        />
+        <Button
+          type="submit"
+          variant="destructive"
+          disabled={transferMutation.isPending || !newOwner}
+        >
+          {transferMutation.isPending ? "Transferring..." : "Transfer Ownership"}
+        </Button>
+      </form>
+    </div>
+  );
+}
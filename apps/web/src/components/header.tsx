@@ -5,6 +5,7 @@ import { useState } from "react";
 import { Menu, X } from "lucide-react";
 
 import { ModeToggle } from "./mode-toggle";
+import { SearchBox } from "./search-box";
 import { UserMenu } from "./user-menu";
 import { Button } from "./ui/button";
 
@@ -47,6 +48,8 @@ export default function Header() {
         </Button>
         
         <div className="flex items-center gap-3 sm:gap-6">
+          <SearchBox className="hidden md:block w-64" />
+
           {/* Health Check - Hidden on small screens */}
           <div className="hidden sm:flex items-center gap-3">
             <div
@@ -81,6 +84,7 @@ export default function Header() {
       {isMobileMenuOpen && (
         <div className="md:hidden border-t bg-background/95 backdrop-blur">
           <nav className="px-4 py-4 space-y-2">
+            <SearchBox onSearch={() => setIsMobileMenuOpen(false)} />
             {links.map(({ to, label }) => {
               return (
                 <Link 
@@ -0,0 +1,136 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { useSubscription } from "@trpc/tanstack-react-query";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { trpc, trpcClient } from "@/utils/trpc";
+import { Button } from "./ui/button";
+
+type ItemsInput = { feedId: string; order: "date" | "insertion"; limit: number };
+type PendingItem = NonNullable<Awaited<ReturnType<typeof trpcClient.getFeedItem.query>>["item"]>;
+
+const byDateDesc = (a: PendingItem, b: PendingItem) => Date.parse(b.date) - Date.parse(a.date);
+
+// Listens for changes to one feed. New items are fetched as they arrive but held back behind
+// a banner, so the list doesn't shift while it is being read; showing them merges them into
+// the cached first page instead of refetching every loaded page. Edits and deletions apply
+// to the loaded pages straight away.
+export function NewItemsBanner({ itemsInput }: { itemsInput: ItemsInput }) {
+  const { feedId } = itemsInput;
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [pendingItems, setPendingItems] = useState<PendingItem[]>([]);
+
+  useEffect(() => setPendingItems([]), [feedId]);
+
+  const updateLoadedItems = (update: (items: PendingItem[]) => PendingItem[]) => {
+    queryClient.setQueryData(trpc.listFeedItems.infiniteQueryKey(itemsInput), (data) =>
+      data && {
+        ...data,
+        pages: data.pages.map((page) => ({ ...page, items: update(page.items) })),
+      }
+    );
+    setPendingItems(update);
+  };
+
+  useSubscription(
+    trpc.onFeedEvents.subscriptionOptions(
+      { feedId },
+      {
+        onData: async (event) => {
+          if (event.type === "items-added") {
+            const results = await Promise.all(
+              event.itemIds.map((itemId) => trpcClient.getFeedItem.query({ feedId, itemId }))
+            );
+            results.forEach((result) => {
+              if (result.item?.id) {
+                queryClient.setQueryData(
+                  trpc.getFeedItem.queryKey({ feedId, itemId: result.item.id }),
+                  result
+                );
+              }
+            });
+            const items = results.flatMap((result) => result.item ? [result.item] : []);
+            setPendingItems((pending) => [
+              ...items.filter((item) => !pending.some((existing) => existing.id === item.id)),
+              ...pending,
+            ]);
+            return;
+          }
+
+          if (event.type === "item-updated") {
+            const result = await trpcClient.getFeedItem.query({ feedId, itemId: event.itemId });
+            queryClient.setQueryData(trpc.getFeedItem.queryKey({ feedId, itemId: event.itemId }), result);
+            const updated = result.item;
+            if (updated) {
+              updateLoadedItems((items) => items.map((item) => item.id === updated.id ? updated : item));
+            }
+            return;
+          }
+
+          if (event.type === "item-deleted") {
+            queryClient.invalidateQueries(trpc.getFeedItem.queryFilter({ feedId, itemId: event.itemId }));
+            updateLoadedItems((items) => items.filter((item) => item.id !== event.itemId));
+            return;
+          }
+
+          switch (event.change) {
+            case "deleted":
+              toast.info("This feed was deleted");
+              queryClient.invalidateQueries(trpc.getFeeds.pathFilter());
+              navigate({ to: "/" });
+              return;
+            case "replaced":
+              // Every item was swapped out, so the loaded pages are stale as a whole
+              setPendingItems([]);
+              queryClient.invalidateQueries(trpc.getFeed.queryFilter({ feedId }));
+              queryClient.invalidateQueries(trpc.listFeedItems.infiniteQueryFilter(itemsInput));
+              return;
+            case "updated":
+              queryClient.invalidateQueries(trpc.getFeed.queryFilter({ feedId }));
+              return;
+          }
+        },
+      }
+    )
+  );
+
+  if (pendingItems.length === 0) {
+    return null;
+  }
+
+  const showItems = () => {
+    const key = trpc.listFeedItems.infiniteQueryKey(itemsInput);
+
+    if (!queryClient.getQueryData(key)) {
+      queryClient.invalidateQueries(trpc.listFeedItems.infiniteQueryFilter(itemsInput));
+    } else {
+      queryClient.setQueryData(key, (data) => {
+        if (!data) {
+          return data;
+        }
+        const [firstPage, ...otherPages] = data.pages;
+        const loadedIds = new Set(data.pages.flatMap((page) => page.items.map((item) => item.id)));
+        const newItems = pendingItems.filter((item) => !loadedIds.has(item.id));
+        const items = itemsInput.order === "date"
+          ? [...newItems, ...(firstPage?.items ?? [])].sort(byDateDesc)
+          : [...newItems, ...(firstPage?.items ?? [])];
+        return {
+          ...data,
+          pages: [{ items, nextCursor: firstPage?.nextCursor ?? null }, ...otherPages],
+        };
+      });
+    }
+
+    setPendingItems([]);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="sticky top-4 z-10 flex justify-center">
+      <Button onClick={showItems} className="shadow-md">
+        {pendingItems.length === 1 ? "1 new item" : `${pendingItems.length} new items`}
+      </Button>
+    </div>
+  );
+}
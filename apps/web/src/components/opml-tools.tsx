@@ -0,0 +1,128 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import { trpc, trpcClient } from "@/utils/trpc";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+
+type ImportReport = Awaited<ReturnType<typeof trpcClient.importOpml.mutate>>;
+
+const statusStyles: Record<ImportReport["entries"][number]["status"], string> = {
+  imported: "text-emerald-600 dark:text-emerald-400",
+  duplicate: "text-gray-600 dark:text-gray-400",
+  failed: "text-red-600 dark:text-red-400",
+};
+
+const download = (filename: string, body: string) => {
+  const url = URL.createObjectURL(new Blob([body], { type: "text/x-opml" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function OpmlTools({ scope }: { scope: "directory" | "subscriptions" }) {
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [subscribe, setSubscribe] = useState(true);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      return trpcClient.exportOpml.query({ scope });
+    },
+    onSuccess: (opml) => {
+      download(scope === "directory" ? "feeds.opml" : "subscriptions.opml", opml);
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to export OPML: ${error.message}`);
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (opmlFile: File) => {
+      return trpcClient.importOpml.mutate({ opml: await opmlFile.text(), subscribe });
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      toast.success(
+        `Imported ${result.imported}, ${result.duplicates} already present, ${result.failed} failed`
+      );
+      queryClient.invalidateQueries(trpc.getFeeds.pathFilter());
+      queryClient.invalidateQueries(trpc.listSubscriptions.pathFilter());
+      queryClient.invalidateQueries(trpc.getRiver.pathFilter());
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to import OPML: ${error.message}`);
+    },
+  });
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">OPML</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => exportMutation.mutate()}
+          disabled={exportMutation.isPending}
+        >
+          {scope === "directory" ? "Export Directory" : "Export Subscriptions"}
+        </Button>
+      </div>
+
+      <form
+        className="flex flex-wrap items-center gap-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (file) {
+            importMutation.mutate(file);
+          }
+        }}
+      >
+        <input
+          type="file"
+          accept=".opml,.xml,text/x-opml,text/xml,application/xml"
+          className="text-sm"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        />
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={`opml-subscribe-${scope}`}
+            checked={subscribe}
+            onCheckedChange={(checked) => setSubscribe(checked === true)}
+          />
+          <Label htmlFor={`opml-subscribe-${scope}`}>Subscribe me</Label>
+        </div>
+        <Button type="submit" disabled={!file || importMutation.isPending}>
+          {importMutation.isPending ? "Importing..." : "Import OPML"}
+        </Button>
+      </form>
+
+      {report && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          {report.entries.map((entry, index) => (
+            <li key={index} className="py-2 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{entry.title ?? entry.url}</div>
+                <div className="text-xs text-gray-600 dark:text-gray-400 break-all">
+                  {entry.category && `${entry.category} · `}
+                  {entry.url}
+                </div>
+                {entry.error && (
+                  <div className="text-xs text-red-600 dark:text-red-400">{entry.error}</div>
+                )}
+              </div>
+              <span className={`shrink-0 capitalize ${statusStyles[entry.status]}`}>
+                {entry.status}
+                {entry.subscribed && " · subscribed"}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { Star } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { trpc, trpcClient } from "@/utils/trpc";
+import { Button } from "./ui/button";
+
+export function River() {
+  const queryClient = useQueryClient();
+  // Items read in this session stay visible, dimmed, until the river is reloaded
+  const [readKeys, setReadKeys] = useState<Set<string>>(new Set());
+  const [starredKeys, setStarredKeys] = useState<Map<string, boolean>>(new Map());
+  // Mark All Read only covers what was there when the river was loaded, not items arriving since
+  const [loadedAt, setLoadedAt] = useState(() => new Date().toISOString());
+
+  const riverQuery = useInfiniteQuery(
+    trpc.getRiver.infiniteQueryOptions(
+      { limit: 20 },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor }
+    )
+  );
+
+  const entries = riverQuery.data?.pages.flatMap((page) => page.items) ?? [];
+  const keyOf = (feedId: string, itemId: string) => `${feedId}:${itemId}`;
+
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = riverQuery;
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((observed) => {
+      if (observed[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const reload = () => {
+    setLoadedAt(new Date().toISOString());
+    setReadKeys(new Set());
+    setStarredKeys(new Map());
+    queryClient.invalidateQueries(trpc.getRiver.pathFilter());
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async ({ feedId, itemId, read }: { feedId: string; itemId: string; read: boolean }) => {
+      return trpcClient.markItemsRead.mutate({ feedId, itemIds: [itemId], read });
+    },
+    onSuccess: (_, { feedId, itemId, read }) => {
+      setReadKeys((keys) => {
+        const next = new Set(keys);
+        if (read) {
+          next.add(keyOf(feedId, itemId));
+        } else {
+          next.delete(keyOf(feedId, itemId));
+        }
+        return next;
+      });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to update item: ${error.message}`);
+    },
+  });
+
+  const starMutation = useMutation({
+    mutationFn: async ({ feedId, itemId, starred }: { feedId: string; itemId: string; starred: boolean }) => {
+      return trpcClient.setItemStarred.mutate({ feedId, itemId, starred });
+    },
+    onSuccess: (_, { feedId, itemId, starred }) => {
+      setStarredKeys((keys) => new Map(keys).set(keyOf(feedId, itemId), starred));
+      queryClient.invalidateQueries(trpc.listStarredItems.pathFilter());
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to star item: ${error.message}`);
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      return trpcClient.markFeedsRead.mutate({ before: loadedAt });
+    },
+    onSuccess: () => {
+      toast.success("All caught up");
+      reload();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to mark items as read: ${error.message}`);
+    },
+  });
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">Unread</h2>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={reload}>
+            Refresh
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => markAllReadMutation.mutate()}
+            disabled={markAllReadMutation.isPending || entries.length === 0}
+          >
+            Mark All Read
+          </Button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {entries.map(({ feedId, feedTitle, item, starred }) => {
+          const itemId = item.id!;
+          const key = keyOf(feedId, itemId);
+          const isRead = readKeys.has(key);
+          const isStarred = starredKeys.get(key) ?? starred;
+
+          return (
+            <li key={key} className={`py-3 flex items-start gap-3 ${isRead ? "opacity-50" : ""}`}>
+              <button
+                type="button"
+                aria-label={isStarred ? "Unstar" : "Star"}
+                className="mt-1 text-yellow-500"
+                onClick={() => starMutation.mutate({ feedId, itemId, starred: !isStarred })}
+              >
+                <Star className="h-4 w-4" fill={isStarred ? "currentColor" : "none"} />
+              </button>
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-gray-600 dark:text-gray-400">
+                  <Link to="/$feedId" params={{ feedId }} className="hover:text-blue-600 dark:hover:text-blue-400">
+                    {feedTitle}
+                  </Link>
+                  {" · "}
+                  {new Date(item.date).toLocaleString()}
+                </div>
+                <Link
+                  to="/$feedId/$itemId"
+                  params={{ feedId, itemId }}
+                  className="font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                  onClick={() => !isRead && markReadMutation.mutate({ feedId, itemId, read: true })}
+                >
+                  {item.title}
+                </Link>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => markReadMutation.mutate({ feedId, itemId, read: !isRead })}
+              >
+                {isRead ? "Mark Unread" : "Mark Read"}
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div ref={loadMoreRef} className="text-center text-sm text-gray-600 dark:text-gray-400">
+        {riverQuery.isLoading || isFetchingNextPage
+          ? "Loading..."
+          : hasNextPage
+          ? "Scroll for more"
+          : entries.length === 0
+          ? "Nothing unread. Subscribe to feeds to fill your river."
+          : "You're all caught up"}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useNavigate, useRouterState } from "@tanstack/react-router";
+import { Search } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Input } from "./ui/input";
+
+export function SearchBox({ className, onSearch }: { className?: string; onSearch?: () => void }) {
+  const navigate = useNavigate();
+  // Keep the box in sync with the query shown on the results page
+  const currentQuery = useRouterState({
+    select: (state) => (state.location.pathname === "/search" ? (state.location.search as { q?: string }).q ?? "" : ""),
+  });
+  const [query, setQuery] = useState(currentQuery);
+
+  useEffect(() => {
+    setQuery(currentQuery);
+  }, [currentQuery]);
+
+  return (
+    <form
+      role="search"
+      className={className}
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!query.trim()) {
+          return;
+        }
+        navigate({ to: "/search", search: { q: query.trim() } });
+        onSearch?.();
+      }}
+    >
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          placeholder="Search items..."
+          aria-label="Search items"
+          className="pl-8"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+    </form>
+  );
+}
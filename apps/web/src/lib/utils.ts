@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Item links come from feeds and submitters, so only http(s) URLs are rendered as hrefs
+export function httpUrl(value: string | undefined) {
+  if (!value) {
+    return undefined
+  }
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -11,11 +11,13 @@
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as LoginRouteImport } from './routes/login'
 import { Route as LayoutRouteImport } from './routes/_layout'
+import { Route as LayoutSearchRouteImport } from './routes/_layout/search'
 import { Route as LayoutIndexRouteImport } from './routes/_layout/index'
 import { Route as LayoutAuthenticatedRouteImport } from './routes/_layout/_authenticated'
 import { Route as LayoutFeedIdIndexRouteImport } from './routes/_layout/$feedId/index'
 import { Route as LayoutAuthenticatedDashboardRouteImport } from './routes/_layout/_authenticated/dashboard'
 import { Route as LayoutFeedIdItemIdRouteImport } from './routes/_layout/$feedId/$itemId'
+import { Route as LayoutAuthenticatedDashboardReviewRouteImport } from './routes/_layout/_authenticated/dashboard_.review'
 
 const LoginRoute = LoginRouteImport.update({
   id: '/login',
@@ -26,6 +28,11 @@ const LayoutRoute = LayoutRouteImport.update({
   id: '/_layout',
   getParentRoute: () => rootRouteImport,
 } as any)
+const LayoutSearchRoute = LayoutSearchRouteImport.update({
+  id: '/search',
+  path: '/search',
+  getParentRoute: () => LayoutRoute,
+} as any)
 const LayoutIndexRoute = LayoutIndexRouteImport.update({
   id: '/',
   path: '/',
@@ -51,45 +58,73 @@ const LayoutFeedIdItemIdRoute = LayoutFeedIdItemIdRouteImport.update({
   path: '/$feedId/$itemId',
   getParentRoute: () => LayoutRoute,
 } as any)
+const LayoutAuthenticatedDashboardReviewRoute =
+  LayoutAuthenticatedDashboardReviewRouteImport.update({
+    id: '/dashboard_/review',
+    path: '/dashboard/review',
+    getParentRoute: () => LayoutAuthenticatedRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/login': typeof LoginRoute
+  '/search': typeof LayoutSearchRoute
   '/': typeof LayoutIndexRoute
   '/$feedId/$itemId': typeof LayoutFeedIdItemIdRoute
   '/dashboard': typeof LayoutAuthenticatedDashboardRoute
   '/$feedId': typeof LayoutFeedIdIndexRoute
+  '/dashboard/review': typeof LayoutAuthenticatedDashboardReviewRoute
 }
 export interface FileRoutesByTo {
   '/login': typeof LoginRoute
+  '/search': typeof LayoutSearchRoute
   '/': typeof LayoutIndexRoute
   '/$feedId/$itemId': typeof LayoutFeedIdItemIdRoute
   '/dashboard': typeof LayoutAuthenticatedDashboardRoute
   '/$feedId': typeof LayoutFeedIdIndexRoute
+  '/dashboard/review': typeof LayoutAuthenticatedDashboardReviewRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/_layout': typeof LayoutRouteWithChildren
   '/login': typeof LoginRoute
   '/_layout/_authenticated': typeof LayoutAuthenticatedRouteWithChildren
+  '/_layout/search': typeof LayoutSearchRoute
   '/_layout/': typeof LayoutIndexRoute
   '/_layout/$feedId/$itemId': typeof LayoutFeedIdItemIdRoute
   '/_layout/_authenticated/dashboard': typeof LayoutAuthenticatedDashboardRoute
   '/_layout/$feedId/': typeof LayoutFeedIdIndexRoute
+  '/_layout/_authenticated/dashboard_/review': typeof LayoutAuthenticatedDashboardReviewRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/login' | '/' | '/$feedId/$itemId' | '/dashboard' | '/$feedId'
+  fullPaths:
+    | '/login'
+    | '/search'
+    | '/'
+    | '/$feedId/$itemId'
+    | '/dashboard'
+    | '/$feedId'
+    | '/dashboard/review'
   fileRoutesByTo: FileRoutesByTo
-  to: '/login' | '/' | '/$feedId/$itemId' | '/dashboard' | '/$feedId'
+  to:
+    | '/login'
+    | '/search'
+    | '/'
+    | '/$feedId/$itemId'
+    | '/dashboard'
+    | '/$feedId'
+    | '/dashboard/review'
   id:
     | '__root__'
     | '/_layout'
     | '/login'
     | '/_layout/_authenticated'
+    | '/_layout/search'
     | '/_layout/'
     | '/_layout/$feedId/$itemId'
     | '/_layout/_authenticated/dashboard'
     | '/_layout/$feedId/'
+    | '/_layout/_authenticated/dashboard_/review'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -113,6 +148,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LayoutRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/_layout/search': {
+      id: '/_layout/search'
+      path: '/search'
+      fullPath: '/search'
+      preLoaderRoute: typeof LayoutSearchRouteImport
+      parentRoute: typeof LayoutRoute
+    }
     '/_layout/': {
       id: '/_layout/'
       path: '/'
@@ -148,15 +190,25 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LayoutFeedIdItemIdRouteImport
       parentRoute: typeof LayoutRoute
     }
+    '/_layout/_authenticated/dashboard_/review': {
+      id: '/_layout/_authenticated/dashboard_/review'
+      path: '/dashboard/review'
+      fullPath: '/dashboard/review'
+      preLoaderRoute: typeof LayoutAuthenticatedDashboardReviewRouteImport
+      parentRoute: typeof LayoutAuthenticatedRoute
+    }
   }
 }
 
 interface LayoutAuthenticatedRouteChildren {
   LayoutAuthenticatedDashboardRoute: typeof LayoutAuthenticatedDashboardRoute
+  LayoutAuthenticatedDashboardReviewRoute: typeof LayoutAuthenticatedDashboardReviewRoute
 }
 
 const LayoutAuthenticatedRouteChildren: LayoutAuthenticatedRouteChildren = {
   LayoutAuthenticatedDashboardRoute: LayoutAuthenticatedDashboardRoute,
+  LayoutAuthenticatedDashboardReviewRoute:
+    LayoutAuthenticatedDashboardReviewRoute,
 }
 
 const LayoutAuthenticatedRouteWithChildren =
@@ -164,6 +216,7 @@ const LayoutAuthenticatedRouteWithChildren =
 
 interface LayoutRouteChildren {
   LayoutAuthenticatedRoute: typeof LayoutAuthenticatedRouteWithChildren
+  LayoutSearchRoute: typeof LayoutSearchRoute
   LayoutIndexRoute: typeof LayoutIndexRoute
   LayoutFeedIdItemIdRoute: typeof LayoutFeedIdItemIdRoute
   LayoutFeedIdIndexRoute: typeof LayoutFeedIdIndexRoute
@@ -171,6 +224,7 @@ interface LayoutRouteChildren {
 
 const LayoutRouteChildren: LayoutRouteChildren = {
   LayoutAuthenticatedRoute: LayoutAuthenticatedRouteWithChildren,
+  LayoutSearchRoute: LayoutSearchRoute,
   LayoutIndexRoute: LayoutIndexRoute,
   LayoutFeedIdItemIdRoute: LayoutFeedIdItemIdRoute,
   LayoutFeedIdIndexRoute: LayoutFeedIdIndexRoute,
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { createFileRoute, Link } from "@tanstack/react-router";
+import { httpUrl } from "@/lib/utils";
 
 export const Route = createFileRoute("/_layout/$feedId/$itemId")({
   component: ItemPage,
@@ -40,6 +41,8 @@ function ItemPage() {
     );
   }
 
+  const originalUrl = httpUrl(data.item?.link);
+
   return (
     <div className="container mx-auto p-6 max-w-4xl">
       <div className="mb-6">
@@ -56,18 +59,58 @@ function ItemPage() {
             Back to Feed
           </Link>
           <span>/</span>
-          <span className="text-gray-900 dark:text-white">Item Data</span>
+          <span className="text-gray-900 dark:text-white">{data.feedTitle}</span>
         </nav>
       </div>
 
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
-        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
-          Feed Item
-        </h1>
-        <pre className="bg-gray-100 dark:bg-gray-900 p-4 rounded-lg overflow-auto text-sm">
-          <code>{JSON.stringify(data, null, 2)}</code>
-        </pre>
-      </div>
+      {!data.item ? (
+        <div className="text-center text-gray-600 dark:text-gray-400">This item no longer exists</div>
+      ) : (
+        <article className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+          <header className="space-y-1">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{data.item.title}</h1>
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              {new Date(data.item.date).toLocaleString()}
+              {data.item.author?.[0]?.name && ` · ${data.item.author[0].name}`}
+              {originalUrl && (
+                <>
+                  {" · "}
+                  <a
+                    href={originalUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    Original
+                  </a>
+                </>
+              )}
+            </div>
+          </header>
+          {data.item.sanitized?.image && (
+            <img src={data.item.sanitized.image} alt="" className="rounded-lg max-h-96 w-full object-cover" />
+          )}
+          <ItemBody sanitized={data.item.sanitized} />
+        </article>
+      )}
     </div>
   );
 }
+
+type Sanitized = NonNullable<NonNullable<ReturnType<typeof Route.useLoaderData>["item"]>["sanitized"]>;
+
+// The server has already stripped anything executable and made every URL absolute, so the
+// sanitised HTML is injected as is. The raw fields are never rendered.
+function ItemBody({ sanitized }: { sanitized?: Sanitized }) {
+  const html = sanitized?.content || sanitized?.description;
+  if (!html) {
+    return null;
+  }
+
+  return (
+    <div
+      className="text-gray-800 dark:text-gray-200 leading-relaxed space-y-4 break-words [&_a]:text-blue-600 [&_a]:underline dark:[&_a]:text-blue-400 [&_img]:max-w-full [&_img]:h-auto [&_pre]:overflow-auto [&_pre]:bg-gray-100 dark:[&_pre]:bg-gray-900 [&_pre]:p-4 [&_pre]:rounded-lg [&_blockquote]:border-l-4 [&_blockquote]:pl-4 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6 [&_h2]:text-xl [&_h2]:font-semibold [&_h3]:text-lg [&_h3]:font-semibold"
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
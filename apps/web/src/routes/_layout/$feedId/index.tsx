@@ -1,15 +1,21 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery, useMutation } from "@tanstack/react-query";
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
 import { authClient } from "@/lib/auth-client";
 import { generateFakeFeedItem } from "@/utils/faker-data";
 import { Button } from "@/components/ui/button";
+import { FeedCollaborators } from "@/components/feed-collaborators";
+import { NewItemsBanner } from "@/components/new-items-banner";
 import { toast } from "sonner";
 import { trpcClient } from "@/utils/trpc";
+import { useEffect, useRef } from "react";
 
 export const Route = createFileRoute("/_layout/$feedId/")({
   component: FeedPage,
   loader: async ({ context, params }) => {
-    const queryOptions = context.trpc.getFeed.queryOptions(params);
+    const queryOptions = context.trpc.getFeed.queryOptions({
+      feedId: params.feedId,
+      includeItems: false,
+    });
     return context.queryClient.ensureQueryData(queryOptions);
   },
 });
@@ -21,26 +27,85 @@ function FeedPage() {
 
   const initialData = Route.useLoaderData();
 
-  const queryOptions = trpc.getFeed.queryOptions({ feedId });
+  const queryOptions = trpc.getFeed.queryOptions({ feedId, includeItems: false });
 
   const { data, error } = useQuery({
     ...queryOptions,
     initialData: initialData,
   });
 
+  const itemsInput = { feedId, order: "date", limit: 20 } as const;
+
+  const itemsQuery = useInfiniteQuery(
+    trpc.listFeedItems.infiniteQueryOptions(
+      itemsInput,
+      { getNextPageParam: (lastPage) => lastPage.nextCursor }
+    )
+  );
+
+  const items = itemsQuery.data?.pages.flatMap((page) => page.items) ?? [];
+
+  // Load the next page once the sentinel below the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = itemsQuery;
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
   const { data: session } = authClient.useSession();
 
+  // Anonymous visitors cannot act on a feed, so only ask once signed in
+  const { data: permissions } = useQuery({
+    ...trpc.getFeedPermissions.queryOptions({ feedId }),
+    enabled: !!session,
+  });
+
+  const { data: subscriptions } = useQuery({
+    ...trpc.listSubscriptions.queryOptions(),
+    enabled: !!session,
+  });
+  const isSubscribed = subscriptions?.some((subscription) => subscription.feedId === feedId) ?? false;
+
+  const subscriptionMutation = useMutation({
+    mutationFn: async (subscribe: boolean) => {
+      return subscribe
+        ? trpcClient.subscribeFeed.mutate({ feedId })
+        : trpcClient.unsubscribeFeed.mutate({ feedId });
+    },
+    onSuccess: (_, subscribe) => {
+      toast.success(subscribe ? 'Subscribed to feed' : 'Unsubscribed from feed');
+      queryClient.invalidateQueries(trpc.listSubscriptions.pathFilter());
+      queryClient.invalidateQueries(trpc.getRiver.pathFilter());
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to update subscription: ${error.message}`);
+    },
+  });
+
   const addFeedItemMutation = useMutation({
     mutationFn: async () => {
       const fakeItem = generateFakeFeedItem();
       return trpcClient.addFeedItem.mutate({ feedId, item: fakeItem });
     },
-    onSuccess: () => {
-      toast.success('Feed item added successfully!');
-      queryClient.invalidateQueries({ queryKey: queryOptions.queryKey });
+    onSuccess: (result) => {
+      toast.success(result.duplicate ? 'This item is already in the feed' : 'Feed item submitted for review!');
+      queryClient.invalidateQueries(trpc.listSubmissions.pathFilter());
     },
     onError: (error: any) => {
-      toast.error(`Failed to add feed item: ${error.message}`);
+      toast.error(`Failed to submit feed item: ${error.message}`);
     },
   });
 
@@ -92,21 +157,39 @@ function FeedPage() {
       {session && (
         <div className="flex gap-4">
           <Button
-            onClick={() => addFeedItemMutation.mutate()}
-            disabled={addFeedItemMutation.isPending}
-          >
-            {addFeedItemMutation.isPending ? 'Adding...' : 'Add Feed Item'}
-          </Button>
-          <Button
-            variant="destructive"
-            onClick={() => deleteFeedMutation.mutate()}
-            disabled={deleteFeedMutation.isPending}
+            variant={isSubscribed ? 'outline' : 'default'}
+            onClick={() => subscriptionMutation.mutate(!isSubscribed)}
+            disabled={subscriptionMutation.isPending || !subscriptions}
           >
-            {deleteFeedMutation.isPending ? 'Deleting...' : 'Delete Feed'}
+            {isSubscribed ? 'Unsubscribe' : 'Subscribe'}
           </Button>
+          {permissions?.canSubmit && (
+            <Button
+              onClick={() => addFeedItemMutation.mutate()}
+              disabled={addFeedItemMutation.isPending}
+            >
+              {addFeedItemMutation.isPending ? 'Submitting...' : 'Submit Feed Item'}
+            </Button>
+          )}
+          {permissions?.canModerate && (
+            <Button variant="outline" asChild>
+              <Link to="/dashboard/review" search={{ feedId }}>Review Submissions</Link>
+            </Button>
+          )}
+          {permissions?.canDelete && (
+            <Button
+              variant="destructive"
+              onClick={() => deleteFeedMutation.mutate()}
+              disabled={deleteFeedMutation.isPending}
+            >
+              {deleteFeedMutation.isPending ? 'Deleting...' : 'Delete Feed'}
+            </Button>
+          )}
         </div>
       )}
 
+      {session && permissions?.canManage && <FeedCollaborators feedId={feedId} />}
+
       {/* Full Feed Data */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
         <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
@@ -119,10 +202,11 @@ function FeedPage() {
 
       {/* Feed Items */}
       <div className="space-y-4">
+        <NewItemsBanner itemsInput={itemsInput} />
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-          Items ({data.items.length})
+          Items
         </h2>
-        {data.items.map((item) => (
+        {items.map((item) => (
           <div
             key={item.id}
             className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6"
@@ -149,6 +233,15 @@ function FeedPage() {
             </pre>
           </div>
         ))}
+        <div ref={loadMoreRef} className="py-4 text-center text-sm text-gray-600 dark:text-gray-400">
+          {itemsQuery.isLoading || isFetchingNextPage
+            ? "Loading..."
+            : hasNextPage
+            ? "Scroll for more"
+            : items.length === 0
+            ? "No items yet"
+            : "No more items"}
+        </div>
       </div>
     </div>
   );
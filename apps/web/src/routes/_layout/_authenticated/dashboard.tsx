@@ -1,5 +1,8 @@
 import { NearProfile } from "@/components/near-profile";
-import { createFileRoute } from "@tanstack/react-router";
+import { OpmlTools } from "@/components/opml-tools";
+import { River } from "@/components/river";
+import { Button } from "@/components/ui/button";
+import { createFileRoute, Link } from "@tanstack/react-router";
 
 export const Route = createFileRoute("/_layout/_authenticated/dashboard")({
   loader: ({ context }) => {
@@ -31,7 +34,19 @@ function RouteComponent() {
         </div>
 
         {/* Main Content Area - Full width on mobile, 2 columns on desktop */}
-        <div className="lg:col-span-2 space-y-4 sm:space-y-6 order-2 lg:order-2"></div>
+        <div className="lg:col-span-2 space-y-4 sm:space-y-6 order-2 lg:order-2">
+          <River />
+          <OpmlTools scope="subscriptions" />
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-xl font-semibold mb-2">Moderation</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Items submitted to the feeds you moderate wait here until approved.
+            </p>
+            <Button asChild>
+              <Link to="/dashboard/review">Review Submissions</Link>
+            </Button>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,204 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { httpUrl } from "@/lib/utils";
+import { trpcClient } from "@/utils/trpc";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useState } from "react";
+import { toast } from "sonner";
+import z from "zod";
+
+const searchSchema = z.object({
+  feedId: z.string().optional(),
+  status: z.enum(["pending", "approved", "rejected"]).optional(),
+});
+
+export const Route = createFileRoute("/_layout/_authenticated/dashboard_/review")({
+  component: RouteComponent,
+  validateSearch: searchSchema,
+});
+
+const statuses = ["pending", "approved", "rejected"] as const;
+
+function RouteComponent() {
+  const { feedId, status = "pending" } = Route.useSearch();
+  const { trpc } = Route.useRouteContext();
+
+  const { data: submissions, isLoading } = useQuery(
+    trpc.listSubmissions.queryOptions({ feedId, status })
+  );
+
+  return (
+    <div className="container mx-auto p-4 sm:p-6 max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold mb-2">Review Submissions</h1>
+        <p className="text-base text-muted-foreground">
+          {feedId ? `Feed ${feedId}` : "All feeds you moderate"}
+        </p>
+      </div>
+
+      <nav className="flex gap-2">
+        {statuses.map((option) => (
+          <Button key={option} variant={option === status ? "default" : "outline"} size="sm" asChild>
+            <Link to="/dashboard/review" search={{ feedId, status: option }}>
+              {option[0]!.toUpperCase() + option.slice(1)}
+            </Link>
+          </Button>
+        ))}
+      </nav>
+
+      <div className="space-y-4">
+        {isLoading && <div className="text-center">Loading...</div>}
+        {submissions?.length === 0 && (
+          <div className="text-center text-muted-foreground">No {status} submissions</div>
+        )}
+        {submissions?.map((submission) => (
+          <SubmissionCard key={`${submission.feedId}:${submission.itemId}`} submission={submission} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+type Submission = NonNullable<
+  Awaited<ReturnType<typeof trpcClient.listSubmissions.query>>
+>[number];
+
+function SubmissionCard({ submission }: { submission: Submission }) {
+  const { trpc, queryClient } = Route.useRouteContext();
+  const [title, setTitle] = useState(submission.item.title);
+  const [link, setLink] = useState(submission.item.link);
+  const [description, setDescription] = useState(submission.item.description ?? "");
+  const [reason, setReason] = useState("");
+
+  const { feedId, itemId } = submission;
+  const isPending = submission.status === "pending";
+  const isEdited =
+    title !== submission.item.title ||
+    link !== submission.item.link ||
+    description !== (submission.item.description ?? "");
+  const editedItem = { ...submission.item, title, link, description: description || undefined };
+
+  const refresh = () => {
+    queryClient.invalidateQueries(trpc.listSubmissions.pathFilter());
+    queryClient.invalidateQueries(trpc.listFeedItems.pathFilter());
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return trpcClient.editSubmission.mutate({ feedId, itemId, item: editedItem });
+    },
+    onSuccess: () => {
+      toast.success("Submission updated");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to update submission: ${error.message}`);
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      return trpcClient.approveSubmission.mutate({
+        feedId,
+        itemId,
+        item: isEdited ? editedItem : undefined,
+      });
+    },
+    onSuccess: () => {
+      toast.success("Item published");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to approve item: ${error.message}`);
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      return trpcClient.rejectSubmission.mutate({ feedId, itemId, reason });
+    },
+    onSuccess: () => {
+      toast.success("Item rejected");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to reject item: ${error.message}`);
+    },
+  });
+
+  const isBusy = saveMutation.isPending || approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+      <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+        <Link to="/$feedId" params={{ feedId }} className="hover:text-blue-600 dark:hover:text-blue-400">
+          {feedId}
+        </Link>
+        <span>
+          Submitted {new Date(submission.submittedAt).toLocaleString()}
+          {submission.edited && " · edited"}
+        </span>
+      </div>
+
+      {isPending ? (
+        <div className="space-y-2">
+          <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Title" />
+          <Input value={link} onChange={(e) => setLink(e.target.value)} placeholder="Link" />
+          <textarea
+            className="border-input dark:bg-input/30 w-full min-h-24 rounded-md border bg-transparent px-3 py-2 text-sm"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description"
+          />
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{submission.item.title}</h3>
+          {httpUrl(submission.item.link) ? (
+            <a href={httpUrl(submission.item.link)} className="text-sm text-blue-600 dark:text-blue-400 break-all">
+              {submission.item.link}
+            </a>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400 break-all">{submission.item.link}</p>
+          )}
+          {submission.reason && (
+            <p className="text-sm text-red-600 dark:text-red-400">Reason: {submission.reason}</p>
+          )}
+        </div>
+      )}
+
+      {isPending && (
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => approveMutation.mutate()} disabled={isBusy}>
+            {isEdited ? "Approve with Edits" : "Approve"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={isBusy || !isEdited}
+          >
+            Save Edits
+          </Button>
+          <form
+            className="flex flex-1 gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              rejectMutation.mutate();
+            }}
+          >
+            <Input
+              required
+              placeholder="Reason for rejecting"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <Button type="submit" variant="destructive" disabled={isBusy || !reason}>
+              Reject
+            </Button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { OpmlTools } from "@/components/opml-tools";
 import { authClient } from "@/lib/auth-client";
 import { generateFakeFeed } from "@/utils/faker-data";
 import { trpcClient } from "@/utils/trpc";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { createFileRoute, Link } from "@tanstack/react-router";
+import { useSubscription } from "@trpc/tanstack-react-query";
+import { useState } from "react";
 import { toast } from "sonner";
 
 export const Route = createFileRoute("/_layout/")({
@@ -26,6 +30,24 @@ function HomeComponent() {
     initialData: initialData,
   });
 
+  // Keep the directory current while it is open: drop deleted feeds in place, refetch otherwise
+  useSubscription(
+    trpc.onFeedEvents.subscriptionOptions(
+      {},
+      {
+        onData: (event) => {
+          if (event.type === "feed-changed" && event.change === "deleted") {
+            queryClient.setQueryData(queryOptions.queryKey, (current) =>
+              current?.filter((feed) => feed.options.id !== event.feedId)
+            );
+            return;
+          }
+          queryClient.invalidateQueries({ queryKey: queryOptions.queryKey });
+        },
+      }
+    )
+  );
+
   const { data: session } = authClient.useSession();
 
   const addFeedMutation = useMutation({
@@ -42,6 +64,22 @@ function HomeComponent() {
     },
   });
 
+  const [importUrl, setImportUrl] = useState("");
+
+  const importFeedMutation = useMutation({
+    mutationFn: async (url: string) => {
+      return trpcClient.importFeed.mutate({ url });
+    },
+    onSuccess: (result) => {
+      toast.success(`Imported ${result.itemCount} items`);
+      setImportUrl("");
+      queryClient.invalidateQueries({ queryKey: queryOptions.queryKey });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to import feed: ${error.message}`);
+    },
+  });
+
   if (error) {
     return (
       <div className="container mx-auto p-6">
@@ -96,6 +134,31 @@ function HomeComponent() {
             </Button>
           )}
         </div>
+        {session && (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              importFeedMutation.mutate(importUrl);
+            }}
+          >
+            <Input
+              type="url"
+              required
+              placeholder="https://example.com/feed.xml"
+              value={importUrl}
+              onChange={(e) => setImportUrl(e.target.value)}
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={importFeedMutation.isPending || !importUrl}
+            >
+              {importFeedMutation.isPending ? "Importing..." : "Import Feed"}
+            </Button>
+          </form>
+        )}
+        {session && <OpmlTools scope="directory" />}
         <div className="space-y-4">
           {feeds.map((feed) => (
             <div
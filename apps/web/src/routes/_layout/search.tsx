@@ -0,0 +1,232 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { useEffect, useState, type ReactNode } from "react";
+import z from "zod";
+
+const searchSchema = z.object({
+  q: z.string().default(""),
+  feedId: z.string().optional(),
+  category: z.string().optional(),
+  // Calendar dates (YYYY-MM-DD), widened to whole days when searching
+  since: z.string().optional(),
+  until: z.string().optional(),
+  page: z.number().int().min(1).optional(),
+});
+
+const pageSize = 20;
+
+export const Route = createFileRoute("/_layout/search")({
+  component: SearchPage,
+  validateSearch: searchSchema,
+});
+
+function Highlighted({ text, highlights }: { text: string; highlights: { start: number; end: number }[] }) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+
+  for (const { start, end } of highlights) {
+    parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+function SearchPage() {
+  const { q, feedId, category, since, until, page = 1 } = Route.useSearch();
+  const { trpc } = Route.useRouteContext();
+  const navigate = useNavigate({ from: Route.fullPath });
+
+  const [filters, setFilters] = useState({ feedId, category, since, until });
+
+  useEffect(() => {
+    setFilters({ feedId, category, since, until });
+  }, [feedId, category, since, until]);
+
+  const { data: feeds } = useQuery(trpc.getFeeds.queryOptions());
+
+  const { data, isLoading, error } = useQuery({
+    ...trpc.search.queryOptions({
+      query: q,
+      feedIds: feedId ? [feedId] : undefined,
+      category: category || undefined,
+      since: since ? `${since}T00:00:00.000Z` : undefined,
+      until: until ? `${until}T23:59:59.999Z` : undefined,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    }),
+    enabled: q.trim().length > 0,
+  });
+
+  const pageCount = data ? Math.ceil(data.total / pageSize) : 0;
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white mb-2">
+          Search
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          {q
+            ? data
+              ? `${data.total} ${data.total === 1 ? "result" : "results"} for "${q}"`
+              : `Searching for "${q}"...`
+            : "Enter a search term in the header to find items across all feeds"}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <form
+        className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 items-end"
+        onSubmit={(e) => {
+          e.preventDefault();
+          navigate({
+            search: {
+              q,
+              feedId: filters.feedId || undefined,
+              category: filters.category || undefined,
+              since: filters.since || undefined,
+              until: filters.until || undefined,
+            },
+          });
+        }}
+      >
+        <select
+          aria-label="Feed"
+          className="border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 text-sm"
+          value={filters.feedId ?? ""}
+          onChange={(e) => setFilters({ ...filters, feedId: e.target.value })}
+        >
+          <option value="">All feeds</option>
+          {feeds?.map((feed) => (
+            <option key={feed.options.id} value={feed.options.id}>
+              {feed.options.title}
+            </option>
+          ))}
+        </select>
+        <Input
+          aria-label="Category"
+          placeholder="Category"
+          value={filters.category ?? ""}
+          onChange={(e) => setFilters({ ...filters, category: e.target.value })}
+        />
+        <Input
+          type="date"
+          aria-label="Published since"
+          value={filters.since ?? ""}
+          onChange={(e) => setFilters({ ...filters, since: e.target.value })}
+        />
+        <Input
+          type="date"
+          aria-label="Published until"
+          value={filters.until ?? ""}
+          onChange={(e) => setFilters({ ...filters, until: e.target.value })}
+        />
+        <div className="flex gap-2 sm:col-span-2 lg:col-span-4">
+          <Button type="submit" disabled={!q}>Apply Filters</Button>
+          {(feedId || category || since || until) && (
+            <Button variant="outline" asChild>
+              <Link to="/search" search={{ q }}>Clear</Link>
+            </Button>
+          )}
+        </div>
+      </form>
+
+      {/* Results */}
+      <div className="space-y-4">
+        {error && (
+          <div className="text-center text-red-600 dark:text-red-400">
+            Search failed: {error.message}
+          </div>
+        )}
+        {isLoading && <div className="text-center">Loading...</div>}
+        {data?.results.map(({ feedId: resultFeedId, feedTitle, item, snippets }) => {
+          const [title, body] = snippets;
+
+          return (
+            <div
+              key={`${resultFeedId}:${item.id}`}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-2"
+            >
+              <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+                <Link
+                  to="/$feedId"
+                  params={{ feedId: resultFeedId }}
+                  className="hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  {feedTitle}
+                </Link>
+                <span>{new Date(item.date).toLocaleDateString()}</span>
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {item.id ? (
+                  <Link
+                    to="/$feedId/$itemId"
+                    params={{ feedId: resultFeedId, itemId: item.id }}
+                    className="hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    {title ? <Highlighted {...title} /> : item.title}
+                  </Link>
+                ) : (
+                  title ? <Highlighted {...title} /> : item.title
+                )}
+              </h3>
+              {body && (
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  <Highlighted {...body} />
+                </p>
+              )}
+              {item.category && item.category.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {item.category.map((entry, index) => {
+                    const name = entry.name ?? entry.term;
+                    return name ? (
+                      <Link
+                        key={index}
+                        to="/search"
+                        search={{ q, feedId, since, until, category: name }}
+                        className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                      >
+                        {name}
+                      </Link>
+                    ) : null;
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-4">
+          <Button variant="outline" disabled={page <= 1} asChild={page > 1}>
+            {page > 1 ? (
+              <Link to="/search" search={{ q, feedId, category, since, until, page: page - 1 }}>Previous</Link>
+            ) : (
+              "Previous"
+            )}
+          </Button>
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            Page {page} of {pageCount}
+          </span>
+          <Button variant="outline" disabled={page >= pageCount} asChild={page < pageCount}>
+            {page < pageCount ? (
+              <Link to="/search" search={{ q, feedId, category, since, until, page: page + 1 }}>Next</Link>
+            ) : (
+              "Next"
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { createTRPCClient, httpBatchLink } from "@trpc/client";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
 import type { AppRouter } from "../../../apps/server/src/routers";
 import { type RssAuthClient, createRssAuthClient } from "./auth-client";
 import type { FeedItem } from "../../../apps/server/src/schemas/feed";
 
+type AddFeedItemsInput = inferRouterInputs<AppRouter>["addFeedItems"];
+type AddFeedItemsOutput = inferRouterOutputs<AppRouter>["addFeedItems"];
+
 export class RssClient {
   private trpcClient: ReturnType<typeof createTRPCClient<AppRouter>>;
   private authClient: RssAuthClient;
@@ -29,6 +33,8 @@ export class RssClient {
   async addFeedItem(feedId: string, item: Omit<FeedItem, 'id'>): Promise<{
     success: boolean;
     itemId: string;
+    status: "pending" | "approved" | "rejected";
+    duplicate: boolean;
     message?: string;
   }> {
     return this.trpcClient.addFeedItem.mutate({
@@ -37,4 +43,37 @@ export class RssClient {
     });
   }
 
+  // One request however many items; each entry's outcome is reported in `results`
+  async addFeedItems(
+    feedId: string | undefined,
+    items: AddFeedItemsInput["items"],
+  ): Promise<AddFeedItemsOutput> {
+    return this.trpcClient.addFeedItems.mutate({
+      feedId,
+      items,
+    });
+  }
+
+  async updateFeedItem(feedId: string, itemId: string, patch: Partial<Omit<FeedItem, 'id'>>): Promise<{
+    success: boolean;
+    item: FeedItem;
+    message?: string;
+  }> {
+    return this.trpcClient.updateFeedItem.mutate({
+      feedId,
+      itemId,
+      patch,
+    });
+  }
+
+  async deleteFeedItem(feedId: string, itemId: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    return this.trpcClient.deleteFeedItem.mutate({
+      feedId,
+      itemId,
+    });
+  }
+
 }
@@ -102,28 +102,52 @@ export class RssPlugin
         );
       }
 
-      yield* logger.logDebug("Executing add item to feed workflow", {
+      yield* logger.logDebug(`Executing ${input.action} item workflow`, {
         pluginId: self.id,
+        action: input.action,
         feedId: input.feedId,
-        itemTitle: input.item.title,
+        itemId: input.itemId,
+        itemTitle: input.item?.title,
+        batchSize: input.items?.length,
       });
 
       return yield* Effect.tryPromise({
-        try: async () => {
+        try: async (): Promise<RssOutput> => {
           if (!self.client) {
             throw new Error("Client not initialized");
           }
 
-          // Call the addFeedItem method on the client (passthrough)
-          const result = await self.client.addFeedItem(input.feedId, input.item);
-          
-          return result;
+          // The input schema guarantees the fields each action needs
+          switch (input.action) {
+            case "add": {
+              if (input.items) {
+                const batch = await self.client.addFeedItems(input.feedId, input.items);
+                return {
+                  // Duplicates count as success, as they do for a single item
+                  success: batch.failed === 0,
+                  action: "add",
+                  results: batch.results,
+                  message: `${batch.submitted} submitted, ${batch.duplicates} duplicates, ${batch.failed} failed`,
+                };
+              }
+              const result = await self.client.addFeedItem(input.feedId!, input.item!);
+              return { ...result, action: "add" };
+            }
+            case "update": {
+              const result = await self.client.updateFeedItem(input.feedId!, input.itemId!, input.patch!);
+              return { ...result, action: "update", itemId: input.itemId! };
+            }
+            case "delete": {
+              const result = await self.client.deleteFeedItem(input.feedId!, input.itemId!);
+              return { ...result, action: "delete", itemId: input.itemId! };
+            }
+          }
         },
         catch: (error) => {
           const errorMessage =
             error instanceof Error ? error.message : "Unknown error";
           return new PluginExecutionError(
-            `Add item to feed workflow failed: ${errorMessage}`,
+            `${input.action} item workflow failed: ${errorMessage}`,
             true,
           );
         },
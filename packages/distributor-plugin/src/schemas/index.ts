@@ -19,24 +19,81 @@ export const RssConfigSchema = createConfigSchema(
   }),
 );
 
-// Input schema for add item to feed workflow
+// "add" submits a new item, "update" patches a published one and "delete" removes it
+export const RssActionSchema = z.enum(["add", "update", "delete"]);
+
+// One entry of a batch add. Items are checked by the server, which reports a malformed one in
+// its result rather than rejecting the whole batch.
+export const RssBatchItemSchema = z.object({
+  // Defaults to the input's feedId
+  feedId: z.string().min(1).optional(),
+  item: z.record(z.string(), z.unknown()),
+});
+
+// Input schema for the item workflows; inputs without an action add their item, as before
 export const RssInputSchema = createInputSchema(
   z.object({
-    feedId: z.string().min(1, "Feed ID is required"),
-    item: FeedItem,
+    action: RssActionSchema.default("add"),
+    feedId: z.string().min(1).optional(),
+    item: FeedItem.optional(),
+    // Adds many items, possibly to several feeds, in one call instead of `item`
+    items: z.array(RssBatchItemSchema).min(1).max(500).optional(),
+    itemId: z.string().min(1).optional(),
+    patch: FeedItem.omit({ id: true }).partial().optional(),
+  }).superRefine((input, ctx) => {
+    if (input.action === "add" && !input.item && !input.items) {
+      ctx.addIssue({ code: "custom", path: ["item"], message: "An item or a batch of items is required to add" });
+    }
+    if (input.action === "add" && input.item && input.items) {
+      ctx.addIssue({ code: "custom", path: ["items"], message: "Give either an item or a batch of items, not both" });
+    }
+    if (input.items && input.action !== "add") {
+      ctx.addIssue({ code: "custom", path: ["items"], message: `Batches can only be added, not ${input.action}d` });
+    }
+    if (!input.feedId && !input.items?.every((entry) => entry.feedId)) {
+      ctx.addIssue({ code: "custom", path: ["feedId"], message: "Feed ID is required" });
+    }
+    if (input.action !== "add" && !input.itemId) {
+      ctx.addIssue({ code: "custom", path: ["itemId"], message: `An item ID is required to ${input.action}` });
+    }
+    if (input.action === "update" && !input.patch) {
+      ctx.addIssue({ code: "custom", path: ["patch"], message: "A patch is required to update" });
+    }
   }),
 );
 
+// What became of one entry of a batch; `index` is its position in the input's items
+export const RssBatchResultSchema = z.object({
+  index: z.number(),
+  feedId: z.string(),
+  outcome: z.enum(["submitted", "duplicate", "invalid", "forbidden", "not-found"]),
+  itemId: z.string().optional(),
+  status: z.enum(["pending", "approved", "rejected"]).optional(),
+  // Why an entry was refused
+  message: z.string().optional(),
+});
+
 // Output schema
 export const RssOutputSchema = createOutputSchema(
   z.object({
     success: z.boolean(),
-    itemId: z.string(),
+    action: RssActionSchema,
+    // Absent for batches, whose item IDs are in `results`
+    itemId: z.string().optional(),
+    // Added items wait in the feed's moderation queue until approved
+    status: z.enum(["pending", "approved", "rejected"]).optional(),
+    // An added item the feed already had; itemId is the existing copy's
+    duplicate: z.boolean().optional(),
+    // The item as stored after an update
+    item: FeedItem.optional(),
+    results: z.array(RssBatchResultSchema).optional(),
     message: z.string().optional(),
   }),
 );
 
 // Derived types
 export type RssConfig = z.infer<typeof RssConfigSchema>;
+export type RssAction = z.infer<typeof RssActionSchema>;
 export type RssInput = z.infer<typeof RssInputSchema>;
+export type RssBatchResult = z.infer<typeof RssBatchResultSchema>;
 export type RssOutput = z.infer<typeof RssOutputSchema>;
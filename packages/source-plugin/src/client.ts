@@ -1,7 +1,10 @@
-import { createTRPCClient, httpBatchLink } from "@trpc/client";
+import { createTRPCClient, httpBatchLink, TRPCClientError } from "@trpc/client";
+import type { inferRouterInputs } from "@trpc/server";
 import type { AppRouter } from "../../../apps/server/src/routers";
 import { type RssAuthClient, createRssAuthClient } from "./auth-client";
 
+type FilterItemsInput = inferRouterInputs<AppRouter>["filterItems"];
+
 export class RssClient {
   private trpcClient: ReturnType<typeof createTRPCClient<AppRouter>>;
   private authClient: RssAuthClient;
@@ -37,6 +40,16 @@ export class RssClient {
     return this.trpcClient.getFeedItem.query({ feedId, itemId });
   }
 
+  // Items added after each feed's cursor, with the cursors to pass on the next call
+  // With allFeeds every feed in the directory is polled, `feeds` only supplies known cursors
+  async getItemsSince(feeds: Array<{ feedId: string; cursor?: string }>, limit: number, allFeeds = false) {
+    return this.trpcClient.getItemsSince.query({ feeds, limit, allFeeds });
+  }
+
+  async filterItems(filter: FilterItemsInput) {
+    return this.trpcClient.filterItems.query(filter);
+  }
+
   // Bulk operations for efficiency
   async getFeeds(feedIds: string[]) {
     return Promise.all(feedIds.map(id => this.getFeed(id)));
@@ -44,7 +57,15 @@ export class RssClient {
 
   async getFeedItems(requests: Array<{ feedId: string; itemId: string }>) {
     return Promise.all(
-      requests.map(({ feedId, itemId }) => this.getFeedItem(feedId, itemId))
+      requests.map(({ feedId, itemId }) =>
+        // Items only resolve through the feed they belong to, so misses are expected here
+        this.getFeedItem(feedId, itemId).catch((error) => {
+          if (error instanceof TRPCClientError && error.data?.code === "NOT_FOUND") {
+            return { item: null, feedTitle: "" };
+          }
+          throw error;
+        })
+      )
     );
   }
 }
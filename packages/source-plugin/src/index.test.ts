@@ -0,0 +1,273 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { Effect, PluginLoggerTag } from "every-plugin";
+import { type RssInput, type RssOutput, type RssState, RssSearchOptionsSchema } from "./schemas";
+
+type Page = {
+  feedId: string;
+  items: Array<{ id: string }>;
+  cursor: string;
+  latest: string;
+  scanned: number;
+  hasMore: boolean;
+};
+
+const client = {
+  healthCheck: mock(async () => "OK"),
+  getItemsSince: mock(async (_feeds: Array<{ feedId: string; cursor?: string }>, _limit: number, _allFeeds?: boolean) => [] as Page[]),
+  filterItems: mock(async (_filter: unknown) => ({
+    items: [] as Array<{ feedId: string; item: { id: string } }>,
+    nextCursor: null as string | null,
+    stats: [] as Array<{ feedId: string; scanned: number }>,
+  })),
+};
+
+// Every RssClient the plugin builds is this one, so tests script the server's replies on it
+mock.module("./client", () => ({
+  RssClient: class {
+    constructor() {
+      return client;
+    }
+  },
+}));
+
+const { RssPlugin } = await import("./index");
+
+const logger = {
+  logDebug: () => Effect.void,
+  logInfo: () => Effect.void,
+  logWarning: () => Effect.void,
+  logError: () => Effect.void,
+};
+
+const run = <A, E>(effect: Effect.Effect<A, E, PluginLoggerTag>) =>
+  Effect.runPromise(Effect.provideService(effect, PluginLoggerTag, logger as any));
+
+const runExit = <A, E>(effect: Effect.Effect<A, E, PluginLoggerTag>) =>
+  Effect.runPromiseExit(Effect.provideService(effect, PluginLoggerTag, logger as any));
+
+const setup = async () => {
+  const plugin = new RssPlugin();
+  await run(plugin.initialize({ variables: { baseUrl: "http://localhost:1337", timeout: 30000 }, secrets: { apiKey: "key" } }));
+  return plugin;
+};
+
+const input = (searchOptions: Partial<RssInput["searchOptions"]>, state?: Partial<RssState>) =>
+  ({
+    searchOptions: RssSearchOptionsSchema.parse(searchOptions),
+    lastProcessedState: state ? { data: state } : null,
+  }) as RssInput;
+
+const page = (feedId: string, ids: string[], overrides: Partial<Page> = {}): Page => ({
+  feedId,
+  items: ids.map((id) => ({ id })),
+  cursor: String(ids.length),
+  latest: String(ids.length),
+  scanned: ids.length,
+  hasMore: false,
+  ...overrides,
+});
+
+beforeEach(() => {
+  client.getItemsSince.mockReset();
+  client.getItemsSince.mockImplementation(async () => []);
+  client.filterItems.mockReset();
+});
+
+describe("feed selection", () => {
+  test("fails when no feed is named and allFeeds is not set", async () => {
+    const plugin = await setup();
+    const exit = await runExit(plugin.execute(input({})));
+
+    expect(exit._tag).toBe("Failure");
+    expect(JSON.stringify(exit)).toContain("allFeeds");
+    expect(client.getItemsSince).not.toHaveBeenCalled();
+  });
+
+  test("filtered queries need a feed too", async () => {
+    const plugin = await setup();
+    const exit = await runExit(plugin.execute(input({ query: "bun" })));
+
+    expect(exit._tag).toBe("Failure");
+    expect(client.filterItems).not.toHaveBeenCalled();
+  });
+
+  test("allFeeds polls the directory, passing on the cursors already known", async () => {
+    const plugin = await setup();
+    client.getItemsSince.mockImplementation(async () => [page("a", ["1"]), page("b", ["2", "3"])]);
+
+    const output = await run(plugin.execute(input({ allFeeds: true }, { feedCursors: { a: "4" } })));
+
+    expect(client.getItemsSince).toHaveBeenCalledWith([{ feedId: "a", cursor: "4" }], 100, true);
+    expect(output.data?.items.map((item: { id: string }) => item.id)).toEqual(["1", "2", "3"]);
+    expect(output.data?.nextLastProcessedState?.feedCursors).toEqual({ a: "1", b: "2" });
+  });
+
+  test("named feeds take precedence over allFeeds", async () => {
+    const plugin = await setup();
+    await run(plugin.execute(input({ feedIds: ["a"], allFeeds: true })));
+
+    expect(client.getItemsSince).toHaveBeenCalledWith([{ feedId: "a", cursor: undefined }], 100, false);
+  });
+});
+
+describe("forceRefresh", () => {
+  test("polls from the start but keeps the cursors of feeds not polled", async () => {
+    const plugin = await setup();
+    client.getItemsSince.mockImplementation(async () => [page("a", ["1", "2"])]);
+
+    const output = await run(plugin.execute(input(
+      { feedId: "a", forceRefresh: true },
+      { feedCursors: { a: "9", b: "5" } },
+    )));
+
+    expect(client.getItemsSince).toHaveBeenCalledWith([{ feedId: "a", cursor: undefined }], 100, false);
+    expect(output.data?.items).toHaveLength(2);
+    expect(output.data?.nextLastProcessedState?.feedCursors).toEqual({ a: "2", b: "5" });
+  });
+
+  test("without it, polling resumes from the stored cursor", async () => {
+    const plugin = await setup();
+    await run(plugin.execute(input({ feedId: "a" }, { feedCursors: { a: "9" } })));
+
+    expect(client.getItemsSince).toHaveBeenCalledWith([{ feedId: "a", cursor: "9" }], 100, false);
+  });
+});
+
+describe("stats", () => {
+  test("report scanned, skipped and emitted items per feed", async () => {
+    const plugin = await setup();
+    client.getItemsSince.mockImplementation(async () => [
+      page("a", ["1", "2"], { scanned: 5, hasMore: true }),
+      page("b", [], { scanned: 0 }),
+    ]);
+
+    const output = await run(plugin.execute(input({ feedIds: ["a", "b"] })));
+
+    expect(output.data?.stats).toEqual({
+      totalItems: 5,
+      newItems: 2,
+      skippedItems: 3,
+      processedFeeds: 2,
+      feeds: [
+        { feedId: "a", scanned: 5, skipped: 3, emitted: 2 },
+        { feedId: "b", scanned: 0, skipped: 0, emitted: 0 },
+      ],
+    });
+  });
+
+  test("filtered queries count the matches emitted against each feed's scan", async () => {
+    const plugin = await setup();
+    client.filterItems.mockImplementation(async () => ({
+      items: [{ feedId: "a", item: { id: "1" } }, { feedId: "a", item: { id: "2" } }],
+      nextCursor: "next",
+      stats: [{ feedId: "a", scanned: 10 }, { feedId: "b", scanned: 4 }],
+    }));
+
+    const output = await run(plugin.execute(input({ feedIds: ["a", "b"], categories: ["news"] })));
+
+    expect(output.data?.nextCursor).toBe("next");
+    expect(output.data?.stats.feeds).toEqual([
+      { feedId: "a", scanned: 10, skipped: 8, emitted: 2 },
+      { feedId: "b", scanned: 4, skipped: 4, emitted: 0 },
+    ]);
+  });
+});
+
+describe("backfill", () => {
+  const backfillState = (output: RssOutput) => output.data!.nextLastProcessedState! as RssState;
+
+  test("replays history a page per call, resuming from the job's cursors", async () => {
+    const plugin = await setup();
+    client.getItemsSince.mockImplementationOnce(async () => [
+      page("a", ["1", "2"], { cursor: "2", latest: "4", hasMore: true }),
+    ]);
+
+    const first = await run(plugin.execute(input({ feedId: "a", backfill: true, limit: 2 }, { feedCursors: { a: "4" } })));
+    const job = backfillState(first).currentAsyncJob!;
+
+    expect(client.getItemsSince).toHaveBeenLastCalledWith([{ feedId: "a", cursor: "0" }], 2, false);
+    expect(first.data?.items).toHaveLength(2);
+    expect(job).toMatchObject({
+      status: "processing",
+      progress: 50,
+      backfill: { feedIds: ["a"], cursors: { a: "2" }, emittedItems: 2 },
+    });
+    // Live polling carries on from where it was while the backfill runs
+    expect(backfillState(first).feedCursors).toEqual({ a: "4" });
+
+    client.getItemsSince.mockImplementationOnce(async () => [
+      page("a", ["3", "4"], { cursor: "4", latest: "4", hasMore: false }),
+    ]);
+    const second = await run(plugin.execute(input({ feedId: "a", backfill: true, limit: 2 }, backfillState(first))));
+
+    expect(client.getItemsSince).toHaveBeenLastCalledWith([{ feedId: "a", cursor: "2" }], 2, false);
+    expect(backfillState(second).currentAsyncJob).toMatchObject({
+      jobId: job.jobId,
+      status: "done",
+      progress: 100,
+      backfill: { cursors: { a: "4" }, emittedItems: 4 },
+    });
+  });
+
+  test("hands live polling the furthest cursor once it completes", async () => {
+    const plugin = await setup();
+    client.getItemsSince.mockImplementation(async () => [
+      page("a", ["1"], { cursor: "6", latest: "6" }),
+      page("b", ["2"], { cursor: "3", latest: "3" }),
+    ]);
+
+    const output = await run(plugin.execute(input(
+      { feedIds: ["a", "b"], backfill: true },
+      { feedCursors: { a: "2", b: "5" } },
+    )));
+
+    expect(backfillState(output).feedCursors).toEqual({ a: "6", b: "5" });
+  });
+
+  test("a finished backfill stays finished until forceRefresh starts it over", async () => {
+    const plugin = await setup();
+    client.getItemsSince.mockImplementation(async () => [page("a", ["1"])]);
+
+    const done = await run(plugin.execute(input({ feedId: "a", backfill: true })));
+    const jobId = backfillState(done).currentAsyncJob!.jobId;
+    client.getItemsSince.mockClear();
+
+    const idle = await run(plugin.execute(input({ feedId: "a", backfill: true }, backfillState(done))));
+    expect(client.getItemsSince).not.toHaveBeenCalled();
+    expect(idle.data?.items).toEqual([]);
+
+    const restarted = await run(plugin.execute(input({ feedId: "a", backfill: true, forceRefresh: true }, backfillState(done))));
+    expect(client.getItemsSince).toHaveBeenCalledWith([{ feedId: "a", cursor: "0" }], 100, false);
+    expect(backfillState(restarted).currentAsyncJob?.jobId).not.toBe(jobId);
+  });
+
+  test("allFeeds backfills the directory, remembering each feed it has reached", async () => {
+    const plugin = await setup();
+    client.getItemsSince.mockImplementationOnce(async () => [
+      page("a", ["1"], { cursor: "1", latest: "2", hasMore: true }),
+      page("b", ["2"], { cursor: "1", latest: "1" }),
+    ]);
+
+    const first = await run(plugin.execute(input({ allFeeds: true, backfill: true, limit: 2 })));
+    expect(client.getItemsSince).toHaveBeenLastCalledWith([], 2, true);
+    expect(backfillState(first).currentAsyncJob?.backfill).toMatchObject({ feedIds: null, cursors: { a: "1", b: "1" } });
+
+    client.getItemsSince.mockImplementationOnce(async () => []);
+    await run(plugin.execute(input({ allFeeds: true, backfill: true, limit: 2 }, backfillState(first))));
+    expect(client.getItemsSince).toHaveBeenLastCalledWith(
+      [{ feedId: "a", cursor: "1" }, { feedId: "b", cursor: "1" }],
+      2,
+      true,
+    );
+  });
+
+  test("a backfill in progress survives incremental polls in between", async () => {
+    const plugin = await setup();
+    client.getItemsSince.mockImplementationOnce(async () => [page("a", ["1"], { cursor: "1", latest: "3", hasMore: true })]);
+    const started = await run(plugin.execute(input({ feedId: "a", backfill: true, limit: 1 })));
+
+    const polled = await run(plugin.execute(input({ feedId: "a" }, backfillState(started))));
+
+    expect(backfillState(polled).currentAsyncJob).toEqual(backfillState(started).currentAsyncJob);
+  });
+});
@@ -15,8 +15,41 @@ import {
   RssOutputSchema,
   type RssState,
   type RssSearchOptions,
+  type RssFeedStats,
+  type RssAsyncJob,
 } from "./schemas";
 
+const summarizeStats = (feeds: RssFeedStats[]) => ({
+  totalItems: feeds.reduce((total, feed) => total + feed.scanned, 0),
+  newItems: feeds.reduce((total, feed) => total + feed.emitted, 0),
+  skippedItems: feeds.reduce((total, feed) => total + feed.skipped, 0),
+  processedFeeds: feeds.length,
+  feeds,
+});
+
+const countByFeed = (feedIds: string[]) => {
+  const counts = new Map<string, number>();
+  for (const feedId of feedIds) {
+    counts.set(feedId, (counts.get(feedId) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// The feeds a query reads, or "all" for the whole directory. Naming none is an error rather
+// than a silent default.
+const resolveFeeds = (query: RssSearchOptions) => {
+  const feedIds = query.feedIds?.length ? query.feedIds : query.feedId ? [query.feedId] : [];
+  if (feedIds.length > 0) {
+    return Effect.succeed(feedIds);
+  }
+  if (query.allFeeds) {
+    return Effect.succeed("all" as const);
+  }
+  return Effect.fail(
+    new PluginExecutionError("Set feedId or feedIds, or allFeeds to read every feed in the directory", false),
+  );
+};
+
 export class RssPlugin
   implements
     Plugin<
@@ -113,8 +146,7 @@ export class RssPlugin
       });
 
       const state: RssState = {
-        processedItemIds: lastProcessedState?.data?.processedItemIds || [],
-        latestProcessedId: lastProcessedState?.data?.latestProcessedId,
+        feedCursors: lastProcessedState?.data?.feedCursors || {},
         lastPollTime: lastProcessedState?.data?.lastPollTime,
         currentAsyncJob: lastProcessedState?.data?.currentAsyncJob || null,
       };
@@ -129,6 +161,14 @@ export class RssPlugin
         return yield* self.executeItemQuery(searchOptions, state, logger);
       }
 
+      if (searchOptions.backfill) {
+        return yield* self.executeBackfill(searchOptions, state, logger);
+      }
+
+      if (self.hasFilters(searchOptions)) {
+        return yield* self.executeFilteredQuery(searchOptions, state, logger);
+      }
+
       // Default: incremental feed processing
       return yield* self.executeIncrementalFeedQuery(searchOptions, state, logger);
     });
@@ -158,16 +198,11 @@ export class RssPlugin
         success: true,
         data: {
           items: [],
-          feeds: [directory],
-          stats: {
-            totalItems: 0,
-            newItems: 0,
-            processedFeeds: 1,
-          },
+          feeds: directory,
+          stats: { ...summarizeStats([]), processedFeeds: directory.length },
           nextLastProcessedState: {
             ...state,
             lastPollTime: now,
-            currentAsyncJob: null,
           },
         },
       };
@@ -216,25 +251,221 @@ export class RssPlugin
           ),
       });
 
-      const items = results
-        .filter((result) => result.item !== null)
-        .map((result) => result.item);
+      const found = results.flatMap((result, index) =>
+        result.item ? [{ feedId: requests[index]!.feedId, item: result.item }] : [],
+      );
+      const emitted = found.slice(0, query.limit);
+      const requested = countByFeed(requests.map(({ feedId }) => feedId));
+      const emittedByFeed = countByFeed(emitted.map(({ feedId }) => feedId));
 
       const now = new Date().toISOString();
 
+      return {
+        success: true,
+        data: {
+          items: emitted.map(({ item }) => item),
+          stats: summarizeStats(feedIds.map((feedId) => {
+            const scanned = requested.get(feedId) ?? 0;
+            const count = emittedByFeed.get(feedId) ?? 0;
+            return { feedId, scanned, skipped: scanned - count, emitted: count };
+          })),
+          nextLastProcessedState: {
+            ...state,
+            lastPollTime: now,
+          },
+        },
+      };
+    });
+  }
+
+  // One page of a backfill per call. The job in currentAsyncJob defines which feeds it covers and
+  // where each has got to, so calls can be spread out over as long as the replay takes.
+  private executeBackfill(
+    query: RssSearchOptions,
+    state: RssState,
+    logger: any,
+  ): Effect.Effect<RssOutput, PluginExecutionError, PluginLoggerTag> {
+    const self = this;
+    return Effect.gen(function* () {
+      const feeds = yield* resolveFeeds(query);
+      const now = new Date().toISOString();
+
+      const previous = state.currentAsyncJob?.backfill && !query.forceRefresh ? state.currentAsyncJob : null;
+
+      if (previous?.status === "done") {
+        yield* logger.logInfo("Backfill already complete, set forceRefresh to run it again", {
+          jobId: previous.jobId,
+        });
+        return {
+          success: true,
+          data: {
+            items: [],
+            stats: summarizeStats([]),
+            nextLastProcessedState: { ...state, lastPollTime: now },
+          },
+        };
+      }
+
+      const job: RssAsyncJob = previous ?? {
+        jobId: crypto.randomUUID(),
+        status: "processing",
+        submittedAt: now,
+        progress: 0,
+        backfill: {
+          feedIds: feeds === "all" ? null : feeds,
+          cursors: {},
+          emittedItems: 0,
+        },
+      };
+      const backfill = job.backfill!;
+
+      yield* logger.logDebug(previous ? "Resuming backfill" : "Starting backfill", {
+        jobId: job.jobId,
+        feedIds: backfill.feedIds ?? "all",
+        emittedItems: backfill.emittedItems,
+      });
+
+      const feedCursorList = backfill.feedIds === null
+        ? Object.entries(backfill.cursors).map(([feedId, cursor]) => ({ feedId, cursor }))
+        : backfill.feedIds.map((feedId) => ({ feedId, cursor: backfill.cursors[feedId] ?? "0" }));
+
+      const pages = yield* Effect.tryPromise({
+        try: () => self.client!.getItemsSince(feedCursorList, query.limit, backfill.feedIds === null),
+        catch: (error) =>
+          new PluginExecutionError(
+            `Backfill page failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+            true,
+          ),
+      });
+
+      const items = pages.flatMap((page) => page.items);
+      const cursors = {
+        ...backfill.cursors,
+        ...Object.fromEntries(pages.map((page) => [page.feedId, page.cursor])),
+      };
+      const done = pages.every((page) => !page.hasMore);
+
+      // Sequences are dense apart from deleted items, so they make a fair measure of progress
+      const reached = pages.reduce((total, page) => total + Number(page.cursor), 0);
+      const latest = pages.reduce((total, page) => total + Number(page.latest), 0);
+      const progress = done || latest === 0 ? 100 : Math.min(99, Math.floor((reached / latest) * 100));
+
+      // Once history is replayed, live polling picks up from wherever is furthest along so
+      // nothing the backfill emitted comes round again
+      const feedCursors = done
+        ? Object.fromEntries(
+            Object.entries({ ...state.feedCursors, ...cursors }).map(([feedId, cursor]) => [
+              feedId,
+              String(Math.max(Number(cursor), Number(state.feedCursors[feedId] ?? 0))),
+            ]),
+          )
+        : state.feedCursors;
+
+      const stats = summarizeStats(pages.map((page) => ({
+        feedId: page.feedId,
+        scanned: page.scanned,
+        skipped: page.scanned - page.items.length,
+        emitted: page.items.length,
+      })));
+
+      yield* logger.logInfo(done ? "Backfill completed" : "Backfill page processed", {
+        jobId: job.jobId,
+        emitted: stats.newItems,
+        progress,
+      });
+
       return {
         success: true,
         data: {
           items,
-          stats: {
-            totalItems: items.length,
-            newItems: items.length,
-            processedFeeds: feedIds.length,
+          stats,
+          nextLastProcessedState: {
+            ...state,
+            feedCursors,
+            lastPollTime: now,
+            currentAsyncJob: {
+              ...job,
+              status: done ? "done" : "processing",
+              lastCheckedAt: now,
+              progress,
+              backfill: {
+                ...backfill,
+                cursors,
+                emittedItems: backfill.emittedItems + items.length,
+              },
+            },
           },
+        },
+      };
+    });
+  }
+
+  private hasFilters(query: RssSearchOptions) {
+    return !!(
+      query.categories?.length ||
+      query.authors?.length ||
+      query.query ||
+      query.since ||
+      query.until ||
+      query.enclosureType
+    );
+  }
+
+  private executeFilteredQuery(
+    query: RssSearchOptions,
+    state: RssState,
+    logger: any,
+  ): Effect.Effect<RssOutput, PluginExecutionError, PluginLoggerTag> {
+    const self = this;
+    return Effect.gen(function* () {
+      const feeds = yield* resolveFeeds(query);
+      const feedIds = feeds === "all" ? undefined : feeds;
+
+      yield* logger.logDebug("Executing filtered item query", {
+        feedIds,
+        categories: query.categories,
+        authors: query.authors,
+        query: query.query,
+        since: query.since,
+        until: query.until,
+        enclosureType: query.enclosureType,
+      });
+
+      const result = yield* Effect.tryPromise({
+        try: () =>
+          self.client!.filterItems({
+            feedIds,
+            categories: query.categories,
+            authors: query.authors,
+            query: query.query,
+            since: query.since,
+            until: query.until,
+            enclosureType: query.enclosureType,
+            cursor: query.cursor,
+            limit: query.limit,
+          }),
+        catch: (error) =>
+          new PluginExecutionError(
+            `Filtered query failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+            true,
+          ),
+      });
+
+      const emittedByFeed = countByFeed(result.items.map(({ feedId }) => feedId));
+      const now = new Date().toISOString();
+
+      return {
+        success: true,
+        data: {
+          items: result.items.map(({ item }) => item),
+          nextCursor: result.nextCursor,
+          stats: summarizeStats(result.stats.map(({ feedId, scanned }) => {
+            const emitted = emittedByFeed.get(feedId) ?? 0;
+            return { feedId, scanned, skipped: scanned - emitted, emitted };
+          })),
           nextLastProcessedState: {
             ...state,
             lastPollTime: now,
-            currentAsyncJob: null,
           },
         },
       };
@@ -255,83 +486,62 @@ export class RssPlugin
         forceRefresh: query.forceRefresh,
       });
 
-      // Determine target feeds
-      const feedIds = query.feedIds || (query.feedId ? [query.feedId] : ["grants"]);
-
-      let allNewItems: any[] = [];
-      const updatedProcessedIds = new Set(state.processedItemIds || []);
+      const feeds = yield* resolveFeeds(query);
+      // A forced refresh starts every polled feed from its first item again
+      const cursors = query.forceRefresh ? {} : state.feedCursors;
+      const feedCursorList = feeds === "all"
+        ? Object.entries(cursors).map(([feedId, cursor]) => ({ feedId, cursor }))
+        : feeds.map((feedId) => ({ feedId, cursor: cursors[feedId] }));
 
-      // Process each feed incrementally
-      for (const feedId of feedIds) {
-        yield* logger.logDebug(`Processing feed: ${feedId}`);
-
-        const feedData = yield* Effect.tryPromise({
-          try: () => self.client!.getFeed(feedId),
-          catch: (error) =>
-            new PluginExecutionError(
-              `Feed fetch failed for ${feedId}: ${error instanceof Error ? error.message : "Unknown error"}`,
-              true,
-            ),
-        });
+      const pages = yield* Effect.tryPromise({
+        try: () => self.client!.getItemsSince(feedCursorList, query.limit, feeds === "all"),
+        catch: (error) =>
+          new PluginExecutionError(
+            `Fetching new items failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+            true,
+          ),
+      });
 
-        // Filter for new items only
-        const newItems = feedData.items
-          .filter((item: any) => {
-            const itemId = item.guid || item.id || item.link;
-            return itemId && !updatedProcessedIds.has(itemId);
-          })
-          .slice(0, query.limit);
-
-        yield* logger.logDebug(`Found ${newItems.length} new items in feed ${feedId}`);
-
-        // Track processed items
-        newItems.forEach((item: any) => {
-          const itemId = item.guid || item.id || item.link;
-          if (itemId) {
-            updatedProcessedIds.add(itemId);
-          }
+      for (const page of pages) {
+        yield* logger.logDebug(`Found ${page.items.length} new items in feed ${page.feedId}`, {
+          cursor: page.cursor,
+          hasMore: page.hasMore,
         });
-
-        allNewItems.push(...newItems);
-
-        // Respect the overall limit across all feeds
-        if (allNewItems.length >= query.limit) {
-          allNewItems = allNewItems.slice(0, query.limit);
-          break;
-        }
       }
 
-      // Maintain reasonable state size (keep last 1000 processed items)
-      const processedArray = Array.from(updatedProcessedIds).slice(-1000);
+      const allNewItems = pages.flatMap((page) => page.items);
+      // Cursors of feeds not polled this time are kept for the next time they are
+      const feedCursors = {
+        ...state.feedCursors,
+        ...Object.fromEntries(pages.map((page) => [page.feedId, page.cursor])),
+      };
       const now = new Date().toISOString();
 
-      const latestProcessedId = allNewItems.length > 0 
-        ? (allNewItems[allNewItems.length - 1]?.guid || 
-           allNewItems[allNewItems.length - 1]?.id || 
-           allNewItems[allNewItems.length - 1]?.link || 
-           state.latestProcessedId)
-        : state.latestProcessedId;
+      const stats = summarizeStats(pages.map((page) => ({
+        feedId: page.feedId,
+        scanned: page.scanned,
+        skipped: page.scanned - page.items.length,
+        emitted: page.items.length,
+      })));
 
       yield* logger.logInfo("Incremental feed query completed", {
-        totalNewItems: allNewItems.length,
-        processedFeeds: feedIds.length,
-        totalProcessedItems: processedArray.length,
+        totalNewItems: stats.newItems,
+        heldBack: stats.skippedItems,
+        processedFeeds: stats.processedFeeds,
+        forceRefresh: query.forceRefresh,
+        feedsWithMore: pages.filter((page) => page.hasMore).map((page) => page.feedId),
       });
 
       return {
         success: true,
         data: {
           items: allNewItems,
-          stats: {
-            totalItems: allNewItems.length,
-            newItems: allNewItems.length,
-            processedFeeds: feedIds.length,
-          },
+          stats,
           nextLastProcessedState: {
-            latestProcessedId,
-            processedItemIds: processedArray,
+            feedCursors,
             lastPollTime: now,
-            currentAsyncJob: null,
+            // A backfill in progress carries on at the next backfill call
+            currentAsyncJob: state.currentAsyncJob,
           },
         },
       };
@@ -19,12 +19,24 @@ export const RssConfigSchema = createConfigSchema(
   }),
 );
 
-// State schema for incremental processing
+// Where a backfill has got to. Its cursors are separate from the live ones so replaying
+// history doesn't disturb regular polling.
+export const RssBackfillSchema = z.object({
+  feedIds: z.array(z.string()).nullable(), // null: every feed in the directory
+  cursors: z.record(z.string(), z.string()).default({}),
+  emittedItems: z.number().default(0),
+});
+
+export const RssAsyncJobSchema = AsyncJobProgressSchema.extend({
+  backfill: RssBackfillSchema.optional(),
+});
+
+// State schema for incremental processing: the server's insertion cursor per feed, so each
+// poll only returns items added since the last one
 export const RssStateSchema = z.object({
-  latestProcessedId: z.string().optional(),
-  processedItemIds: z.array(z.string()).default([]),
+  feedCursors: z.record(z.string(), z.string()).default({}),
   lastPollTime: z.string().datetime().optional(),
-  currentAsyncJob: AsyncJobProgressSchema.nullable().optional(),
+  currentAsyncJob: RssAsyncJobSchema.nullable().optional(),
 });
 
 // Search options schema - clean and focused
@@ -32,15 +44,37 @@ export const RssSearchOptionsSchema = z.object({
   // Flexible feed selection
   feedIds: z.array(z.string()).optional(), // Multiple feeds
   feedId: z.string().optional(), // Single feed (backwards compatibility)
+  allFeeds: z.boolean().default(false), // Every feed in the directory; needed when no feed is given
   
   // Flexible item selection for specific queries
   itemIds: z.array(z.string()).optional(), // Query specific items
   itemId: z.string().optional(), // Single item (backwards compatibility)
+
+  // Filters, evaluated by the server; any of them switches to a filtered listing, newest first
+  categories: z.array(z.string()).optional(), // Any of these category names or terms
+  authors: z.array(z.string()).optional(), // Any of these author names or emails
+  query: z.string().optional(), // Every word must appear in the item
+  since: z.iso.datetime({ offset: true }).optional(),
+  until: z.iso.datetime({ offset: true }).optional(),
+  enclosureType: z.string().optional(), // "audio/mpeg", or a family like "audio"
+  cursor: z.string().optional(), // nextCursor of the previous filtered listing
   
   // Pagination & control
-  limit: z.number().min(1).max(1000).default(100),
-  forceRefresh: z.boolean().default(false),
+  limit: z.number().min(1).max(1000).default(100), // Most items emitted per run, across all feeds
+  forceRefresh: z.boolean().default(false), // Ignore stored cursors and emit from the start again
   includeFeedDirectory: z.boolean().default(false), // Get available feeds list
+  // Replay the selected feeds' whole history, `limit` items per execute call, tracked in
+  // currentAsyncJob until it completes; forceRefresh starts it over
+  backfill: z.boolean().default(false),
+});
+
+// What happened to each feed in a run: skipped items were read but not emitted, because they
+// didn't match, weren't found or were held back by the limit for the next run
+export const RssFeedStatsSchema = z.object({
+  feedId: z.string(),
+  scanned: z.number(),
+  skipped: z.number(),
+  emitted: z.number(),
 });
 
 // Input schema using source plugin pattern
@@ -54,10 +88,13 @@ export const RssOutputSchema = createSourceOutputSchema(
   z.object({
     items: z.array(z.any()), // FeedItem[] from server schema
     feeds: z.array(z.any()).optional(), // Feed[] when includeFeedDirectory=true
+    nextCursor: z.string().nullable().optional(), // More filtered results follow
     stats: z.object({
-      totalItems: z.number(),
-      newItems: z.number(),
+      totalItems: z.number(), // Scanned across all feeds
+      newItems: z.number(), // Emitted
+      skippedItems: z.number(),
       processedFeeds: z.number(),
+      feeds: z.array(RssFeedStatsSchema),
     }),
   }),
   RssStateSchema
@@ -69,3 +106,5 @@ export type RssInput = z.infer<typeof RssInputSchema>;
 export type RssOutput = z.infer<typeof RssOutputSchema>;
 export type RssState = z.infer<typeof RssStateSchema>;
 export type RssSearchOptions = z.infer<typeof RssSearchOptionsSchema>;
+export type RssFeedStats = z.infer<typeof RssFeedStatsSchema>;
+export type RssAsyncJob = z.infer<typeof RssAsyncJobSchema>;